@@ -10,6 +10,18 @@ import { SymptomsPageComponent } from './symptom-management/symptoms-page.compon
 import { AliasesPageComponent } from './symptom-management/aliases-page.component';
 import { DiseasesPageComponent } from './symptom-management/diseases-page.component';
 import { DiseaseSymptomsPageComponent } from './symptom-management/disease-symptoms-page.component';
+import { AuditLogComponent } from './audit-log/audit-log.component';
+import { ReviewQueueComponent } from './review-queue/review-queue.component';
+import { ModelQualityComponent } from './model-quality/model-quality.component';
+import { ModelCalibrationComponent } from './model-calibration/model-calibration.component';
+import { ModelRegistryComponent } from './model-registry/model-registry.component';
+import { RetrainHistoryComponent } from './retrain-history/retrain-history.component';
+import { RetrainWizardComponent } from './retrain-wizard/retrain-wizard.component';
+import { ModelRolloutComponent } from './model-rollout/model-rollout.component';
+import { DuplicateFinderComponent } from './duplicate-finder/duplicate-finder.component';
+import { NotificationRulesComponent } from './notification-rules/notification-rules.component';
+import { NotificationHistoryComponent } from './notification-history/notification-history.component';
+import { RoleGuard } from '../guards/role.guard';
 
 const routes: Routes = [
   { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
@@ -18,14 +30,25 @@ const routes: Routes = [
   { path: 'image-gallery', redirectTo: '/admin/verified-images', pathMatch: 'full' }, //redirect
   { path: 'image-detail/:id', component: ImageDetailComponent },
   { path: 'verified-images', component: VerifiedImagesComponent },
-  { path: 'user-management', component: UserManagementComponent },
+  { path: 'review-queue', component: ReviewQueueComponent, canActivate: [RoleGuard], data: { permission: 'verify_images' } },
+  { path: 'duplicate-finder', component: DuplicateFinderComponent, canActivate: [RoleGuard], data: { permission: 'verify_images' } },
+  { path: 'user-management', component: UserManagementComponent, canActivate: [RoleGuard], data: { permission: 'manage_users' } },
   // { path: 'upload-images', component: UploadImagesComponent },
-  { path: 'model-settings', component: ModelSettingsComponent },
+  { path: 'model-settings', component: ModelSettingsComponent, canActivate: [RoleGuard], data: { permission: 'manage_models' } },
+  { path: 'model-registry', component: ModelRegistryComponent, canActivate: [RoleGuard], data: { permission: 'manage_models' } },
+  { path: 'model-rollout', component: ModelRolloutComponent, canActivate: [RoleGuard], data: { permission: 'manage_models' } },
+  { path: 'retrain-history', component: RetrainHistoryComponent, canActivate: [RoleGuard], data: { permission: 'manage_models' } },
+  { path: 'retrain-wizard', component: RetrainWizardComponent, canActivate: [RoleGuard], data: { permission: 'retrain_models' } },
   { path: 'user-confirmations', component: UserConfirmationsComponent },
-  { path: 'symptoms',         component: SymptomsPageComponent },
-  { path: 'symptom-aliases',  component: AliasesPageComponent },
-  { path: 'diseases',         component: DiseasesPageComponent },
-  { path: 'disease-symptoms', component: DiseaseSymptomsPageComponent }
+  { path: 'notification-rules', component: NotificationRulesComponent },
+  { path: 'notification-history', component: NotificationHistoryComponent },
+  { path: 'model-quality', component: ModelQualityComponent },
+  { path: 'model-calibration', component: ModelCalibrationComponent },
+  { path: 'audit-log', component: AuditLogComponent, canActivate: [RoleGuard], data: { permission: 'view_audit_log' } },
+  { path: 'symptoms',         component: SymptomsPageComponent,        canActivate: [RoleGuard], data: { permission: 'manage_vocabulary' } },
+  { path: 'symptom-aliases',  component: AliasesPageComponent,         canActivate: [RoleGuard], data: { permission: 'manage_vocabulary' } },
+  { path: 'diseases',         component: DiseasesPageComponent,        canActivate: [RoleGuard], data: { permission: 'manage_vocabulary' } },
+  { path: 'disease-symptoms', component: DiseaseSymptomsPageComponent, canActivate: [RoleGuard], data: { permission: 'manage_vocabulary' } }
 ];
 
 @NgModule({
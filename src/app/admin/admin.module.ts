@@ -2,6 +2,7 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterModule } from '@angular/router';
+import { ScrollingModule } from '@angular/cdk/scrolling';
 import { AdminRoutingModule } from './admin-routing.module';
 import { DashboardComponent } from './dashboard/dashboard.component';
 import { ImageDetailComponent } from './image-detail/image-detail.component';
@@ -24,6 +25,21 @@ import { SymptomsPageComponent } from './symptom-management/symptoms-page.compon
 import { AliasesPageComponent } from './symptom-management/aliases-page.component';
 import { DiseasesPageComponent } from './symptom-management/diseases-page.component';
 import { DiseaseSymptomsPageComponent } from './symptom-management/disease-symptoms-page.component';
+import { AuditLogComponent } from './audit-log/audit-log.component';
+import { ReviewQueueComponent } from './review-queue/review-queue.component';
+import { ModelQualityComponent } from './model-quality/model-quality.component';
+import { ModelCalibrationComponent } from './model-calibration/model-calibration.component';
+import { ModelRegistryComponent } from './model-registry/model-registry.component';
+import { RetrainHistoryComponent } from './retrain-history/retrain-history.component';
+import { RetrainCurvesComponent } from './retrain-history/retrain-curves.component';
+import { JobQueueComponent } from './model-settings/job-queue/job-queue.component';
+import { RetrainWizardComponent } from './retrain-wizard/retrain-wizard.component';
+import { RetrainPresetsComponent } from './model-settings/retrain-presets/retrain-presets.component';
+import { RetrainSweepComponent } from './model-settings/retrain-sweep/retrain-sweep.component';
+import { ModelRolloutComponent } from './model-rollout/model-rollout.component';
+import { DuplicateFinderComponent } from './duplicate-finder/duplicate-finder.component';
+import { NotificationRulesComponent } from './notification-rules/notification-rules.component';
+import { NotificationHistoryComponent } from './notification-history/notification-history.component';
 
 @NgModule({
   declarations: [
@@ -45,6 +61,7 @@ import { DiseaseSymptomsPageComponent } from './symptom-management/disease-sympt
     CommonModule,
     FormsModule,
     RouterModule, 
+    ScrollingModule,
     AdminRoutingModule,
     TrainingEditModalComponent,
     TrainingSummaryComponent,
@@ -54,7 +71,22 @@ import { DiseaseSymptomsPageComponent } from './symptom-management/disease-sympt
     SymptomsPageComponent,
     AliasesPageComponent,
     DiseasesPageComponent,
-    DiseaseSymptomsPageComponent
+    DiseaseSymptomsPageComponent,
+    AuditLogComponent,
+    ReviewQueueComponent,
+    ModelQualityComponent,
+    ModelCalibrationComponent,
+    ModelRegistryComponent,
+    RetrainHistoryComponent,
+    RetrainCurvesComponent,
+    JobQueueComponent,
+    RetrainWizardComponent,
+    RetrainPresetsComponent,
+    RetrainSweepComponent,
+    ModelRolloutComponent,
+    DuplicateFinderComponent,
+    NotificationRulesComponent,
+    NotificationHistoryComponent
   ]
 })
 export class AdminModule { }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import {
+  AuditLogService,
+  AuditEvent,
+  AuditAction,
+  AuditLogFilters,
+  AUDIT_ACTION_LABELS,
+} from '../../services/audit-log.service';
+import { CsvExportService, CsvColumn } from '../../services/csv-export.service';
+
+@Component({
+  selector: 'app-audit-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './audit-log.component.html',
+})
+export class AuditLogComponent implements OnInit {
+  events: AuditEvent[] = [];
+  loading = false;
+  exporting = false;
+  error: string | null = null;
+
+  //filters
+  actorFilter = '';
+  actionFilter: AuditAction | '' = '';
+  dateFrom = '';
+  dateTo = '';
+
+  //pagination
+  currentPage = 1;
+  pageSize = 25;
+  private readonly EXPORT_PAGE_SIZE = 100;
+  totalCount = 0;
+
+  expandedId: number | null = null;
+
+  readonly actionOptions = Object.entries(AUDIT_ACTION_LABELS) as [AuditAction, string][];
+
+  private readonly csvColumns: CsvColumn[] = [
+    { key: 'timestamp',   label: 'Timestamp' },
+    { key: 'actor',       label: 'Actor' },
+    { key: 'action',      label: 'Action', format: (v) => this.getActionLabel(v) },
+    { key: 'target_type', label: 'Target Type' },
+    { key: 'target_id',   label: 'Target ID' },
+    { key: 'before',      label: 'Before', format: (v) => this.formatValue(v) },
+    { key: 'after',       label: 'After',  format: (v) => this.formatValue(v) },
+  ];
+
+  constructor(
+    private auditLogService: AuditLogService,
+    private csvExport: CsvExportService,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadEvents();
+  }
+
+  async loadEvents(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const page = await firstValueFrom(this.auditLogService.getEvents({
+        ...this.buildFilters(),
+        page: this.currentPage,
+        page_size: this.pageSize,
+      }));
+      this.events = page.results || [];
+      this.totalCount = page.count || 0;
+    } catch {
+      this.error = 'Failed to load audit log.';
+      this.events = [];
+      this.totalCount = 0;
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  onFilterChange(): void {
+    this.currentPage = 1;
+    this.loadEvents();
+  }
+
+  clearFilters(): void {
+    this.actorFilter = '';
+    this.actionFilter = '';
+    this.dateFrom = '';
+    this.dateTo = '';
+    this.onFilterChange();
+  }
+
+  onPageChange(page: number): void {
+    if (page < 1 || page > this.getTotalPages()) return;
+    this.currentPage = page;
+    this.loadEvents();
+  }
+
+  getTotalPages(): number {
+    return Math.ceil(this.totalCount / this.pageSize);
+  }
+
+  toggleExpanded(event: AuditEvent): void {
+    this.expandedId = this.expandedId === event.id ? null : event.id;
+  }
+
+  /** Export every event matching the current filters, not just the visible page. */
+  async exportCsv(): Promise<void> {
+    if (this.totalCount === 0) return;
+    this.exporting = true;
+    try {
+      //the server caps page_size, so walk the pages rather than asking for everything at once
+      const events: AuditEvent[] = [];
+      let page = 1;
+      let hasNext = true;
+      while (hasNext) {
+        const response = await firstValueFrom(this.auditLogService.getEvents({
+          ...this.buildFilters(),
+          page,
+          page_size: this.EXPORT_PAGE_SIZE,
+        }));
+        events.push(...(response.results || []));
+        hasNext = !!response.next;
+        page++;
+      }
+      this.csvExport.export(events, this.csvColumns, this.csvExport.filename('audit-log'));
+    } catch {
+      this.error = 'Failed to export audit log.';
+    } finally {
+      this.exporting = false;
+    }
+  }
+
+  getActionLabel(action: AuditAction): string {
+    return AUDIT_ACTION_LABELS[action] || action;
+  }
+
+  getActionClass(action: AuditAction): string {
+    switch (action) {
+      case 'image_deleted':          return 'bg-red-100 text-red-800';
+      case 'model_settings_updated':
+      case 'model_rollout_updated':
+      case 'retrain_started':        return 'bg-purple-100 text-purple-800';
+      case 'user_status_updated':    return 'bg-yellow-100 text-yellow-800';
+      default:                       return 'bg-blue-100 text-blue-800';
+    }
+  }
+
+  formatValue(value: any): string {
+    if (value == null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  formatDate(dateString: string): string {
+    return new Date(dateString).toLocaleString();
+  }
+
+  private buildFilters(): AuditLogFilters {
+    return {
+      actor:     this.actorFilter.trim(),
+      action:    this.actionFilter,
+      date_from: this.dateFrom,
+      date_to:   this.dateTo,
+    };
+  }
+}
@@ -5,6 +5,9 @@ import {
 import { firstValueFrom } from 'rxjs';
 import * as L from 'leaflet';
 import { MangoDiseaseService, DiseaseLocation } from '../../services/mango-disease.service';
+import {
+  OutbreakDetectorService, OutbreakCluster, OutbreakSettings, DEFAULT_OUTBREAK_SETTINGS
+} from '../../services/outbreak-detector.service';
 
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -28,6 +31,8 @@ const PALETTE = [
   '#f43f5e', // rose
 ];
 
+const OUTBREAK_NOTIFY_KEY = 'outbreak_notify';
+
 @Component({
   selector: 'app-disease-map',
   templateUrl: './disease-map.component.html',
@@ -40,6 +45,8 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
 
   private map?: L.Map;
   private markerLayer = L.layerGroup();
+  private zoneLayer   = L.layerGroup();
+  private zoneCircles = new Map<string, L.Circle>();
 
   loading        = true;
   allLocations: DiseaseLocation[] = [];
@@ -66,7 +73,16 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
     return `${fmt(this.dateFrom)} – ${fmt(this.dateTo)}`;
   }
 
-  constructor(private svc: MangoDiseaseService) {}
+  // Outbreak detection — runs over the window ending at the "To" date
+  outbreaks: OutbreakCluster[] = [];
+  outbreakSettings: OutbreakSettings = { ...DEFAULT_OUTBREAK_SETTINGS };
+  notifyAdmins = localStorage.getItem(OUTBREAK_NOTIFY_KEY) === 'true';
+  activeOutbreakKey: string | null = null;
+
+  constructor(
+    private svc: MangoDiseaseService,
+    private outbreakDetector: OutbreakDetectorService,
+  ) {}
 
   ngOnInit() {
     this.fetchLocations();
@@ -94,6 +110,7 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
       maxZoom: 19,
     }).addTo(this.map);
 
+    this.zoneLayer.addTo(this.map);
     this.markerLayer.addTo(this.map);
 
     setTimeout(() => this.map?.invalidateSize(), 150);
@@ -105,6 +122,9 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
       const resp = await firstValueFrom(this.svc.getDiseaseLocations());
       this.allLocations = resp?.data?.locations ?? [];
       this.applyFilters();
+      if (this.notifyAdmins) {
+        this.reportOutbreaks();
+      }
       this.loading = false;
     } catch {
       this.loading = false;
@@ -146,6 +166,7 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
       this.activeFilter = 'all';
     }
 
+    this.runDetection();
     this.renderMarkers();
   }
 
@@ -199,6 +220,103 @@ export class DiseaseMapComponent implements OnInit, AfterViewInit, OnDestroy {
       );
       this.map.fitBounds(bounds, { padding: [50, 50], maxZoom: 13 });
     }
+
+    this.renderZones();
+  }
+
+
+  // ── outbreaks ──────────────────────────────────────────────────────
+
+  // Uses every loaded detection, not just the date range, so the baseline has history to draw on
+  private runDetection() {
+    const asOf = this.dateTo ? new Date(this.dateTo + 'T23:59:59') : new Date();
+    const pool = this.activeDiseaseType === 'all'
+      ? this.allLocations
+      : this.allLocations.filter(l => this.inferDiseaseType(l.disease) === this.activeDiseaseType);
+
+    this.outbreaks = this.outbreakDetector.detect(pool, asOf, this.outbreakSettings);
+    if (!this.outbreaks.some(o => o.key === this.activeOutbreakKey)) {
+      this.activeOutbreakKey = null;
+    }
+  }
+
+  private renderZones() {
+    this.zoneLayer.clearLayers();
+    this.zoneCircles.clear();
+
+    this.visibleOutbreaks.forEach(o => {
+      const active = o.key === this.activeOutbreakKey;
+      const circle = L.circle([o.latitude, o.longitude], {
+        radius:      o.radiusKm * 1000,
+        color:       '#dc2626',
+        weight:      active ? 3 : 2,
+        dashArray:   '6 4',
+        fillColor:   '#ef4444',
+        fillOpacity: active ? 0.18 : 0.08,
+      });
+
+      circle.bindPopup(`
+        <div style="font-family:'Segoe UI',sans-serif;min-width:200px">
+          <div style="font-weight:700;font-size:13px;color:#b91c1c;margin-bottom:4px">Possible outbreak</div>
+          <div style="font-weight:600;font-size:12px;color:#111827;margin-bottom:6px">${o.disease}</div>
+          ${o.address ? `<p style="margin:0 0 8px;font-size:11px;color:#6b7280;line-height:1.4">${o.address}</p>` : ''}
+          <div style="display:grid;grid-template-columns:1fr auto;gap:2px 12px;font-size:11px;color:#374151">
+            <span>Last ${this.outbreakSettings.windowDays} days</span><strong>${o.observed}</strong>
+            <span>Usually</span><strong>${o.expected.toFixed(1)}</strong>
+            <span>Radius</span><strong>${o.radiusKm.toFixed(1)} km</strong>
+          </div>
+        </div>
+      `, { maxWidth: 250 });
+
+      this.zoneCircles.set(o.key, circle);
+      this.zoneLayer.addLayer(circle);
+    });
+  }
+
+  // What admins are told about is the standard settings over every detection up to now,
+  // never this viewer's date range, plant part or sensitivity
+  private reportOutbreaks() {
+    const outbreaks = this.outbreakDetector.detect(this.allLocations, new Date(), DEFAULT_OUTBREAK_SETTINGS);
+    this.outbreakDetector.reportOutbreaks(outbreaks)?.subscribe({
+      // already logged by the service; the next run sends again
+      error: () => {},
+    });
+  }
+
+  onOutbreakSettingsChange() {
+    this.runDetection();
+    this.renderZones();
+  }
+
+  toggleNotifyAdmins() {
+    this.notifyAdmins = !this.notifyAdmins;
+    localStorage.setItem(OUTBREAK_NOTIFY_KEY, String(this.notifyAdmins));
+    if (this.notifyAdmins) {
+      this.reportOutbreaks();
+    }
+  }
+
+  focusOutbreak(o: OutbreakCluster) {
+    this.activeOutbreakKey = o.key;
+    this.renderZones();
+    const circle = this.zoneCircles.get(o.key);
+    if (!this.map || !circle) return;
+    this.map.fitBounds(circle.getBounds(), { padding: [30, 30] });
+    circle.openPopup();
+  }
+
+  get visibleOutbreaks(): OutbreakCluster[] {
+    return this.activeFilter === 'all'
+      ? this.outbreaks
+      : this.outbreaks.filter(o => o.disease === this.activeFilter);
+  }
+
+  outbreakRatio(o: OutbreakCluster): string {
+    return o.expected < 0.5 ? 'new' : `${(o.observed / o.expected).toFixed(1)}× usual`;
+  }
+
+  formatOutbreakDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-PH', { month: 'short', day: 'numeric' });
   }
 
 
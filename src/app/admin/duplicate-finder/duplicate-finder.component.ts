@@ -0,0 +1,384 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { ImageStatus, MangoDiseaseService, MangoImage } from '../../services/mango-disease.service';
+import { HashedImage, ImageHashService } from '../../services/image-hash.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+export interface DuplicateGroup {
+  images: MangoImage[];
+  keepId: number;
+  busy: boolean;
+}
+
+type PendingAction = { kind: 'delete' | 'merge'; group: DuplicateGroup };
+
+@Component({
+  selector: 'app-duplicate-finder',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule, ConfirmDialogComponent],
+  templateUrl: './duplicate-finder.component.html',
+})
+export class DuplicateFinderComponent implements OnDestroy {
+  //scan scope
+  diseaseType: 'all' | 'leaf' | 'fruit' = 'all';
+  status: 'all' | ImageStatus = 'all';
+  //bits out of 64 that may differ; 0 only catches byte-identical thumbnails
+  maxDistance = 6;
+
+  readonly MAX_SCAN_IMAGES = 3000;
+  private readonly PAGE_SIZE = 100;
+  private readonly HASH_CONCURRENCY = 4;
+
+  scanning = false;
+  phase: 'loading' | 'hashing' | null = null;
+  loaded = 0;
+  hashed = 0;
+  failed = 0;
+  truncated = false;
+  scannedOnce = false;
+  private cancelRequested = false;
+
+  groups: DuplicateGroup[] = [];
+  private hashes = new Map<number, string>();
+
+  error: string | null = null;
+  successMessage: string | null = null;
+  private successTimer: any;
+
+  pendingAction: PendingAction | null = null;
+
+  constructor(
+    private mangoDiseaseService: MangoDiseaseService,
+    private hashService: ImageHashService,
+    private permissionService: PermissionService,
+  ) {}
+
+  ngOnDestroy(): void {
+    this.cancelRequested = true;
+    clearTimeout(this.successTimer);
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── scan ───────────────────────────────────────────────────────────────────
+
+  async scan(): Promise<void> {
+    if (this.scanning) return;
+
+    this.scanning = true;
+    this.cancelRequested = false;
+    this.error = null;
+    this.groups = [];
+    this.hashes.clear();
+    this.loaded = this.hashed = this.failed = 0;
+    this.truncated = false;
+
+    try {
+      this.phase = 'loading';
+      const images = await this.loadImages();
+      if (this.cancelRequested) return;
+
+      this.phase = 'hashing';
+      const hashedImages = await this.hashAll(images);
+      this.hashService.persist();
+      if (this.cancelRequested) return;
+
+      this.buildGroups(images, hashedImages);
+      this.scannedOnce = true;
+    } catch (err) {
+      console.error('Error scanning for duplicates:', err);
+      this.error = 'Failed to load images for the duplicate scan.';
+    } finally {
+      this.scanning = false;
+      this.phase = null;
+    }
+  }
+
+  cancelScan(): void {
+    this.cancelRequested = true;
+  }
+
+  get progressPct(): number {
+    if (this.phase !== 'hashing' || this.loaded === 0) return 0;
+    return Math.round((this.hashed + this.failed) / this.loaded * 100);
+  }
+
+  get duplicateCount(): number {
+    return this.groups.reduce((sum, group) => sum + group.images.length - 1, 0);
+  }
+
+  // ── group actions ──────────────────────────────────────────────────────────
+
+  keeper(group: DuplicateGroup): MangoImage | undefined {
+    return group.images.find(image => image.id === group.keepId);
+  }
+
+  others(group: DuplicateGroup): MangoImage[] {
+    return group.images.filter(image => image.id !== group.keepId);
+  }
+
+  distanceFromKeeper(group: DuplicateGroup, image: MangoImage): number | null {
+    const a = this.hashes.get(group.keepId);
+    const b = this.hashes.get(image.id);
+    return a && b ? this.hashService.distance(a, b) : null;
+  }
+
+  //the copies stay but drop out of review and training, so they can't leak across splits
+  async unmarkOthers(group: DuplicateGroup): Promise<void> {
+    const others = this.others(group);
+    if (!others.length || group.busy) return;
+
+    group.busy = true;
+    try {
+      const before = others.map(image => ({ id: image.id, is_verified: image.is_verified, training_ready: image.training_ready }));
+      const res = await firstValueFrom(this.mangoDiseaseService.bulkUpdateImages(
+        others.map(image => image.id), { is_verified: false, training_ready: false }, before
+      ));
+      if (res && res.success === false) {
+        this.error = res.message || 'Failed to unmark duplicates.';
+        return;
+      }
+      this.resolve(group);
+      this.showSuccess(`Unmarked ${others.length} duplicate${others.length === 1 ? '' : 's'} of #${group.keepId}.`);
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to unmark duplicates.';
+    } finally {
+      group.busy = false;
+    }
+  }
+
+  async confirmPending(): Promise<void> {
+    const action = this.pendingAction;
+    this.pendingAction = null;
+    if (!action) return;
+
+    if (action.kind === 'merge') {
+      await this.mergeIntoKeeper(action.group);
+    } else {
+      await this.deleteOthers(action.group);
+    }
+  }
+
+  get pendingMessage(): string {
+    if (!this.pendingAction) return '';
+    const { kind, group } = this.pendingAction;
+    const count = this.others(group).length;
+    const images = `${count} duplicate image${count === 1 ? '' : 's'}`;
+    const keeper = this.keeper(group);
+    const reviewedClass = this.reviewedClass(group);
+    const relabel = keeper && reviewedClass && reviewedClass !== this.getClassification(keeper)
+      ? ` It is relabelled "${reviewedClass}" to match the reviewed copies.`
+      : '';
+    return kind === 'merge'
+      ? `Merge ${images} into #${group.keepId}? The kept image takes over their verification and training status, then the duplicates are deleted.${relabel} This cannot be undone.`
+      : `Permanently delete ${images} and keep #${group.keepId}? This cannot be undone.`;
+  }
+
+  //the label the merged image trains on: the one reviewers gave, if the reviewed copies agree on it
+  reviewedClass(group: DuplicateGroup): string | null {
+    const classes = new Set(group.images
+      .filter(image => image.is_verified || image.training_ready)
+      .map(image => this.getClassification(image)));
+    return classes.size === 1 ? Array.from(classes)[0] : null;
+  }
+
+  //reviewed copies with different classes need a person to decide which label is right
+  mergeBlockedReason(group: DuplicateGroup): string | null {
+    const reviewed = group.images.filter(image => image.is_verified || image.training_ready);
+    if (reviewed.length && this.reviewedClass(group) === null) {
+      return 'Reviewed copies have different classes. Correct them on the image pages before merging.';
+    }
+    return null;
+  }
+
+  //not actually the same photo; hide it for this scan
+  dismiss(group: DuplicateGroup): void {
+    this.groups = this.groups.filter(g => g !== group);
+  }
+
+  // ── display helpers ────────────────────────────────────────────────────────
+
+  getImageUrl(image: MangoImage): string {
+    return this.mangoDiseaseService.getImageUrl(image);
+  }
+
+  getClassification(image: MangoImage): string {
+    return image.disease_classification || image.predicted_class || 'Unknown';
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private async loadImages(): Promise<MangoImage[]> {
+    const images: MangoImage[] = [];
+    let page = 1;
+    let hasNext = true;
+
+    while (hasNext && images.length < this.MAX_SCAN_IMAGES && !this.cancelRequested) {
+      const response = await firstValueFrom(this.mangoDiseaseService.getClassifiedImages({
+        status: this.status === 'all' ? '' : this.status,
+        disease_type: this.diseaseType === 'all' ? '' : this.diseaseType,
+        ordering: '-uploaded_at',
+        page,
+        page_size: this.PAGE_SIZE,
+      }));
+      images.push(...response.images);
+      this.loaded = images.length;
+      hasNext = response.pagination ? response.pagination.has_next : response.images.length === this.PAGE_SIZE;
+      page++;
+    }
+
+    this.truncated = hasNext && images.length >= this.MAX_SCAN_IMAGES;
+    return images.slice(0, this.MAX_SCAN_IMAGES);
+  }
+
+  //a few fetches in flight at once; cached hashes return immediately
+  private async hashAll(images: MangoImage[]): Promise<HashedImage[]> {
+    const results: HashedImage[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < images.length && !this.cancelRequested) {
+        const image = images[next++];
+        try {
+          const hash = await this.hashService.hashImage(image.id, this.getImageUrl(image));
+          this.hashes.set(image.id, hash);
+          results.push({ id: image.id, hash });
+          this.hashed++;
+        } catch {
+          this.failed++;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.HASH_CONCURRENCY }, worker));
+    return results;
+  }
+
+  private buildGroups(images: MangoImage[], hashedImages: HashedImage[]): void {
+    const byId = new Map(images.map(image => [image.id, image]));
+    this.groups = this.hashService.groupNearDuplicates(hashedImages, this.maxDistance)
+      .map(ids => {
+        const members = ids.map(id => byId.get(id)!).filter(Boolean);
+        return { images: members, keepId: this.pickKeeper(members).id, busy: false };
+      })
+      .sort((a, b) => b.images.length - a.images.length);
+  }
+
+  //keep the copy reviewers already invested in, otherwise the first upload
+  private pickKeeper(images: MangoImage[]): MangoImage {
+    const score = (image: MangoImage) => (image.training_ready ? 2 : 0) + (image.is_verified ? 1 : 0);
+    return [...images].sort((a, b) =>
+      score(b) - score(a) || new Date(a.uploaded_at).getTime() - new Date(b.uploaded_at).getTime()
+    )[0];
+  }
+
+  private async mergeIntoKeeper(group: DuplicateGroup): Promise<void> {
+    const keeper = this.keeper(group);
+    const others = this.others(group);
+    if (!keeper || !others.length || group.busy) return;
+
+    const blocked = this.mergeBlockedReason(group);
+    if (blocked) {
+      this.error = blocked;
+      return;
+    }
+
+    group.busy = true;
+    try {
+      const mergedNote = `Merged duplicates: ${others.map(image => '#' + image.id).join(', ')}`;
+      const updates: Partial<MangoImage> = {
+        is_verified: group.images.some(image => image.is_verified),
+        training_ready: group.images.some(image => image.training_ready),
+        notes: keeper.notes ? `${keeper.notes}\n${mergedNote}` : mergedNote,
+      };
+      const before: Partial<MangoImage> = { id: keeper.id, is_verified: keeper.is_verified, training_ready: keeper.training_ready, notes: keeper.notes };
+      const reviewedClass = this.reviewedClass(group);
+      if (reviewedClass && reviewedClass !== this.getClassification(keeper)) {
+        updates.disease_classification = reviewedClass;
+        before.disease_classification = keeper.disease_classification;
+      }
+      const res = await firstValueFrom(this.mangoDiseaseService.bulkUpdateImages([keeper.id], updates, before));
+      if (res && res.success === false) {
+        this.error = res.message || 'Failed to merge duplicates.';
+        return;
+      }
+      Object.assign(keeper, updates);
+
+      const deleted = await this.deleteImages(others);
+      this.afterDelete(group, deleted, `Merged ${deleted.length} duplicate${deleted.length === 1 ? '' : 's'} into #${keeper.id}.`);
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to merge duplicates.';
+    } finally {
+      group.busy = false;
+    }
+  }
+
+  private async deleteOthers(group: DuplicateGroup): Promise<void> {
+    const others = this.others(group);
+    if (!others.length || group.busy) return;
+
+    group.busy = true;
+    try {
+      const deleted = await this.deleteImages(others);
+      this.afterDelete(group, deleted, `Deleted ${deleted.length} duplicate${deleted.length === 1 ? '' : 's'} of #${group.keepId}.`);
+    } finally {
+      group.busy = false;
+    }
+  }
+
+  //one call per image; returns the ids that went, so a partial failure leaves the rest listed
+  private async deleteImages(images: MangoImage[]): Promise<number[]> {
+    const deleted: number[] = [];
+    for (const image of images) {
+      try {
+        const res = await firstValueFrom(this.mangoDiseaseService.deleteImage(image.id, {
+          original_filename: image.original_filename,
+          disease_classification: image.disease_classification || image.predicted_class,
+          is_verified: image.is_verified
+        }));
+        if (res?.success === false) {
+          console.error(`Error deleting image ${image.id}:`, res.message);
+          continue;
+        }
+        deleted.push(image.id);
+      } catch (err) {
+        console.error(`Error deleting image ${image.id}:`, err);
+      }
+    }
+    return deleted;
+  }
+
+  private afterDelete(group: DuplicateGroup, deleted: number[], message: string): void {
+    this.hashService.forget(deleted);
+    deleted.forEach(id => this.hashes.delete(id));
+    group.images = group.images.filter(image => !deleted.includes(image.id));
+
+    const remaining = this.others(group).length;
+    if (group.images.length < 2) {
+      this.resolve(group);
+    }
+    if (deleted.length) {
+      this.showSuccess(message);
+    }
+    if (remaining) {
+      this.error = `${remaining} duplicate${remaining === 1 ? '' : 's'} could not be deleted.`;
+    }
+  }
+
+  private resolve(group: DuplicateGroup): void {
+    this.groups = this.groups.filter(g => g !== group);
+  }
+
+  private showSuccess(msg: string): void {
+    this.successMessage = msg;
+    this.error = null;
+    clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = null, 3500);
+  }
+}
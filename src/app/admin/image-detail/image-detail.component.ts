@@ -4,6 +4,7 @@ import { Location } from '@angular/common';
 import { firstValueFrom } from 'rxjs';
 import { MangoDiseaseService, MangoImage, ApiResponse, UserConfirmation } from '../../services/mango-disease.service';
 import { TrainingDataService } from '../../services/training-data.service';
+import { PermissionService, Permission } from '../../services/permission.service';
 import { environment } from '../../../environments/environment';
 
 export interface PredictionData {
@@ -93,6 +94,7 @@ export class ImageDetailComponent implements OnInit {
     private location: Location,
     private mangoDiseaseService: MangoDiseaseService,
     private trainingDataService: TrainingDataService,
+    private permissionService: PermissionService,
   ) {}
 
   ngOnInit() {
@@ -150,13 +152,17 @@ export class ImageDetailComponent implements OnInit {
     this.successTimer = setTimeout(() => this.successMessage = null, 3500);
   }
 
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
   async updateVerificationStatus(isVerified: boolean) {
-    if (!this.imageData) return;
+    if (!this.imageData || !this.can('verify_images')) return;
 
     try {
       this.updating = true;
       this.error = null;
-      const response = await firstValueFrom(this.mangoDiseaseService.updateImageVerification(this.imageData.id, isVerified));
+      const response = await firstValueFrom(this.mangoDiseaseService.updateImageVerification(this.imageData.id, isVerified, undefined, { is_verified: this.imageData.is_verified }));
 
       if (response && response.success) {
         this.imageData.is_verified = isVerified;
@@ -173,7 +179,7 @@ export class ImageDetailComponent implements OnInit {
   }
 
   startEditClassification(): void {
-    if (!this.imageData) return;
+    if (!this.imageData || !this.can('edit_training_data')) return;
     this.editClassificationValue = this.imageData.disease_classification || this.imageData.predicted_class || '';
     this.editingClassification = true;
   }
@@ -190,6 +196,8 @@ export class ImageDetailComponent implements OnInit {
       const res = await firstValueFrom(
         this.trainingDataService.patchTrainingDetail(this.imageData.id, {
           disease_classification: this.editClassificationValue,
+        }, {
+          disease_classification: this.imageData.disease_classification,
         })
       );
       if (res.success) {
@@ -207,13 +215,17 @@ export class ImageDetailComponent implements OnInit {
   }
 
   async deleteImage() {
-    if (!this.imageData) return;
+    if (!this.imageData || !this.can('delete_images')) return;
 
     if (confirm('Are you sure you want to delete this image? This action cannot be undone.')) {
       try {
         this.updating = true;
         this.error = null;
-        const response = await firstValueFrom(this.mangoDiseaseService.deleteImage(this.imageData.id));
+        const response = await firstValueFrom(this.mangoDiseaseService.deleteImage(this.imageData.id, {
+          original_filename: this.imageData.original_filename,
+          disease_classification: this.imageData.disease_classification || this.imageData.predicted_class,
+          is_verified: this.imageData.is_verified
+        }));
 
         if (response && response.success) {
           this.location.back();
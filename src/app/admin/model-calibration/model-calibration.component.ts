@@ -0,0 +1,274 @@
+import { Component, ElementRef, Inject, OnDestroy, OnInit, PLATFORM_ID, ViewChild } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { Chart } from 'chart.js/auto';
+import {
+  ModelQualityService,
+  ModelType,
+  GroundTruthSource,
+  CalibrationScore,
+  CalibrationBucket,
+  CalibrationFilters,
+  Reliability,
+  ThresholdSummary,
+} from '../../services/model-quality.service';
+
+interface TargetThreshold {
+  maxErrorRate: number;
+  summary: ThresholdSummary | null;
+}
+
+@Component({
+  selector: 'app-model-calibration',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule],
+  templateUrl: './model-calibration.component.html',
+})
+export class ModelCalibrationComponent implements OnInit, OnDestroy {
+  @ViewChild('reliabilityCanvas') reliabilityCanvas?: ElementRef<HTMLCanvasElement>;
+  @ViewChild('histogramCanvas') histogramCanvas?: ElementRef<HTMLCanvasElement>;
+
+  modelType: ModelType = 'leaf';
+  source: GroundTruthSource = 'all';
+  score: CalibrationScore = 'confidence';
+  dateFrom = '';
+  dateTo = '';
+
+  buckets: CalibrationBucket[] = [];
+  reliability: Reliability | null = null;
+  loading = false;
+  error: string | null = null;
+
+  //what-if slider, in percent
+  threshold = 90;
+  summary: ThresholdSummary | null = null;
+  targets: TargetThreshold[] = [];
+
+  readonly HISTOGRAM_BINS = 20;
+  readonly TARGET_ERROR_RATES = [0.01, 0.02, 0.05];
+
+  readonly sourceOptions: { value: GroundTruthSource; label: string }[] = [
+    { value: 'all',   label: 'Users + admin corrections' },
+    { value: 'user',  label: 'User confirmations only' },
+    { value: 'admin', label: 'Admin corrections only' },
+  ];
+
+  private reliabilityChart?: Chart;
+  private histogramChart?: Chart;
+
+  constructor(
+    private modelQualityService: ModelQualityService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {}
+
+  ngOnInit(): void {
+    this.loadCalibration();
+  }
+
+  ngOnDestroy(): void {
+    this.reliabilityChart?.destroy();
+    this.histogramChart?.destroy();
+  }
+
+  async loadCalibration(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const response = await firstValueFrom(this.modelQualityService.getCalibration(this.buildFilters()));
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      this.buckets = response.data.buckets || [];
+      this.reliability = this.modelQualityService.buildReliability(this.buckets);
+      this.targets = this.TARGET_ERROR_RATES.map(maxErrorRate => ({
+        maxErrorRate,
+        summary: this.modelQualityService.findThreshold(this.buckets, maxErrorRate),
+      }));
+      this.onThresholdChange();
+      //canvases are always in the DOM, wait a tick so they have their size
+      setTimeout(() => this.renderCharts(), 0);
+    } catch {
+      this.error = 'Failed to load calibration data.';
+      this.buckets = [];
+      this.reliability = null;
+      this.summary = null;
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  setModelType(modelType: ModelType): void {
+    if (this.modelType === modelType) return;
+    this.modelType = modelType;
+    this.loadCalibration();
+  }
+
+  clearFilters(): void {
+    this.source = 'all';
+    this.score = 'confidence';
+    this.dateFrom = '';
+    this.dateTo = '';
+    this.loadCalibration();
+  }
+
+  onThresholdChange(): void {
+    this.threshold = Number(this.threshold);
+    this.summary = this.modelQualityService.summarizeThreshold(this.buckets, this.threshold);
+    this.updateHistogramThreshold();
+  }
+
+  useThreshold(summary: ThresholdSummary): void {
+    this.threshold = summary.threshold;
+    this.onThresholdChange();
+  }
+
+  get labelledCount(): number {
+    return this.buckets.reduce((sum, b) => sum + b.correct + b.incorrect, 0);
+  }
+
+  get scoreLabel(): string {
+    return this.score === 'margin' ? 'Top-1 margin' : 'Confidence';
+  }
+
+  share(part: number, total: number): number {
+    return total > 0 ? part / total : 0;
+  }
+
+  // ── charts ─────────────────────────────────────────────────────────────────
+
+  private renderCharts(): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+    this.renderReliability();
+    this.renderHistogram();
+  }
+
+  //bars are observed accuracy per bin, the dashed line is where a perfectly calibrated model would sit
+  private renderReliability(): void {
+    if (!this.reliabilityCanvas || !this.reliability) return;
+
+    const bins = this.reliability.bins;
+    const labels = bins.map(bin => `${bin.lower}–${bin.upper}%`);
+    const accuracy = bins.map(bin => bin.count > 0 ? Math.round(bin.accuracy * 1000) / 10 : null);
+    const ideal = bins.map(bin => (bin.lower + bin.upper) / 2);
+
+    this.reliabilityChart?.destroy();
+    this.reliabilityChart = new Chart(this.reliabilityCanvas.nativeElement, {
+      type: 'bar',
+      data: {
+        labels,
+        datasets: [
+          {
+            type: 'bar',
+            label: 'Observed accuracy',
+            data: accuracy,
+            backgroundColor: 'rgba(59, 130, 246, 0.75)',
+            borderRadius: 3,
+            order: 2,
+          },
+          {
+            type: 'line',
+            label: 'Perfect calibration',
+            data: ideal,
+            borderColor: 'rgba(107, 114, 128, 0.9)',
+            borderDash: [6, 4],
+            borderWidth: 2,
+            pointRadius: 0,
+            fill: false,
+            order: 1,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: { duration: 350 },
+        plugins: {
+          legend: { position: 'bottom', labels: { boxWidth: 12, font: { size: 11 } } },
+          tooltip: {
+            callbacks: {
+              afterBody: items => {
+                const bin = bins[items[0]?.dataIndex ?? 0];
+                return bin ? [`Labelled images: ${bin.count}`] : [];
+              },
+            },
+          },
+        },
+        scales: {
+          x: { grid: { display: false }, ticks: { color: '#9ca3af', font: { size: 10 } } },
+          y: {
+            min: 0,
+            max: 100,
+            grid: { color: '#f3f4f6' },
+            ticks: { color: '#9ca3af', font: { size: 10 }, callback: value => `${value}%` },
+          },
+        },
+      },
+    });
+  }
+
+  //stacked correct / incorrect counts, bins below the cutoff are faded
+  private renderHistogram(): void {
+    if (!this.histogramCanvas) return;
+
+    const width = 100 / this.HISTOGRAM_BINS;
+    const correct = new Array(this.HISTOGRAM_BINS).fill(0);
+    const incorrect = new Array(this.HISTOGRAM_BINS).fill(0);
+    this.buckets.forEach(bucket => {
+      const i = Math.min(this.HISTOGRAM_BINS - 1, Math.floor(bucket.bucket / width));
+      correct[i] += bucket.correct;
+      incorrect[i] += bucket.incorrect;
+    });
+    const labels = correct.map((_, i) => `${i * width}%`);
+
+    this.histogramChart?.destroy();
+    this.histogramChart = new Chart(this.histogramCanvas.nativeElement, {
+      type: 'bar',
+      data: {
+        labels,
+        datasets: [
+          { label: 'Correct',   data: correct,   backgroundColor: this.histogramColors('34, 197, 94'), stack: 'score', borderRadius: 2 },
+          { label: 'Incorrect', data: incorrect, backgroundColor: this.histogramColors('239, 68, 68'), stack: 'score', borderRadius: 2 },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: { duration: 200 },
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: { position: 'bottom', labels: { boxWidth: 12, font: { size: 11 } } },
+        },
+        scales: {
+          x: { stacked: true, grid: { display: false }, ticks: { color: '#9ca3af', font: { size: 10 } } },
+          y: { stacked: true, beginAtZero: true, grid: { color: '#f3f4f6' }, ticks: { color: '#9ca3af', font: { size: 10 }, precision: 0 } },
+        },
+      },
+    });
+  }
+
+  private updateHistogramThreshold(): void {
+    if (!this.histogramChart) return;
+    this.histogramChart.data.datasets[0].backgroundColor = this.histogramColors('34, 197, 94');
+    this.histogramChart.data.datasets[1].backgroundColor = this.histogramColors('239, 68, 68');
+    this.histogramChart.update('none');
+  }
+
+  private histogramColors(rgb: string): string[] {
+    const width = 100 / this.HISTOGRAM_BINS;
+    return Array.from({ length: this.HISTOGRAM_BINS }, (_, i) =>
+      (i + 1) * width > this.threshold ? `rgba(${rgb}, 0.85)` : `rgba(${rgb}, 0.3)`
+    );
+  }
+
+  private buildFilters(): CalibrationFilters {
+    return {
+      model_type: this.modelType,
+      source:     this.source,
+      score:      this.score,
+      date_from:  this.dateFrom,
+      date_to:    this.dateTo,
+    };
+  }
+}
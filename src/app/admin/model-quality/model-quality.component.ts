@@ -0,0 +1,204 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router, RouterModule } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { MangoDiseaseService, MangoImage } from '../../services/mango-disease.service';
+import {
+  ModelQualityService,
+  ModelType,
+  GroundTruthSource,
+  ConfusionMatrix,
+  ConfusionMatrixFilters,
+} from '../../services/model-quality.service';
+
+interface SelectedCell {
+  actual: string;
+  predicted: string;
+  count: number;
+}
+
+@Component({
+  selector: 'app-model-quality',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule],
+  templateUrl: './model-quality.component.html',
+})
+export class ModelQualityComponent implements OnInit {
+  modelType: ModelType = 'leaf';
+  source: GroundTruthSource = 'all';
+  dateFrom = '';
+  dateTo = '';
+  normalize = false;
+
+  matrix: ConfusionMatrix | null = null;
+  loading = false;
+  error: string | null = null;
+
+  //drill-down
+  selectedCell: SelectedCell | null = null;
+  cellImages: MangoImage[] = [];
+  cellLoading = false;
+  cellPage = 1;
+  cellHasNext = false;
+  readonly CELL_PAGE_SIZE = 24;
+
+  readonly sourceOptions: { value: GroundTruthSource; label: string }[] = [
+    { value: 'all',   label: 'Users + admin corrections' },
+    { value: 'user',  label: 'User confirmations only' },
+    { value: 'admin', label: 'Admin corrections only' },
+  ];
+
+  constructor(
+    private modelQualityService: ModelQualityService,
+    private mangoDiseaseService: MangoDiseaseService,
+    private router: Router,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadMatrix();
+  }
+
+  async loadMatrix(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    this.closeDrillDown();
+    try {
+      const response = await firstValueFrom(this.modelQualityService.getConfusionMatrix(this.buildFilters()));
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      this.matrix = this.modelQualityService.buildMatrix(response.data);
+    } catch {
+      this.error = 'Failed to load the confusion matrix.';
+      this.matrix = null;
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  setModelType(modelType: ModelType): void {
+    if (this.modelType === modelType) return;
+    this.modelType = modelType;
+    this.loadMatrix();
+  }
+
+  clearFilters(): void {
+    this.source = 'all';
+    this.dateFrom = '';
+    this.dateTo = '';
+    this.loadMatrix();
+  }
+
+  // ── drill-down ─────────────────────────────────────────────────────────────
+
+  openCell(actualIndex: number, predictedIndex: number): void {
+    if (!this.matrix) return;
+    const count = this.matrix.counts[actualIndex][predictedIndex];
+    if (count === 0) return;
+
+    this.selectedCell = {
+      actual: this.matrix.labels[actualIndex],
+      predicted: this.matrix.labels[predictedIndex],
+      count,
+    };
+    this.cellImages = [];
+    this.cellPage = 1;
+    this.loadCellImages();
+  }
+
+  async loadCellImages(): Promise<void> {
+    if (!this.selectedCell) return;
+    const cell = this.selectedCell;
+
+    this.cellLoading = true;
+    try {
+      const response = await firstValueFrom(this.modelQualityService.getCellImages({
+        ...this.buildFilters(),
+        actual: cell.actual,
+        predicted: cell.predicted,
+        page: this.cellPage,
+        page_size: this.CELL_PAGE_SIZE,
+      }));
+      //ignore responses for a cell the user has already closed or switched away from
+      if (this.selectedCell !== cell) return;
+      this.cellImages = [...this.cellImages, ...(response.data?.images || [])];
+      this.cellHasNext = response.data?.pagination?.has_next ?? false;
+    } catch {
+      this.error = `Failed to load images for ${cell.actual} → ${cell.predicted}.`;
+    } finally {
+      this.cellLoading = false;
+    }
+  }
+
+  loadMoreCellImages(): void {
+    this.cellPage++;
+    this.loadCellImages();
+  }
+
+  closeDrillDown(): void {
+    this.selectedCell = null;
+    this.cellImages = [];
+  }
+
+  isSelected(actualIndex: number, predictedIndex: number): boolean {
+    return !!this.selectedCell
+      && this.matrix?.labels[actualIndex] === this.selectedCell.actual
+      && this.matrix?.labels[predictedIndex] === this.selectedCell.predicted;
+  }
+
+  viewImage(image: MangoImage): void {
+    this.router.navigate(['/admin/image-detail', image.id]);
+  }
+
+  // ── display helpers ────────────────────────────────────────────────────────
+
+  rowTotal(actualIndex: number): number {
+    return this.matrix ? this.matrix.counts[actualIndex].reduce((sum, n) => sum + n, 0) : 0;
+  }
+
+  cellLabel(actualIndex: number, predictedIndex: number): string {
+    const count = this.matrix?.counts[actualIndex][predictedIndex] ?? 0;
+    if (!this.normalize) return String(count);
+    const rowTotal = this.rowTotal(actualIndex);
+    return rowTotal > 0 ? `${Math.round((count / rowTotal) * 100)}%` : '—';
+  }
+
+  //diagonal cells shade green, mistakes shade red, both by share of the row
+  cellClass(actualIndex: number, predictedIndex: number): string {
+    const count = this.matrix?.counts[actualIndex][predictedIndex] ?? 0;
+    if (count === 0) return 'bg-white text-gray-300';
+
+    const share = count / Math.max(1, this.rowTotal(actualIndex));
+    const step = share >= 0.75 ? 3 : share >= 0.4 ? 2 : share >= 0.15 ? 1 : 0;
+
+    if (actualIndex === predictedIndex) {
+      return ['bg-green-50 text-green-800', 'bg-green-100 text-green-800', 'bg-green-300 text-green-900', 'bg-green-500 text-white'][step];
+    }
+    return ['bg-red-50 text-red-700', 'bg-red-100 text-red-800', 'bg-red-300 text-red-900', 'bg-red-500 text-white'][step];
+  }
+
+  getMetricClass(value: number): string {
+    if (value >= 0.9) return 'text-green-600';
+    if (value >= 0.7) return 'text-yellow-600';
+    return 'text-red-600';
+  }
+
+  getImageUrl(image: MangoImage): string {
+    return this.mangoDiseaseService.getImageUrl(image);
+  }
+
+  getConfidenceScore(image: MangoImage): number {
+    if (!image.confidence_score) return 0;
+    return image.confidence_score <= 1 ? image.confidence_score * 100 : image.confidence_score;
+  }
+
+  private buildFilters(): ConfusionMatrixFilters {
+    return {
+      model_type: this.modelType,
+      source:     this.source,
+      date_from:  this.dateFrom,
+      date_to:    this.dateTo,
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { MangoDiseaseService, ModelSettings, RetrainConfig, UpdateModelPayload } from '../../services/mango-disease.service';
+import { ModelRegistryService, ModelVersion } from '../../services/model-registry.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+//a model file, with its training record when the registry has one
+export interface RegistryRow {
+  filename: string;
+  version: ModelVersion | null;
+  isActive: boolean;
+}
+
+interface ComparisonLine {
+  label: string;
+  a: string;
+  b: string;
+  differs: boolean;
+}
+
+const CONFIG_LABELS: { [key in keyof RetrainConfig]: string } = {
+  epochs:                  'Epochs',
+  learning_rate:           'Learning rate',
+  batch_size:              'Batch size',
+  val_split:               'Validation split',
+  unfreeze_top_n_layers:   'Unfrozen top layers',
+  early_stopping_patience: 'Early stopping patience',
+  lr_reduce_factor:        'LR reduce factor',
+  lr_reduce_patience:      'LR reduce patience',
+  min_images_per_class:    'Min images per class',
+  modality_dropout:        'Modality dropout',
+};
+
+@Component({
+  selector: 'app-model-registry',
+  standalone: true,
+  imports: [CommonModule, RouterModule, ConfirmDialogComponent],
+  templateUrl: './model-registry.component.html',
+})
+export class ModelRegistryComponent implements OnInit {
+  modelType: 'leaf' | 'fruit' = 'leaf';
+  settings: ModelSettings | null = null;
+  versions: ModelVersion[] = [];
+  rows: RegistryRow[] = [];
+
+  loading = false;
+  error: string | null = null;
+  successMessage: string | null = null;
+  private successTimer: any;
+
+  //filenames picked for side-by-side comparison, at most two
+  compareSelection: string[] = [];
+
+  promoteTarget: RegistryRow | null = null;
+  promoting = false;
+
+  constructor(
+    private mangoService: MangoDiseaseService,
+    private modelRegistry: ModelRegistryService,
+    private permissionService: PermissionService,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadRegistry();
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  async loadRegistry(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const [settingsResponse, versionsResponse] = await Promise.all([
+        firstValueFrom(this.mangoService.getModelSettings()),
+        firstValueFrom(this.modelRegistry.getVersions()),
+      ]);
+      this.settings = settingsResponse.success ? settingsResponse.data : null;
+      this.versions = versionsResponse.success ? versionsResponse.data || [] : [];
+      this.buildRows();
+    } catch {
+      this.error = 'Failed to load the model registry.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  setModelType(modelType: 'leaf' | 'fruit'): void {
+    if (this.modelType === modelType) return;
+    this.modelType = modelType;
+    this.compareSelection = [];
+    this.buildRows();
+  }
+
+  // ── comparison ─────────────────────────────────────────────────────────────
+
+  isSelectedForCompare(row: RegistryRow): boolean {
+    return this.compareSelection.includes(row.filename);
+  }
+
+  //picking a third model drops the oldest pick
+  toggleCompare(row: RegistryRow): void {
+    if (this.isSelectedForCompare(row)) {
+      this.compareSelection = this.compareSelection.filter(f => f !== row.filename);
+    } else {
+      this.compareSelection = [...this.compareSelection, row.filename].slice(-2);
+    }
+  }
+
+  get compared(): [RegistryRow, RegistryRow] | null {
+    if (this.compareSelection.length !== 2) return null;
+    const a = this.rows.find(r => r.filename === this.compareSelection[0]);
+    const b = this.rows.find(r => r.filename === this.compareSelection[1]);
+    return a && b ? [a, b] : null;
+  }
+
+  get summaryLines(): ComparisonLine[] {
+    const pair = this.compared;
+    if (!pair) return [];
+    const [a, b] = pair.map(row => row.version);
+    return [
+      this.line('Model kind', this.formatKind(a?.model_kind), this.formatKind(b?.model_kind)),
+      this.line('Trained', this.formatDate(a?.trained_at), this.formatDate(b?.trained_at)),
+      this.line('Trained by', a?.trained_by || '—', b?.trained_by || '—'),
+      this.line('Accuracy', this.formatAccuracy(a?.accuracy), this.formatAccuracy(b?.accuracy)),
+      this.line('Training images', this.formatCount(this.totalImages(a)), this.formatCount(this.totalImages(b))),
+      this.line('Classes', this.formatCount(this.classCount(a)), this.formatCount(this.classCount(b))),
+    ];
+  }
+
+  get configLines(): ComparisonLine[] {
+    const pair = this.compared;
+    if (!pair) return [];
+    const [a, b] = pair.map(row => row.version?.config ?? null);
+    return (Object.keys(CONFIG_LABELS) as (keyof RetrainConfig)[]).map(key =>
+      this.line(CONFIG_LABELS[key], a ? String(a[key] ?? '—') : '—', b ? String(b[key] ?? '—') : '—')
+    );
+  }
+
+  get classLines(): ComparisonLine[] {
+    const pair = this.compared;
+    if (!pair) return [];
+    const [a, b] = pair.map(row => row.version?.class_counts ?? null);
+    const classes = Array.from(new Set([...Object.keys(a || {}), ...Object.keys(b || {})])).sort();
+    return classes.map(cls =>
+      this.line(cls, this.formatCount(a?.[cls]?.total), this.formatCount(b?.[cls]?.total))
+    );
+  }
+
+  //positive when b is more accurate than a
+  get accuracyDelta(): number | null {
+    const pair = this.compared;
+    const a = pair?.[0].version?.accuracy;
+    const b = pair?.[1].version?.accuracy;
+    return a != null && b != null ? b - a : null;
+  }
+
+  // ── promotion ──────────────────────────────────────────────────────────────
+
+  askPromote(row: RegistryRow): void {
+    if (!this.can('manage_models') || row.isActive) return;
+    this.promoteTarget = row;
+  }
+
+  async confirmPromote(): Promise<void> {
+    const row = this.promoteTarget;
+    this.promoteTarget = null;
+    if (!row || !this.settings) return;
+
+    const payload: UpdateModelPayload = this.modelType === 'leaf'
+      ? { leaf_model: row.filename }
+      : { fruit_model: row.filename };
+    const before: UpdateModelPayload = {
+      leaf_model:  this.settings.active_models.leaf,
+      fruit_model: this.settings.active_models.fruit,
+    };
+
+    this.promoting = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.mangoService.updateModelSettings(payload, before));
+      if (!res.success) {
+        throw new Error(res.message);
+      }
+      this.showSuccess(`"${row.filename}" is now the active ${this.modelType} model.`);
+      await this.loadRegistry();
+    } catch (err: any) {
+      this.error = err?.error?.message || err?.message || 'Failed to promote model.';
+    } finally {
+      this.promoting = false;
+    }
+  }
+
+  get promoteMessage(): string {
+    if (!this.promoteTarget) return '';
+    const current = this.settings?.active_models[this.modelType] || 'none';
+    return `Make "${this.promoteTarget.filename}" the active ${this.modelType} model? It replaces "${current}" for all new predictions.`;
+  }
+
+  // ── display helpers ────────────────────────────────────────────────────────
+
+  totalImages(version: ModelVersion | null | undefined): number | null {
+    if (!version?.class_counts) return null;
+    return Object.values(version.class_counts).reduce((sum, c) => sum + c.total, 0);
+  }
+
+  classCount(version: ModelVersion | null | undefined): number | null {
+    return version?.class_counts ? Object.keys(version.class_counts).length : null;
+  }
+
+  formatKind(kind: string | null | undefined): string {
+    if (kind === 'mobilenetv2') return 'MobileNetV2';
+    if (kind === 'hybrid_cnn') return 'Hybrid CNN';
+    return '—';
+  }
+
+  formatAccuracy(accuracy: number | null | undefined): string {
+    return accuracy != null ? `${accuracy}%` : '—';
+  }
+
+  formatCount(value: number | null | undefined): string {
+    return value != null ? String(value) : '—';
+  }
+
+  formatDate(dateString: string | null | undefined): string {
+    return dateString ? new Date(dateString).toLocaleString() : '—';
+  }
+
+  private line(label: string, a: string, b: string): ComparisonLine {
+    return { label, a, b, differs: a !== b };
+  }
+
+  //registered versions first (newest on top), then files the registry has no record of
+  private buildRows(): void {
+    const active = this.settings?.active_models[this.modelType] ?? '';
+    const files = this.settings?.available_models[this.modelType] ?? [];
+    const versions = this.versions
+      .filter(v => v.model_type === this.modelType)
+      .sort((a, b) => (b.trained_at || b.registered_at).localeCompare(a.trained_at || a.registered_at));
+
+    const registered = new Set(versions.map(v => v.filename));
+    this.rows = [
+      ...versions.map(version => ({ filename: version.filename, version, isActive: version.filename === active })),
+      ...files
+        .filter(filename => !registered.has(filename))
+        .map(filename => ({ filename, version: null, isActive: filename === active })),
+    ];
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = null, 3500);
+  }
+}
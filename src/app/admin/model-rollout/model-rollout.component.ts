@@ -0,0 +1,301 @@
+import { Component, ElementRef, Inject, OnDestroy, OnInit, PLATFORM_ID, ViewChild } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Subscription, firstValueFrom, interval } from 'rxjs';
+import { Chart } from 'chart.js/auto';
+import { MangoDiseaseService } from '../../services/mango-disease.service';
+import {
+  ConfirmationRate,
+  ModelRollout,
+  ModelRolloutService,
+  RolloutComparison,
+  RolloutModelStats,
+} from '../../services/model-rollout.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+type PendingAction = 'promote' | 'rollback';
+
+@Component({
+  selector: 'app-model-rollout',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule, ConfirmDialogComponent],
+  templateUrl: './model-rollout.component.html',
+})
+export class ModelRolloutComponent implements OnInit, OnDestroy {
+  @ViewChild('confidenceCanvas') confidenceCanvas?: ElementRef<HTMLCanvasElement>;
+
+  modelType: 'leaf' | 'fruit' = 'leaf';
+
+  rollouts: ModelRollout[] = [];
+  availableModels: { leaf: string[]; fruit: string[] } = { leaf: [], fruit: [] };
+  stats: RolloutModelStats[] = [];
+
+  loading = false;
+  metricsLoading = false;
+  saving = false;
+  error: string | null = null;
+  successMessage = '';
+
+  //start form
+  candidate = '';
+  startPercent = 10;
+
+  //slider for a running rollout, saved on release
+  percent = 0;
+
+  pendingAction: PendingAction | null = null;
+
+  readonly REFRESH_MS = 30000;
+  readonly roles: ('active' | 'candidate')[] = ['active', 'candidate'];
+
+  private chart?: Chart;
+  private refreshSub: Subscription | null = null;
+  private successTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private rolloutService: ModelRolloutService,
+    private mangoService: MangoDiseaseService,
+    private permissionService: PermissionService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {}
+
+  ngOnInit(): void {
+    this.load();
+    //metrics are live; candidate traffic keeps arriving while the page is open
+    this.refreshSub = interval(this.REFRESH_MS).subscribe(() => this.loadMetrics());
+  }
+
+  ngOnDestroy(): void {
+    this.refreshSub?.unsubscribe();
+    this.chart?.destroy();
+    if (this.successTimer) clearTimeout(this.successTimer);
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── data ───────────────────────────────────────────────────────────────────
+
+  async load(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const [rollouts, settings] = await Promise.all([
+        firstValueFrom(this.rolloutService.getRollouts()),
+        firstValueFrom(this.mangoService.getModelSettings()),
+      ]);
+      this.rollouts = rollouts.success ? rollouts.data || [] : [];
+      if (settings.success && settings.data) {
+        this.availableModels = { leaf: settings.data.available_models.leaf, fruit: settings.data.available_models.fruit };
+      }
+      this.syncForm();
+    } catch {
+      this.error = 'Failed to load rollout settings.';
+    } finally {
+      this.loading = false;
+    }
+    await this.loadMetrics();
+  }
+
+  async loadMetrics(): Promise<void> {
+    if (!this.rollout?.candidate_model) {
+      this.stats = [];
+      return;
+    }
+
+    this.metricsLoading = this.stats.length === 0;
+    try {
+      const res = await firstValueFrom(this.rolloutService.getMetrics(this.modelType, this.rollout.started_at ?? undefined));
+      this.stats = res.success ? res.data.models || [] : [];
+    } catch {
+      this.error = 'Failed to load rollout metrics.';
+    } finally {
+      this.metricsLoading = false;
+      //the canvas only exists while a candidate is set, so draw after the view has caught up
+      setTimeout(() => this.renderChart());
+    }
+  }
+
+  setModelType(type: 'leaf' | 'fruit'): void {
+    if (this.modelType === type) return;
+    this.modelType = type;
+    this.stats = [];
+    this.syncForm();
+    this.loadMetrics();
+  }
+
+  get rollout(): ModelRollout | null {
+    return this.rollouts.find(r => r.model_type === this.modelType) ?? null;
+  }
+
+  get candidateOptions(): string[] {
+    const active = this.rollout?.active_model;
+    return this.availableModels[this.modelType].filter(name => name !== active);
+  }
+
+  // ── actions ────────────────────────────────────────────────────────────────
+
+  async startRollout(): Promise<void> {
+    if (!this.candidate || !this.can('manage_models')) return;
+    await this.save(
+      () => this.rolloutService.startRollout(this.modelType, this.candidate, this.startPercent, this.rollout ?? undefined),
+      `Sending ${this.startPercent}% of ${this.modelType} traffic to ${this.candidate}.`,
+    );
+  }
+
+  async savePercent(): Promise<void> {
+    if (!this.rollout?.candidate_model || this.percent === this.rollout.candidate_percent) return;
+    await this.save(
+      () => this.rolloutService.setPercent(this.modelType, this.percent, this.rollout ?? undefined),
+      `Candidate now gets ${this.percent}% of traffic.`,
+    );
+  }
+
+  async confirmPending(): Promise<void> {
+    const action = this.pendingAction;
+    this.pendingAction = null;
+    const before = this.rollout ?? undefined;
+    if (!action || !before?.candidate_model) return;
+
+    if (action === 'promote') {
+      await this.save(
+        () => this.rolloutService.promote(this.modelType, before),
+        `${before.candidate_model} is now the active ${this.modelType} model.`,
+      );
+    } else {
+      await this.save(
+        () => this.rolloutService.rollback(this.modelType, before),
+        `Rolled back. ${before.active_model} serves all ${this.modelType} traffic again.`,
+      );
+    }
+  }
+
+  get pendingMessage(): string {
+    const rollout = this.rollout;
+    if (!rollout?.candidate_model) return '';
+    return this.pendingAction === 'promote'
+      ? `Make "${rollout.candidate_model}" the active ${this.modelType} model for all traffic? "${rollout.active_model}" stays available to switch back to.`
+      : `Stop sending traffic to "${rollout.candidate_model}"? "${rollout.active_model}" will serve all ${this.modelType} predictions.`;
+  }
+
+  // ── metrics helpers ────────────────────────────────────────────────────────
+
+  statsFor(role: 'active' | 'candidate'): RolloutModelStats | null {
+    return this.stats.find(s => s.role === role) ?? null;
+  }
+
+  rateFor(stats: RolloutModelStats | null): ConfirmationRate | null {
+    return stats ? this.rolloutService.confirmationRate(stats) : null;
+  }
+
+  get comparison(): RolloutComparison | null {
+    const active = this.statsFor('active');
+    const candidate = this.statsFor('candidate');
+    return active && candidate ? this.rolloutService.compare(active, candidate) : null;
+  }
+
+  //observed traffic split, to check the configured percentage is being honoured
+  get observedCandidateShare(): number | null {
+    const total = this.stats.reduce((sum, s) => sum + s.predictions, 0);
+    const candidate = this.statsFor('candidate');
+    return total > 0 && candidate ? candidate.predictions / total : null;
+  }
+
+  formatPercent(value: number | null | undefined, digits = 1): string {
+    return value == null ? '—' : `${(value * 100).toFixed(digits)}%`;
+  }
+
+  formatDate(dateString: string | null | undefined): string {
+    return dateString ? new Date(dateString).toLocaleString() : '—';
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private async save(request: () => ReturnType<ModelRolloutService['setPercent']>, message: string): Promise<void> {
+    this.saving = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(request());
+      if (!res.success) {
+        this.error = res.message || 'The rollout could not be updated.';
+        return;
+      }
+      this.rollouts = [...this.rollouts.filter(r => r.model_type !== this.modelType), res.data];
+      this.showSuccess(message);
+      this.syncForm();
+      this.stats = [];
+      await this.loadMetrics();
+    } catch (err: any) {
+      this.error = err?.error?.message || 'The rollout could not be updated.';
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  private syncForm(): void {
+    this.percent = this.rollout?.candidate_percent ?? 0;
+    this.candidate = '';
+  }
+
+  //share of each model's predictions per confidence bucket, so different traffic volumes compare
+  private renderChart(): void {
+    if (!isPlatformBrowser(this.platformId) || !this.confidenceCanvas) return;
+
+    const labels = Array.from({ length: 10 }, (_, i) => `${i * 10}-${i * 10 + 9}%`);
+    const series = (['active', 'candidate'] as const).map(role => {
+      const stats = this.statsFor(role);
+      const total = stats?.predictions || 0;
+      return (stats?.confidence_buckets || []).map(count => total ? Math.round(count / total * 1000) / 10 : 0);
+    });
+
+    //the canvas is recreated when the candidate section re-renders
+    if (this.chart && this.chart.canvas !== this.confidenceCanvas.nativeElement) {
+      this.chart.destroy();
+      this.chart = undefined;
+    }
+
+    if (this.chart) {
+      this.chart.data.datasets[0].data = series[0];
+      this.chart.data.datasets[1].data = series[1];
+      this.chart.update('none');
+      return;
+    }
+
+    this.chart = new Chart(this.confidenceCanvas.nativeElement, {
+      type: 'bar',
+      data: {
+        labels,
+        datasets: [
+          { label: 'Active', data: series[0], backgroundColor: 'rgba(107, 114, 128, 0.6)' },
+          { label: 'Candidate', data: series[1], backgroundColor: 'rgba(22, 163, 74, 0.7)' },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        plugins: {
+          legend: { position: 'bottom', labels: { boxWidth: 10, font: { size: 11 } } },
+          tooltip: { callbacks: { label: ctx => `${ctx.dataset.label}: ${ctx.parsed.y}% of predictions` } },
+        },
+        scales: {
+          x: { grid: { display: false }, ticks: { color: '#6b7280', font: { size: 10 } } },
+          y: {
+            beginAtZero: true,
+            grid: { color: '#f3f4f6' },
+            ticks: { color: '#6b7280', font: { size: 10 }, callback: value => `${value}%` },
+          },
+        },
+      },
+    });
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    if (this.successTimer) clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = '', 3500);
+  }
+}
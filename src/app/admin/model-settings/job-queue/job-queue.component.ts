@@ -0,0 +1,201 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom, interval } from 'rxjs';
+import {
+  JobQueueService, JobKind, JobStatus, JobStep, QueuedJob, JOB_KIND_LABELS, JOB_KIND_ORDER,
+} from '../../../services/job-queue.service';
+import { RetrainConfig } from '../../../services/mango-disease.service';
+import { PermissionService, Permission } from '../../../services/permission.service';
+
+/** Queue order for the leaf and fruit lanes, plus a form for chaining preprocess → extract → retrain. */
+@Component({
+  selector: 'app-job-queue',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './job-queue.component.html',
+})
+export class JobQueueComponent implements OnInit, OnDestroy {
+  //what the retrain form above currently has selected; used for the retrain step
+  @Input() modelType: 'leaf' | 'fruit' = 'leaf';
+  @Input() modelKind: 'mobilenetv2' | 'hybrid_cnn' = 'mobilenetv2';
+  @Input() config: RetrainConfig | null = null;
+
+  //fires when a queued job is picked up, so the page can follow its progress
+  @Output() jobStarted = new EventEmitter<QueuedJob>();
+
+  readonly lanes: ('leaf' | 'fruit')[] = ['leaf', 'fruit'];
+  readonly kindOrder = JOB_KIND_ORDER;
+
+  jobs: QueuedJob[] = [];
+  loading = false;
+  error: string | null = null;
+  successMessage = '';
+
+  //pipeline form
+  selectedSteps: { [kind in JobKind]: boolean } = {
+    preprocessing:      true,
+    symptom_extraction: false,
+    retrain:            true,
+  };
+  queueing = false;
+  cancellingId: number | null = null;
+
+  private pollSub: Subscription | null = null;
+  private successTimer: ReturnType<typeof setTimeout> | null = null;
+  private knownStatus = new Map<number, JobStatus>();
+  private loadedOnce = false;
+
+  constructor(
+    private jobQueue: JobQueueService,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadQueue();
+    this.pollSub = interval(4000).subscribe(() => this.loadQueue(true));
+  }
+
+  ngOnDestroy(): void {
+    this.pollSub?.unsubscribe();
+    if (this.successTimer) clearTimeout(this.successTimer);
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── queue ──────────────────────────────────────────────────────────────────
+
+  async loadQueue(silent = false): Promise<void> {
+    if (!silent) this.loading = true;
+    try {
+      const res = await firstValueFrom(this.jobQueue.getQueue());
+      if (res.success) {
+        this.detectStarted(res.data || []);
+        this.jobs = res.data || [];
+        this.error = null;
+      }
+    } catch {
+      if (!silent) this.error = 'Failed to load the job queue.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  laneJobs(lane: 'leaf' | 'fruit'): QueuedJob[] {
+    return this.jobs
+      .filter(job => job.model_type === lane)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  //anything still waiting or running; finished jobs drop out of the count
+  pendingCount(lane: 'leaf' | 'fruit'): number {
+    return this.laneJobs(lane).filter(job => job.status === 'queued' || job.status === 'running').length;
+  }
+
+  // ── pipeline form ──────────────────────────────────────────────────────────
+
+  get hybridOnlyStepSelected(): boolean {
+    return this.selectedSteps.symptom_extraction && this.modelKind !== 'hybrid_cnn';
+  }
+
+  get chosenSteps(): JobKind[] {
+    return this.kindOrder.filter(kind => this.selectedSteps[kind]);
+  }
+
+  async queuePipeline(): Promise<void> {
+    const kinds = this.chosenSteps;
+    if (kinds.length === 0 || this.queueing) return;
+
+    const steps: JobStep[] = kinds.map(kind => kind === 'retrain'
+      ? { kind, model_kind: this.modelKind, config: this.config ?? undefined }
+      : { kind });
+
+    this.queueing = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.jobQueue.enqueueChain(this.modelType, steps));
+      if (res.success) {
+        this.showSuccess(`Queued ${kinds.length} step${kinds.length === 1 ? '' : 's'} for the ${this.modelType} model.`);
+        await this.loadQueue(true);
+      } else {
+        this.error = res.message || 'Failed to queue the pipeline.';
+      }
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to queue the pipeline.';
+    } finally {
+      this.queueing = false;
+    }
+  }
+
+  async cancel(job: QueuedJob): Promise<void> {
+    if (this.cancellingId !== null) return;
+    this.cancellingId = job.id;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.jobQueue.cancelJob(job.id));
+      if (res.success) {
+        this.showSuccess(job.status === 'running'
+          ? `Cancelling ${this.kindLabel(job.kind).toLowerCase()}…`
+          : 'Removed from the queue.');
+        await this.loadQueue(true);
+      } else {
+        this.error = res.message || 'Failed to cancel the job.';
+      }
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to cancel the job.';
+    } finally {
+      this.cancellingId = null;
+    }
+  }
+
+  // ── template helpers ───────────────────────────────────────────────────────
+
+  kindLabel(kind: JobKind): string {
+    return JOB_KIND_LABELS[kind] || kind;
+  }
+
+  isCancellable(job: QueuedJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+  }
+
+  //jobs of a multi-step chain get a shared marker so the grouping is visible
+  isChained(job: QueuedJob): boolean {
+    return this.jobs.filter(j => j.chain_id === job.chain_id).length > 1;
+  }
+
+  getStatusClass(status: JobStatus): string {
+    switch (status) {
+      case 'running':   return 'bg-blue-100 text-blue-800';
+      case 'done':      return 'bg-green-100 text-green-800';
+      case 'error':     return 'bg-red-100 text-red-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-700';
+      default:          return 'bg-yellow-100 text-yellow-800';
+    }
+  }
+
+  formatDate(dateString: string | null): string {
+    return dateString ? new Date(dateString).toLocaleString() : '—';
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  //compare against the previous poll; the first load only records what is already running
+  private detectStarted(jobs: QueuedJob[]): void {
+    for (const job of jobs) {
+      const before = this.knownStatus.get(job.id);
+      if (this.loadedOnce && job.status === 'running' && before !== 'running') {
+        this.jobStarted.emit(job);
+      }
+      this.knownStatus.set(job.id, job.status);
+    }
+    this.loadedOnce = true;
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    if (this.successTimer) clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = '', 3500);
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild } from '@angular/core';
 import { Router } from '@angular/router';
 import { Subscription, interval } from 'rxjs';
 import { switchMap, takeWhile } from 'rxjs/operators';
@@ -11,7 +11,11 @@ import {
   SymptomExtractionStatus,
   PreprocessingStatus,
   RetrainConfig,
+  DEFAULT_RETRAIN_CONFIGS,
 } from '../../services/mango-disease.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { JobQueueService, JobKind, JobStep, QueuedJob } from '../../services/job-queue.service';
+import { JobQueueComponent } from './job-queue/job-queue.component';
 
 @Component({
   selector: 'app-model-settings',
@@ -40,33 +44,11 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
   retrainStatus: RetrainStatus | null = null;
   retrainErrorMsg   = '';
   retrainSuccessMsg = '';
+  jobNoticeMsg      = '';  // e.g. a job went into the queue instead of starting
   showAdvancedConfig = false;
 
-  readonly defaultMobileNetConfig: RetrainConfig = {
-    epochs:                  10,
-    learning_rate:           0.0001,
-    batch_size:              16,
-    val_split:               0.2,
-    unfreeze_top_n_layers:   20,
-    early_stopping_patience: 3,
-    lr_reduce_factor:        0.5,
-    lr_reduce_patience:      2,
-    min_images_per_class:    5,
-    modality_dropout:        0.5,
-  };
-
-  readonly defaultHybridConfig: RetrainConfig = {
-    epochs:                  50,
-    learning_rate:           0.001,
-    batch_size:              32,
-    val_split:               0.2,
-    unfreeze_top_n_layers:   0,
-    early_stopping_patience: 10,
-    lr_reduce_factor:        0.5,
-    lr_reduce_patience:      4,
-    min_images_per_class:    5,
-    modality_dropout:        0.5,
-  };
+  readonly defaultMobileNetConfig: RetrainConfig = DEFAULT_RETRAIN_CONFIGS.mobilenetv2;
+  readonly defaultHybridConfig: RetrainConfig     = DEFAULT_RETRAIN_CONFIGS.hybrid_cnn;
 
   get defaultRetrainConfig(): RetrainConfig {
     return this.retrainModelKind === 'hybrid_cnn'
@@ -94,13 +76,20 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
   extractionStatus: SymptomExtractionStatus | null = null;
   extractionErrorMsg = '';
 
+  // ── job queue state ────────────────────────────────────────────────────────
+  cancellingJob: JobKind | null = null;
+
+  @ViewChild(JobQueueComponent) jobQueuePanel?: JobQueueComponent;
+
   private pollSub: Subscription | null = null;
   private extractionPollSub: Subscription | null = null;
   private preprocessingPollSub: Subscription | null = null;
 
   constructor(
     private router: Router,
-    private mangoService: MangoDiseaseService
+    private mangoService: MangoDiseaseService,
+    private permissionService: PermissionService,
+    private jobQueue: JobQueueService
   ) {}
 
   ngOnInit(): void {
@@ -137,7 +126,13 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     });
   }
 
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
   saveSettings(): void {
+    if (!this.can('manage_models')) return;
+
     this.isSaving   = true;
     this.successMsg = '';
     this.errorMsg   = '';
@@ -147,7 +142,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
       fruit_model: this.selectedFruitModel,
     };
 
-    this.mangoService.updateModelSettings(payload).subscribe({
+    this.mangoService.updateModelSettings(payload, this.getActiveModelsPayload()).subscribe({
       next: (res) => {
         if (res.success) {
           this.successMsg = 'Model settings saved successfully!';
@@ -164,6 +159,15 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     });
   }
 
+  //current active models, recorded as the "before" value in the audit log
+  private getActiveModelsPayload(): UpdateModelPayload | undefined {
+    if (!this.settings) return undefined;
+    return {
+      leaf_model:  this.settings.active_models.leaf,
+      fruit_model: this.settings.active_models.fruit,
+    };
+  }
+
   hasChanges(): boolean {
     if (!this.settings) return false;
     return (
@@ -178,6 +182,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     this.datasetInfo          = null;
     this.retrainErrorMsg      = '';
     this.retrainSuccessMsg    = '';
+    this.jobNoticeMsg         = '';
     this.preprocessingReady   = false;
     this.preprocessingCount   = null;
     this.preprocessingClasses = null;
@@ -218,7 +223,18 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     this.retrainConfig = { ...this.defaultRetrainConfig };
   }
 
+  //from a saved preset or a sweep run; opened so the admin can see what changed
+  applyRetrainConfig(config: RetrainConfig): void {
+    this.retrainConfig      = { ...this.defaultRetrainConfig, ...config };
+    this.showAdvancedConfig = true;
+  }
+
   startRetraining(): void {
+    if (!this.can('retrain_models')) {
+      this.retrainErrorMsg = 'You do not have permission to retrain models.';
+      return;
+    }
+
     this.retrainErrorMsg   = '';
     this.retrainSuccessMsg = '';
     this.isRetraining      = true;
@@ -234,14 +250,21 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
         }
       },
       error: (err) => {
+        this.isRetraining = false;
+        if (err?.status === 409) {
+          this.queueBehindRunningJob(
+            { kind: 'retrain', model_kind: this.retrainModelKind, config: { ...this.retrainConfig } },
+            (msg) => this.retrainErrorMsg = msg,
+          );
+          return;
+        }
         this.retrainErrorMsg = err?.error?.message || 'Could not start retraining.';
-        this.isRetraining    = false;
       },
     });
   }
 
   activateRetrainedModel(): void {
-    if (!this.retrainStatus?.output_filename) return;
+    if (!this.retrainStatus?.output_filename || !this.can('manage_models')) return;
 
     const filename = this.retrainStatus.output_filename;
     const payload: UpdateModelPayload =
@@ -249,7 +272,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
         ? { leaf_model: filename }
         : { fruit_model: filename };
 
-    this.mangoService.updateModelSettings(payload).subscribe({
+    this.mangoService.updateModelSettings(payload, this.getActiveModelsPayload()).subscribe({
       next: (res) => {
         if (res.success) {
           this.retrainSuccessMsg = `Model "${filename}" is now active.`;
@@ -317,6 +340,21 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     }
   }
 
+  //the poll picks up the 'cancelled' phase once the worker has stopped
+  cancelRetraining(): void {
+    this.cancellingJob = 'retrain';
+    this.mangoService.cancelRetrain(this.laneOf(this.retrainStatus)).subscribe({
+      next: (res) => {
+        if (!res.success) this.retrainErrorMsg = res.message || 'Failed to cancel retraining.';
+        this.cancellingJob = null;
+      },
+      error: (err) => {
+        this.retrainErrorMsg = err?.error?.message || 'Failed to cancel retraining.';
+        this.cancellingJob = null;
+      },
+    });
+  }
+
   // ── symptom extraction methods (Hybrid CNN) ────────────────────────────────
 
   private resetExtractionState(): void {
@@ -361,8 +399,12 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
         }
       },
       error: (err) => {
-        this.extractionErrorMsg  = err?.error?.message || 'Could not start feature extraction.';
         this.isExtractingFeatures = false;
+        if (err?.status === 409) {
+          this.queueBehindRunningJob({ kind: 'symptom_extraction' }, (msg) => this.extractionErrorMsg = msg);
+          return;
+        }
+        this.extractionErrorMsg  = err?.error?.message || 'Could not start feature extraction.';
       },
     });
   }
@@ -405,6 +447,20 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     }
   }
 
+  cancelFeatureExtraction(): void {
+    this.cancellingJob = 'symptom_extraction';
+    this.mangoService.cancelSymptomExtraction(this.laneOf(this.extractionStatus)).subscribe({
+      next: (res) => {
+        if (!res.success) this.extractionErrorMsg = res.message || 'Failed to cancel extraction.';
+        this.cancellingJob = null;
+      },
+      error: (err) => {
+        this.extractionErrorMsg = err?.error?.message || 'Failed to cancel extraction.';
+        this.cancellingJob = null;
+      },
+    });
+  }
+
   // ── preprocessing methods ──────────────────────────────────────────────────
 
   checkPreprocessingReady(): void {
@@ -436,8 +492,12 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
         }
       },
       error: (err) => {
+        this.isPreprocessing = false;
+        if (err?.status === 409) {
+          this.queueBehindRunningJob({ kind: 'preprocessing' }, (msg) => this.preprocessingErrorMsg = msg);
+          return;
+        }
         this.preprocessingErrorMsg = err?.error?.message || 'Could not start preprocessing.';
-        this.isPreprocessing       = false;
       },
     });
   }
@@ -479,6 +539,65 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
     }
   }
 
+  cancelPreprocessing(): void {
+    this.cancellingJob = 'preprocessing';
+    this.mangoService.cancelPreprocessing(this.laneOf(this.preprocessingStatus)).subscribe({
+      next: (res) => {
+        if (!res.success) this.preprocessingErrorMsg = res.message || 'Failed to cancel preprocessing.';
+        this.cancellingJob = null;
+      },
+      error: (err) => {
+        this.preprocessingErrorMsg = err?.error?.message || 'Failed to cancel preprocessing.';
+        this.cancellingJob = null;
+      },
+    });
+  }
+
+  // ── job queue methods ──────────────────────────────────────────────────────
+
+  //a queued job was picked up by the worker; follow it like one started from this page
+  onQueuedJobStarted(job: QueuedJob): void {
+    this.jobNoticeMsg = '';
+    switch (job.kind) {
+      case 'preprocessing':
+        this.isPreprocessing       = true;
+        this.preprocessingErrorMsg = '';
+        this.startPreprocessingPolling();
+        break;
+      case 'symptom_extraction':
+        this.isExtractingFeatures = true;
+        this.extractionErrorMsg   = '';
+        this.startExtractionPolling();
+        break;
+      case 'retrain':
+        this.isRetraining      = true;
+        this.retrainErrorMsg   = '';
+        this.retrainSuccessMsg = '';
+        this.startPolling();
+        break;
+    }
+  }
+
+  //the server answers 409 while another job holds the lane, so put this one behind it
+  private queueBehindRunningJob(step: JobStep, setError: (msg: string) => void): void {
+    this.jobQueue.enqueueChain(this.retrainModelType, [step]).subscribe({
+      next: (res) => {
+        if (res.success) {
+          this.jobNoticeMsg = 'Another job is running, so this one was queued behind it.';
+          this.jobQueuePanel?.loadQueue(true);
+        } else {
+          setError(res.message || 'Could not queue the job.');
+        }
+      },
+      error: (err) => setError(err?.error?.message || 'Could not queue the job.'),
+    });
+  }
+
+  //the job being followed may belong to the other lane than the one selected on the page
+  private laneOf(status: { model_type: string | null } | null): 'leaf' | 'fruit' {
+    return status?.model_type === 'leaf' || status?.model_type === 'fruit' ? status.model_type : this.retrainModelType;
+  }
+
   get preprocessingProgressWidth(): string {
     return `${this.preprocessingStatus?.progress ?? 0}%`;
   }
@@ -490,6 +609,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
       processing:  'Preprocessing images…',
       done:        'Done',
       error:       'Error',
+      cancelled:   'Cancelled',
     };
     return map[this.preprocessingStatus?.phase ?? ''] ?? '';
   }
@@ -527,6 +647,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
       saving:      'Saving model…',
       done:        'Done',
       error:       'Error',
+      cancelled:   'Cancelled',
     };
     return map[this.retrainStatus?.phase ?? ''] ?? '';
   }
@@ -543,6 +664,7 @@ export class ModelSettingsComponent implements OnInit, OnDestroy {
       saving:     'Saving CSV…',
       done:       'Done',
       error:      'Error',
+      cancelled:  'Cancelled',
     };
     return map[this.extractionStatus?.phase ?? ''] ?? '';
   }
@@ -0,0 +1,205 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import { RetrainConfig } from '../../../services/mango-disease.service';
+import { ModelKind } from '../../../services/model-registry.service';
+import { RetrainPreset, RetrainPresetService } from '../../../services/retrain-preset.service';
+import { ConfirmDialogComponent } from '../../../components/confirm-dialog/confirm-dialog.component';
+
+/** Load, save and overwrite named training configs for the selected architecture. */
+@Component({
+  selector: 'app-retrain-presets',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ConfirmDialogComponent],
+  template: `
+    <div class="rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-2">
+      <div class="flex flex-wrap items-center gap-2">
+        <span class="text-xs font-medium text-gray-600">Preset</span>
+        <select
+          [(ngModel)]="selectedId"
+          [disabled]="loading"
+          class="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option [ngValue]="null">{{ presets.length ? 'Choose a preset…' : 'No saved presets' }}</option>
+          <option *ngFor="let preset of presets" [ngValue]="preset.id">{{ preset.name }}</option>
+        </select>
+        <button
+          type="button"
+          (click)="applySelected()"
+          [disabled]="!selected"
+          class="px-3 py-1 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Load
+        </button>
+        <button
+          type="button"
+          (click)="overwriteSelected()"
+          [disabled]="!selected || saving"
+          class="px-3 py-1 rounded-lg text-xs font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          title="Replace the preset's values with the current config"
+        >
+          Update
+        </button>
+        <button
+          type="button"
+          (click)="deleteTarget = selected"
+          [disabled]="!selected || saving"
+          class="px-3 py-1 rounded-lg text-xs font-medium bg-white border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50 transition-colors"
+        >
+          Delete
+        </button>
+
+        <span class="mx-1 h-5 border-l border-gray-300"></span>
+
+        <input
+          type="text"
+          [(ngModel)]="newName"
+          placeholder="New preset name"
+          maxlength="80"
+          class="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          (click)="saveAsNew()"
+          [disabled]="!newName.trim() || saving"
+          class="px-3 py-1 rounded-lg text-xs font-medium bg-gray-700 text-white hover:bg-gray-800 disabled:opacity-50 transition-colors"
+        >
+          Save current
+        </button>
+      </div>
+      <p *ngIf="message" class="text-xs text-green-700">{{ message }}</p>
+      <p *ngIf="error" class="text-xs text-red-700">{{ error }}</p>
+    </div>
+
+    <app-confirm-dialog
+      [open]="!!deleteTarget"
+      title="Delete Preset"
+      [message]="deleteMessage"
+      (confirmClick)="confirmDelete()"
+      (cancelClick)="deleteTarget = null">
+    </app-confirm-dialog>
+  `,
+})
+export class RetrainPresetsComponent implements OnChanges {
+  @Input() modelKind: ModelKind = 'mobilenetv2';
+  @Input() config: RetrainConfig | null = null;
+
+  @Output() apply = new EventEmitter<RetrainConfig>();
+
+  presets: RetrainPreset[] = [];
+  selectedId: number | null = null;
+  newName = '';
+  deleteTarget: RetrainPreset | null = null;
+
+  loading = false;
+  saving = false;
+  error: string | null = null;
+  message = '';
+
+  private messageTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private presetService: RetrainPresetService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['modelKind']) {
+      this.selectedId = null;
+      this.loadPresets();
+    }
+  }
+
+  get selected(): RetrainPreset | null {
+    return this.presets.find(p => p.id === this.selectedId) ?? null;
+  }
+
+  get deleteMessage(): string {
+    return `Delete the preset "${this.deleteTarget?.name ?? ''}"? Models already trained with it are not affected.`;
+  }
+
+  async loadPresets(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.presetService.getPresets(this.modelKind));
+      this.presets = res.success ? res.data || [] : [];
+    } catch {
+      this.error = 'Failed to load presets.';
+      this.presets = [];
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  applySelected(): void {
+    const preset = this.selected;
+    if (!preset) return;
+    this.apply.emit({ ...preset.config });
+    this.showMessage(`Loaded "${preset.name}".`);
+  }
+
+  async saveAsNew(): Promise<void> {
+    const name = this.newName.trim();
+    if (!name || !this.config) return;
+    if (this.presets.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      this.error = `A preset called "${name}" already exists. Select it and use Update instead.`;
+      return;
+    }
+
+    await this.save(async () => {
+      const res = await firstValueFrom(this.presetService.createPreset({
+        name, model_kind: this.modelKind, config: { ...this.config! },
+      }));
+      if (!res.success) throw new Error(res.message);
+      this.presets = [...this.presets, res.data].sort((a, b) => a.name.localeCompare(b.name));
+      this.selectedId = res.data.id;
+      this.newName = '';
+      this.showMessage(`Saved "${name}".`);
+    });
+  }
+
+  async overwriteSelected(): Promise<void> {
+    const preset = this.selected;
+    if (!preset || !this.config) return;
+
+    await this.save(async () => {
+      const res = await firstValueFrom(this.presetService.updatePreset(preset.id, {
+        name: preset.name, model_kind: this.modelKind, config: { ...this.config! },
+      }));
+      if (!res.success) throw new Error(res.message);
+      this.presets = this.presets.map(p => p.id === preset.id ? res.data : p);
+      this.showMessage(`Updated "${preset.name}".`);
+    });
+  }
+
+  async confirmDelete(): Promise<void> {
+    const preset = this.deleteTarget;
+    this.deleteTarget = null;
+    if (!preset) return;
+
+    await this.save(async () => {
+      const res = await firstValueFrom(this.presetService.deletePreset(preset.id));
+      if (!res.success) throw new Error(res.message);
+      this.presets = this.presets.filter(p => p.id !== preset.id);
+      if (this.selectedId === preset.id) this.selectedId = null;
+      this.showMessage(`Deleted "${preset.name}".`);
+    });
+  }
+
+  private async save(action: () => Promise<void>): Promise<void> {
+    this.saving = true;
+    this.error = null;
+    try {
+      await action();
+    } catch (err: any) {
+      this.error = err?.error?.message || err?.message || 'Failed to save the preset.';
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  private showMessage(message: string): void {
+    this.message = message;
+    if (this.messageTimer) clearTimeout(this.messageTimer);
+    this.messageTimer = setTimeout(() => this.message = '', 3500);
+  }
+}
@@ -0,0 +1,214 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom, interval } from 'rxjs';
+import { RetrainConfig } from '../../../services/mango-disease.service';
+import { ModelKind } from '../../../services/model-registry.service';
+import { QueuedJob } from '../../../services/job-queue.service';
+import {
+  MAX_SWEEP_RUNS, RetrainSweepService, SweepAxis, SweepParam, SweepRun,
+} from '../../../services/retrain-sweep.service';
+import { PermissionService, Permission } from '../../../services/permission.service';
+
+interface SweepRow {
+  param: SweepParam;
+  label: string;
+  enabled: boolean;
+  text: string;
+}
+
+//the sweep whose results this page is showing, kept across reloads
+const ACTIVE_SWEEP_KEY = 'active_retrain_sweep';
+
+//min_images_per_class is left out on purpose: it changes the dataset, not the model
+const SWEEP_PARAMS: { param: SweepParam; label: string; example: string; hybridOnly?: boolean }[] = [
+  { param: 'learning_rate',           label: 'Learning rate',         example: '0.001, 0.0005, 0.0001' },
+  { param: 'batch_size',              label: 'Batch size',            example: '8:32:8' },
+  { param: 'epochs',                  label: 'Epochs',                example: '10, 20' },
+  { param: 'unfreeze_top_n_layers',   label: 'Unfrozen top layers',   example: '10, 20, 40' },
+  { param: 'early_stopping_patience', label: 'Early-stop patience',   example: '3, 5' },
+  { param: 'lr_reduce_factor',        label: 'LR reduce factor',      example: '0.2, 0.5' },
+  { param: 'val_split',               label: 'Validation split',      example: '0.15, 0.2' },
+  { param: 'modality_dropout',        label: 'Modality dropout',      example: '0.3:0.7:0.2', hybridOnly: true },
+];
+
+/** Build a grid of training configs, queue them as separate runs and rank the results. */
+@Component({
+  selector: 'app-retrain-sweep',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './retrain-sweep.component.html',
+})
+export class RetrainSweepComponent implements OnInit, OnDestroy {
+  @Input() modelType: 'leaf' | 'fruit' = 'leaf';
+  @Input() modelKind: ModelKind = 'mobilenetv2';
+  @Input() baseConfig: RetrainConfig | null = null;
+
+  //hands a run's config back to the retrain form
+  @Output() useConfig = new EventEmitter<RetrainConfig>();
+
+  readonly maxRuns = MAX_SWEEP_RUNS;
+
+  rows: SweepRow[] = SWEEP_PARAMS.map(p => ({ param: p.param, label: p.label, enabled: false, text: '' }));
+
+  sweepId: string | null = null;
+  runs: SweepRun[] = [];
+  loading = false;
+  scheduling = false;
+  error: string | null = null;
+
+  private pollSub: Subscription | null = null;
+
+  constructor(
+    private sweepService: RetrainSweepService,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    this.sweepId = localStorage.getItem(ACTIVE_SWEEP_KEY);
+    if (this.sweepId) {
+      this.loadSweep();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.pollSub?.unsubscribe();
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── grid ───────────────────────────────────────────────────────────────────
+
+  get visibleRows(): SweepRow[] {
+    return this.rows.filter(row =>
+      !SWEEP_PARAMS.find(p => p.param === row.param)?.hybridOnly || this.modelKind === 'hybrid_cnn');
+  }
+
+  example(row: SweepRow): string {
+    return SWEEP_PARAMS.find(p => p.param === row.param)?.example ?? '';
+  }
+
+  isInvalid(row: SweepRow): boolean {
+    return row.enabled && this.sweepService.parseValues(row.text) === null;
+  }
+
+  get axes(): SweepAxis[] {
+    return this.visibleRows
+      .filter(row => row.enabled)
+      .map(row => ({ param: row.param, values: this.sweepService.parseValues(row.text) ?? [] }))
+      .filter(axis => axis.values.length > 0);
+  }
+
+  get runCount(): number {
+    const axes = this.axes;
+    return axes.length ? axes.reduce((total, axis) => total * axis.values.length, 1) : 0;
+  }
+
+  get canSchedule(): boolean {
+    return !!this.baseConfig
+      && this.runCount > 1
+      && this.runCount <= MAX_SWEEP_RUNS
+      && !this.visibleRows.some(row => this.isInvalid(row))
+      && !this.scheduling
+      && this.can('retrain_models');
+  }
+
+  async schedule(): Promise<void> {
+    if (!this.canSchedule || !this.baseConfig) return;
+
+    const configs = this.sweepService.expand(this.baseConfig, this.axes);
+    this.scheduling = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.sweepService.scheduleSweep(this.modelType, this.modelKind, configs));
+      if (res.success) {
+        this.sweepId = res.data.sweep_id;
+        localStorage.setItem(ACTIVE_SWEEP_KEY, res.data.sweep_id);
+        this.setRuns(res.data.jobs);
+      } else {
+        this.error = res.message || 'Failed to schedule the sweep.';
+      }
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to schedule the sweep.';
+    } finally {
+      this.scheduling = false;
+    }
+  }
+
+  // ── results ────────────────────────────────────────────────────────────────
+
+  async loadSweep(): Promise<void> {
+    if (!this.sweepId) return;
+    this.loading = this.runs.length === 0;
+    try {
+      const res = await firstValueFrom(this.sweepService.getSweep(this.sweepId));
+      if (res.success) {
+        this.setRuns(res.data || []);
+        this.error = null;
+      }
+    } catch (err: any) {
+      if (err?.status === 404) {
+        this.forgetSweep();
+      } else {
+        this.error = 'Failed to load sweep results.';
+      }
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  forgetSweep(): void {
+    localStorage.removeItem(ACTIVE_SWEEP_KEY);
+    this.sweepId = null;
+    this.runs = [];
+    this.stopPolling();
+  }
+
+  get finishedCount(): number {
+    return this.runs.filter(run => !this.isPending(run.job)).length;
+  }
+
+  //the params that actually differ between runs, used as table columns
+  get variedParams(): { param: SweepParam; label: string }[] {
+    return SWEEP_PARAMS
+      .filter(p => new Set(this.runs.map(run => run.config[p.param])).size > 1)
+      .map(p => ({ param: p.param, label: p.label }));
+  }
+
+  isPending(job: QueuedJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+  }
+
+  getStatusClass(job: QueuedJob): string {
+    switch (job.status) {
+      case 'running':   return 'bg-blue-100 text-blue-800';
+      case 'done':      return 'bg-green-100 text-green-800';
+      case 'error':     return 'bg-red-100 text-red-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-700';
+      default:          return 'bg-yellow-100 text-yellow-800';
+    }
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private setRuns(jobs: QueuedJob[]): void {
+    this.runs = this.sweepService.rank(jobs);
+    if (jobs.some(job => this.isPending(job))) {
+      this.startPolling();
+    } else {
+      this.stopPolling();
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollSub) return;
+    this.pollSub = interval(5000).subscribe(() => this.loadSweep());
+  }
+
+  private stopPolling(): void {
+    this.pollSub?.unsubscribe();
+    this.pollSub = null;
+  }
+}
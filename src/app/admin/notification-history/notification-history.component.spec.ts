@@ -0,0 +1,119 @@
+import { ComponentFixture, TestBed, fakeAsync, flushMicrotasks } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { of } from 'rxjs';
+import { NotificationHistoryComponent } from './notification-history.component';
+import { NotificationData, NotificationService } from '../../services/notification.service';
+
+describe('NotificationHistoryComponent', () => {
+  let fixture: ComponentFixture<NotificationHistoryComponent>;
+  let component: NotificationHistoryComponent;
+  let notificationServiceSpy: jasmine.SpyObj<NotificationService>;
+
+  const notification = (id: string, timestamp: Date): NotificationData => ({
+    id,
+    userId: '1',
+    userName: 'Juan',
+    userEmail: 'juan@example.com',
+    imageId: id,
+    imageName: `${id}.jpg`,
+    timestamp: timestamp.toISOString(),
+    diseaseClassification: 'Anthracnose',
+    diseaseType: 'leaf',
+    detectionType: 'leaf',
+    confidence: 0.9,
+    isRead: false,
+    matchedRuleIds: [],
+  });
+
+  beforeEach(() => {
+    notificationServiceSpy = jasmine.createSpyObj('NotificationService', [
+      'getHistory', 'markReadMatching', 'deleteMatching', 'markAsRead', 'markSelectedAsRead', 'deleteSelectedNotifications',
+    ]);
+    notificationServiceSpy.getHistory.and.returnValue(of({ results: [], count: 0 }));
+
+    TestBed.configureTestingModule({
+      imports: [NotificationHistoryComponent],
+      providers: [
+        { provide: NotificationService, useValue: notificationServiceSpy },
+        { provide: Router, useValue: jasmine.createSpyObj('Router', ['navigate']) },
+      ]
+    });
+
+    fixture = TestBed.createComponent(NotificationHistoryComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should group results into relative date buckets', fakeAsync(() => {
+    //Thursday; the week started on Monday the 12th. Inside fakeAsync this only moves the zone's clock
+    jasmine.clock().mockDate(new Date(2026, 9, 15, 12, 0));
+
+    const results = [
+      notification('1', new Date(2026, 9, 15, 9, 0)),
+      notification('2', new Date(2026, 9, 14, 18, 0)),
+      notification('3', new Date(2026, 9, 12, 8, 0)),
+      notification('4', new Date(2026, 9, 2, 8, 0)),
+      notification('5', new Date(2026, 8, 20, 8, 0)),
+      notification('6', new Date(2026, 8, 3, 8, 0)),
+    ];
+    notificationServiceSpy.getHistory.and.returnValue(of({ results, count: results.length }));
+
+    component.loadPage();
+    flushMicrotasks();
+
+    const september = new Date(2026, 8, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    expect(component.buckets.map(b => b.label)).toEqual([
+      'Today', 'Yesterday', 'Earlier this week', 'Earlier this month', september,
+    ]);
+    expect(component.buckets[4].items.map(n => n.id)).toEqual(['5', '6']);
+  }));
+
+  it('should act on the applied filters, not unapplied edits', async () => {
+    notificationServiceSpy.getHistory.and.returnValue(of({ results: [], count: 40 }));
+    notificationServiceSpy.deleteMatching.and.returnValue(of({ deleted: 40 }));
+    component.search = 'anthracnose';
+    component.onFilterChange();
+    await fixture.whenStable();
+
+    component.selectAllMatching();
+    component.search = 'powdery';
+    await component.confirmDelete();
+
+    expect(notificationServiceSpy.deleteMatching).toHaveBeenCalledWith(
+      jasmine.objectContaining({ search: 'anthracnose' })
+    );
+  });
+
+  it('should drop an all-matching selection when a filter is edited', () => {
+    component.selectAllMatching();
+    component.onFilterEdited();
+
+    expect(component.allMatchingSelected).toBeFalse();
+    expect(component.selectionCount).toBe(0);
+  });
+
+  it('should cap open-ended filters at the time they were applied', fakeAsync(() => {
+    jasmine.clock().mockDate(new Date(2026, 9, 15, 12, 0));
+    component.datePreset = 'week';
+    component.onFilterChange();
+
+    expect(notificationServiceSpy.getHistory).toHaveBeenCalledWith(jasmine.objectContaining({
+      date_to: new Date(2026, 9, 15, 12, 0).toISOString(),
+    }));
+    flushMicrotasks();
+  }));
+
+  it('should mark selected notifications read in one request', async () => {
+    const results = [notification('1', new Date()), notification('2', new Date()), notification('3', new Date())];
+    results[1].isRead = true;
+    notificationServiceSpy.getHistory.and.returnValue(of({ results, count: results.length }));
+    notificationServiceSpy.markSelectedAsRead.and.returnValue(of({ updated: 1 }));
+    await component.loadPage();
+
+    results.forEach(n => component.toggleSelected(n));
+    await component.markSelectedRead();
+
+    expect(notificationServiceSpy.markSelectedAsRead).toHaveBeenCalledOnceWith(['1', '3']);
+    expect(notificationServiceSpy.markAsRead).not.toHaveBeenCalled();
+    expect(results.every(n => n.isRead)).toBeTrue();
+  });
+});
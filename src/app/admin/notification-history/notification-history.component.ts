@@ -0,0 +1,342 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import {
+  NotificationData, NotificationHistoryFilters, NotificationService,
+} from '../../services/notification.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+export type DatePreset = 'any' | 'today' | 'week' | 'month' | 'custom';
+
+export interface HistoryBucket {
+  label: string;
+  items: NotificationData[];
+}
+
+/** Every notification, paged from the server, with search, filters and bulk actions over whole result sets. */
+@Component({
+  selector: 'app-notification-history',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ConfirmDialogComponent],
+  templateUrl: './notification-history.component.html',
+})
+export class NotificationHistoryComponent implements OnInit, OnDestroy {
+  results: NotificationData[] = [];
+  buckets: HistoryBucket[] = [];
+  loading = false;
+  error: string | null = null;
+  successMessage: string | null = null;
+  private successTimer: any;
+
+  //filters
+  search = '';
+  readFilter: 'all' | 'unread' | 'read' = 'all';
+  detectionType: '' | 'leaf' | 'fruit' = '';
+  confidenceMin: number | null = null;
+  confidenceMax: number | null = null;
+  datePreset: DatePreset = 'any';
+  dateFrom = '';
+  dateTo = '';
+  //what the shown results were loaded with; boxes can be edited without applying.
+  //open-ended ranges are capped at the time they were applied, so bulk actions skip anything newer than the page
+  private appliedFilters: NotificationHistoryFilters = {};
+
+  //pagination
+  currentPage = 1;
+  pageSize = 25;
+  totalCount = 0;
+
+  //selection - either ids on this page, or everything matching the filters
+  selectedIds = new Set<string>();
+  allMatchingSelected = false;
+  busy = false;
+  confirmingDelete = false;
+
+  constructor(
+    private notificationService: NotificationService,
+    private router: Router,
+  ) {}
+
+  ngOnInit(): void {
+    this.appliedFilters = this.buildFilters();
+    this.loadPage();
+  }
+
+  ngOnDestroy(): void {
+    clearTimeout(this.successTimer);
+  }
+
+  async loadPage(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const page = await firstValueFrom(this.notificationService.getHistory({
+        ...this.appliedFilters,
+        page: this.currentPage,
+        page_size: this.pageSize,
+      }));
+      this.results = page.results;
+      this.totalCount = page.count;
+    } catch {
+      this.error = 'Failed to load notification history.';
+      this.results = [];
+      this.totalCount = 0;
+    } finally {
+      this.loading = false;
+      this.buckets = this.bucketize(this.results);
+      this.clearSelection();
+    }
+  }
+
+  onFilterChange(): void {
+    if (!this.filtersValid) return;
+    this.appliedFilters = this.buildFilters();
+    this.currentPage = 1;
+    this.loadPage();
+  }
+
+  //"all matching" means the applied filters; once a box is edited that set is no longer on screen
+  onFilterEdited(): void {
+    if (this.allMatchingSelected) {
+      this.clearSelection();
+    }
+  }
+
+  clearFilters(): void {
+    this.search = '';
+    this.readFilter = 'all';
+    this.detectionType = '';
+    this.confidenceMin = null;
+    this.confidenceMax = null;
+    this.datePreset = 'any';
+    this.dateFrom = '';
+    this.dateTo = '';
+    this.onFilterChange();
+  }
+
+  //a custom range waits for its dates
+  onDatePresetChange(): void {
+    if (this.datePreset !== 'custom') {
+      this.onFilterChange();
+    }
+  }
+
+  get filtersValid(): boolean {
+    const min = this.confidenceMin ?? 0;
+    const max = this.confidenceMax ?? 100;
+    return min >= 0 && max <= 100 && min <= max;
+  }
+
+  onPageChange(page: number): void {
+    if (page < 1 || page > this.getTotalPages()) return;
+    this.currentPage = page;
+    this.loadPage();
+  }
+
+  getTotalPages(): number {
+    return Math.ceil(this.totalCount / this.pageSize);
+  }
+
+  openImage(notification: NotificationData): void {
+    if (!notification.isRead) {
+      this.notificationService.markAsRead(notification.id);
+      notification.isRead = true;
+    }
+    this.router.navigate(['/admin/image-detail', notification.imageId]);
+  }
+
+  // ── selection ──────────────────────────────────────────────────────────────
+
+  isSelected(notification: NotificationData): boolean {
+    return this.allMatchingSelected || this.selectedIds.has(notification.id);
+  }
+
+  toggleSelected(notification: NotificationData): void {
+    if (this.allMatchingSelected) {
+      //narrow back down to this page minus the one unticked
+      this.allMatchingSelected = false;
+      this.results.forEach(n => this.selectedIds.add(n.id));
+    }
+    if (this.selectedIds.has(notification.id)) {
+      this.selectedIds.delete(notification.id);
+    } else {
+      this.selectedIds.add(notification.id);
+    }
+  }
+
+  get pageFullySelected(): boolean {
+    return this.results.length > 0 && (this.allMatchingSelected || this.results.every(n => this.selectedIds.has(n.id)));
+  }
+
+  togglePage(): void {
+    if (this.pageFullySelected) {
+      this.clearSelection();
+    } else {
+      this.results.forEach(n => this.selectedIds.add(n.id));
+    }
+  }
+
+  selectAllMatching(): void {
+    this.allMatchingSelected = true;
+    this.selectedIds.clear();
+  }
+
+  clearSelection(): void {
+    this.selectedIds.clear();
+    this.allMatchingSelected = false;
+  }
+
+  get selectionCount(): number {
+    return this.allMatchingSelected ? this.totalCount : this.selectedIds.size;
+  }
+
+  // ── bulk actions ───────────────────────────────────────────────────────────
+
+  async markSelectedRead(): Promise<void> {
+    if (!this.selectionCount || this.busy) return;
+    this.busy = true;
+    try {
+      if (this.allMatchingSelected) {
+        const res = await firstValueFrom(this.notificationService.markReadMatching(this.appliedFilters));
+        this.showSuccess(`Marked ${res.updated ?? this.totalCount} notification(s) as read.`);
+        await this.loadPage();
+      } else {
+        const unread = this.results.filter(n => this.selectedIds.has(n.id) && !n.isRead);
+        if (unread.length) {
+          await firstValueFrom(this.notificationService.markSelectedAsRead(unread.map(n => n.id)));
+          unread.forEach(n => n.isRead = true);
+        }
+        this.showSuccess(`Marked ${unread.length} notification(s) as read.`);
+        this.clearSelection();
+      }
+    } catch {
+      this.error = 'Could not mark the notifications as read.';
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  async confirmDelete(): Promise<void> {
+    this.confirmingDelete = false;
+    if (!this.selectionCount || this.busy) return;
+    this.busy = true;
+    try {
+      if (this.allMatchingSelected) {
+        const res = await firstValueFrom(this.notificationService.deleteMatching(this.appliedFilters));
+        this.showSuccess(`Deleted ${res.deleted ?? this.totalCount} notification(s).`);
+      } else {
+        const ids = Array.from(this.selectedIds);
+        await this.notificationService.deleteSelectedNotifications(ids);
+        this.showSuccess(`Deleted ${ids.length} notification(s).`);
+      }
+      //the page may now be past the end
+      this.currentPage = 1;
+      await this.loadPage();
+    } catch {
+      this.error = 'Could not delete the notifications.';
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  get deleteMessage(): string {
+    return this.allMatchingSelected
+      ? `Delete all ${this.totalCount} notification(s) matching the current filters? This cannot be undone.`
+      : `Delete ${this.selectedIds.size} selected notification(s)? This cannot be undone.`;
+  }
+
+  // ── display ────────────────────────────────────────────────────────────────
+
+  formatConfidence(confidence: number): string {
+    const percentage = confidence > 1 ? confidence : confidence * 100;
+    return percentage.toFixed(1) + '%';
+  }
+
+  confidenceClass(confidence: number): string {
+    const percentage = confidence > 1 ? confidence : confidence * 100;
+    if (percentage >= 90) return 'bg-green-100 text-green-700';
+    if (percentage >= 70) return 'bg-yellow-100 text-yellow-700';
+    return 'bg-red-100 text-red-700';
+  }
+
+  formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleString();
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private buildFilters(): NotificationHistoryFilters {
+    const { from, to } = this.dateRange();
+    return {
+      search: this.search,
+      is_read: this.readFilter === 'all' ? null : this.readFilter === 'read',
+      detection_type: this.detectionType,
+      confidence_min: this.confidenceMin,
+      confidence_max: this.confidenceMax,
+      date_from: from,
+      date_to: to || new Date().toISOString(),
+    };
+  }
+
+  //presets run from the start of the period up to now; custom dates cover whole local days
+  private dateRange(): { from: string; to: string } {
+    const today = this.startOfToday();
+    switch (this.datePreset) {
+      case 'today': return { from: today.toISOString(), to: '' };
+      case 'week':  return { from: this.startOfWeek(today).toISOString(), to: '' };
+      case 'month': return { from: new Date(today.getFullYear(), today.getMonth(), 1).toISOString(), to: '' };
+      case 'custom': {
+        const from = this.dateFrom ? new Date(`${this.dateFrom}T00:00:00`).toISOString() : '';
+        const to = this.dateTo ? new Date(`${this.dateTo}T23:59:59.999`).toISOString() : '';
+        return { from, to };
+      }
+      default: return { from: '', to: '' };
+    }
+  }
+
+  //results arrive newest first, so consecutive runs share a bucket
+  private bucketize(notifications: NotificationData[]): HistoryBucket[] {
+    const today = this.startOfToday();
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    const weekStart = this.startOfWeek(today);
+    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+
+    const buckets: HistoryBucket[] = [];
+    notifications.forEach(notification => {
+      const date = new Date(notification.timestamp);
+      const label = date >= today ? 'Today'
+        : date >= yesterday ? 'Yesterday'
+        : date >= weekStart ? 'Earlier this week'
+        : date >= monthStart ? 'Earlier this month'
+        : date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+      const last = buckets[buckets.length - 1];
+      if (last?.label === label) {
+        last.items.push(notification);
+      } else {
+        buckets.push({ label, items: [notification] });
+      }
+    });
+    return buckets;
+  }
+
+  private startOfToday(): Date {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  //weeks start on Monday
+  private startOfWeek(today: Date): Date {
+    const daysSinceMonday = (today.getDay() + 6) % 7;
+    return new Date(today.getFullYear(), today.getMonth(), today.getDate() - daysSinceMonday);
+  }
+
+  private showSuccess(msg: string): void {
+    this.successMessage = msg;
+    this.error = null;
+    clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = null, 3500);
+  }
+}
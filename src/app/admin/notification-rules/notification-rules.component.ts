@@ -0,0 +1,251 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom, forkJoin } from 'rxjs';
+import { DiseaseService } from '../../services/disease.service';
+import {
+  NOTIFICATION_RULE_KINDS, NotificationRule, NotificationRuleInput, NotificationRuleKind, NotificationRuleService,
+} from '../../services/notification-rule.service';
+import { NotificationService } from '../../services/notification.service';
+import {
+  AlertPermission, NotificationAlertPrefs, NotificationAlertService,
+} from '../../services/notification-alert.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+type RuleDraft = NotificationRuleInput & { id: number | null };
+
+/** The signed-in admin's notification subscriptions. */
+@Component({
+  selector: 'app-notification-rules',
+  standalone: true,
+  imports: [CommonModule, FormsModule, ConfirmDialogComponent],
+  templateUrl: './notification-rules.component.html',
+})
+export class NotificationRulesComponent implements OnInit, OnDestroy {
+  readonly kinds = NOTIFICATION_RULE_KINDS;
+
+  rules: NotificationRule[] = [];
+  loading = false;
+  error: string | null = null;
+  successMessage: string | null = null;
+  private successTimer: any;
+
+  //for the disease pickers
+  leafDiseases: string[] = [];
+  fruitDiseases: string[] = [];
+
+  draft: RuleDraft | null = null;
+  saving = false;
+  formError: string | null = null;
+
+  pendingDelete: NotificationRule | null = null;
+
+  //alerts on this device
+  alertPrefs: NotificationAlertPrefs | null = null;
+  alertPermission: AlertPermission = 'default';
+  private prefsSub?: Subscription;
+
+  constructor(
+    private ruleService: NotificationRuleService,
+    private notificationService: NotificationService,
+    private diseaseService: DiseaseService,
+    private alertService: NotificationAlertService,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadRules();
+    this.alertPermission = this.alertService.permission;
+    this.prefsSub = this.alertService.prefs$.subscribe(prefs => this.alertPrefs = prefs);
+    forkJoin({
+      leaf:  this.diseaseService.list({ plant_part: 'leaf' }),
+      fruit: this.diseaseService.list({ plant_part: 'fruit' }),
+    }).subscribe({
+      next: ({ leaf, fruit }) => {
+        this.leafDiseases  = leaf.map(d => d.name).sort();
+        this.fruitDiseases = fruit.map(d => d.name).sort();
+      },
+      error: () => {}, //the disease field falls back to free text
+    });
+  }
+
+  ngOnDestroy(): void {
+    clearTimeout(this.successTimer);
+    this.prefsSub?.unsubscribe();
+  }
+
+  async loadRules(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.ruleService.getRules());
+      this.rules = res.data ?? [];
+    } catch {
+      this.error = 'Could not load your notification rules.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  describe(rule: NotificationRule): string {
+    return this.ruleService.describe(rule);
+  }
+
+  kindLabel(kind: NotificationRuleKind): string {
+    return this.kinds.find(k => k.kind === kind)?.label ?? kind;
+  }
+
+  //disease names for the draft's plant part; both lists when no part is picked
+  get diseaseOptions(): string[] {
+    if (this.draft?.plant_part === 'leaf') return this.leafDiseases;
+    if (this.draft?.plant_part === 'fruit') return this.fruitDiseases;
+    return Array.from(new Set([...this.leafDiseases, ...this.fruitDiseases])).sort();
+  }
+
+  // ── editing ────────────────────────────────────────────────────────────────
+
+  newRule(): void {
+    this.formError = null;
+    this.draft = {
+      id: null,
+      name: '',
+      kind: 'disease_detected',
+      enabled: true,
+      disease_classification: null,
+      plant_part: null,
+      confidence_below: 60,
+      province: null,
+      max_uploads_per_hour: 50,
+      desktop_alert: true,
+      sound_alert: false,
+    };
+  }
+
+  editRule(rule: NotificationRule): void {
+    this.formError = null;
+    const { created_at, updated_at, ...draft } = rule;
+    this.draft = { ...draft };
+  }
+
+  cancelEdit(): void {
+    this.draft = null;
+    this.formError = null;
+  }
+
+  async saveDraft(): Promise<void> {
+    const draft = this.draft;
+    if (!draft || this.saving) return;
+
+    this.formError = this.validate(draft);
+    if (this.formError) return;
+
+    this.saving = true;
+    const { id, ...input } = this.payloadFor(draft);
+    try {
+      if (id === null) {
+        await firstValueFrom(this.ruleService.createRule(input));
+      } else {
+        await firstValueFrom(this.ruleService.updateRule(id, input));
+      }
+      this.draft = null;
+      this.showSuccess(id === null ? `Rule "${input.name}" created.` : `Rule "${input.name}" saved.`);
+      await this.afterRulesChanged();
+    } catch (err: any) {
+      this.formError = err?.error?.message || 'Could not save the rule.';
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  async toggleEnabled(rule: NotificationRule): Promise<void> {
+    try {
+      await firstValueFrom(this.ruleService.updateRule(rule.id, { enabled: !rule.enabled }));
+      rule.enabled = !rule.enabled;
+      this.notificationService.refreshNotifications();
+    } catch {
+      this.error = `Could not ${rule.enabled ? 'pause' : 'enable'} "${rule.name}".`;
+    }
+  }
+
+  async confirmDelete(): Promise<void> {
+    const rule = this.pendingDelete;
+    this.pendingDelete = null;
+    if (!rule) return;
+    try {
+      await firstValueFrom(this.ruleService.deleteRule(rule.id));
+      this.showSuccess(`Rule "${rule.name}" deleted.`);
+      await this.afterRulesChanged();
+    } catch {
+      this.error = `Could not delete "${rule.name}".`;
+    }
+  }
+
+  get deleteMessage(): string {
+    return `Delete the rule "${this.pendingDelete?.name ?? ''}"? Notifications it already matched stay in your list.`;
+  }
+
+  // ── alerts on this device ──────────────────────────────────────────────────
+
+  async toggleAlerts(): Promise<void> {
+    this.alertPermission = await this.alertService.setEnabled(!this.alertPrefs?.enabled);
+  }
+
+  setUnmatchedAlert(field: 'unmatchedDesktop' | 'unmatchedSound', value: boolean): void {
+    this.alertService.updatePrefs({ [field]: value });
+  }
+
+  testSound(): void {
+    this.alertService.playTestSound();
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private validate(draft: RuleDraft): string | null {
+    if (!draft.name.trim()) return 'Give the rule a name.';
+    switch (draft.kind) {
+      case 'disease_detected':
+        return draft.disease_classification ? null : 'Pick the disease to watch for.';
+      case 'low_confidence': {
+        const threshold = Number(draft.confidence_below);
+        return threshold > 0 && threshold <= 100 ? null : 'The confidence threshold must be between 1 and 100.';
+      }
+      case 'upload_burst': {
+        const limit = Number(draft.max_uploads_per_hour);
+        return Number.isInteger(limit) && limit >= 1 ? null : 'The upload limit must be a whole number of at least 1.';
+      }
+      default:
+        return null;
+    }
+  }
+
+  //clear the fields that don't belong to the chosen kind so stale values aren't stored
+  private payloadFor(draft: RuleDraft): RuleDraft {
+    const usesDisease = draft.kind === 'disease_detected' || draft.kind === 'new_disease_in_province';
+    return {
+      id: draft.id,
+      name: draft.name.trim(),
+      kind: draft.kind,
+      enabled: draft.enabled,
+      disease_classification: usesDisease ? (draft.disease_classification || null) : null,
+      plant_part: draft.kind === 'upload_burst' ? null : draft.plant_part,
+      confidence_below: draft.kind === 'low_confidence' ? Number(draft.confidence_below) : null,
+      province: draft.kind === 'new_disease_in_province' ? (draft.province?.trim() || null) : null,
+      max_uploads_per_hour: draft.kind === 'upload_burst' ? Number(draft.max_uploads_per_hour) : null,
+      desktop_alert: draft.desktop_alert,
+      sound_alert: draft.sound_alert,
+    };
+  }
+
+  //matches on existing notifications are recomputed server-side
+  private async afterRulesChanged(): Promise<void> {
+    this.alertService.invalidateRules();
+    await this.loadRules();
+    this.notificationService.refreshNotifications();
+  }
+
+  private showSuccess(msg: string): void {
+    this.successMessage = msg;
+    this.error = null;
+    clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = null, 3500);
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  AfterViewInit, Component, ElementRef, Inject, Input, OnChanges, OnDestroy, PLATFORM_ID, ViewChild,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { Chart } from 'chart.js/auto';
+import { RetrainEpoch } from '../../services/mango-disease.service';
+
+/** Per-epoch loss and accuracy lines for a retrain job; updates in place as epochs arrive. */
+@Component({
+  selector: 'app-retrain-curves',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <p class="text-xs font-medium text-gray-600 mb-1">Loss</p>
+        <div class="relative" style="height:180px"><canvas #lossCanvas></canvas></div>
+      </div>
+      <div>
+        <p class="text-xs font-medium text-gray-600 mb-1">Accuracy</p>
+        <div class="relative" style="height:180px"><canvas #accuracyCanvas></canvas></div>
+      </div>
+    </div>
+    <p *ngIf="epochs.length === 0" class="text-xs text-gray-400 mt-2">Waiting for the first epoch to finish…</p>
+  `,
+})
+export class RetrainCurvesComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() epochs: RetrainEpoch[] = [];
+  @Input() totalEpochs: number | null = null;
+
+  @ViewChild('lossCanvas') lossCanvas?: ElementRef<HTMLCanvasElement>;
+  @ViewChild('accuracyCanvas') accuracyCanvas?: ElementRef<HTMLCanvasElement>;
+
+  private lossChart?: Chart;
+  private accuracyChart?: Chart;
+
+  constructor(@Inject(PLATFORM_ID) private platformId: object) {}
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    this.epochs = this.epochs || [];
+    this.render();
+  }
+
+  ngOnDestroy(): void {
+    this.lossChart?.destroy();
+    this.accuracyChart?.destroy();
+  }
+
+  private render(): void {
+    if (!isPlatformBrowser(this.platformId) || !this.lossCanvas || !this.accuracyCanvas) return;
+
+    //pad the x axis to the configured epoch count so the curve grows left to right
+    const epochCount = Math.max(this.epochs.length, this.totalEpochs || 0);
+    const labels = Array.from({ length: epochCount }, (_, i) => String(i + 1));
+    const pick = (key: keyof RetrainEpoch) => this.epochs.map(e => e[key] as number | null);
+    const asPercent = (values: (number | null)[]) =>
+      values.map(v => v == null ? null : v <= 1 ? Math.round(v * 1000) / 10 : v);
+
+    this.lossChart = this.draw(this.lossChart, this.lossCanvas, labels, [
+      { label: 'Train', data: pick('loss'), color: '59, 130, 246' },
+      { label: 'Validation', data: pick('val_loss'), color: '249, 115, 22' },
+    ]);
+    this.accuracyChart = this.draw(this.accuracyChart, this.accuracyCanvas, labels, [
+      { label: 'Train', data: asPercent(pick('accuracy')), color: '59, 130, 246' },
+      { label: 'Validation', data: asPercent(pick('val_accuracy')), color: '34, 197, 94' },
+    ], '%');
+  }
+
+  private draw(
+    chart: Chart | undefined,
+    canvas: ElementRef<HTMLCanvasElement>,
+    labels: string[],
+    series: { label: string; data: (number | null)[]; color: string }[],
+    unit = '',
+  ): Chart {
+    if (chart) {
+      chart.data.labels = labels;
+      series.forEach((s, i) => chart.data.datasets[i].data = s.data);
+      chart.update('none');
+      return chart;
+    }
+
+    return new Chart(canvas.nativeElement, {
+      type: 'line',
+      data: {
+        labels,
+        datasets: series.map(s => ({
+          label: s.label,
+          data: s.data,
+          borderColor: `rgba(${s.color}, 1)`,
+          backgroundColor: `rgba(${s.color}, 0.15)`,
+          borderWidth: 2,
+          pointRadius: 2,
+          tension: 0.25,
+          spanGaps: true,
+        })),
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+          legend: { position: 'bottom', labels: { boxWidth: 10, font: { size: 10 } } },
+        },
+        scales: {
+          x: {
+            title: { display: true, text: 'Epoch', color: '#9ca3af', font: { size: 10 } },
+            grid: { display: false },
+            ticks: { color: '#9ca3af', font: { size: 10 }, autoSkip: true, maxTicksLimit: 12 },
+          },
+          y: {
+            grid: { color: '#f3f4f6' },
+            ticks: { color: '#9ca3af', font: { size: 10 }, callback: value => `${value}${unit}` },
+          },
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { MangoDiseaseService, RetrainConfig, RetrainJob, RetrainPhase } from '../../services/mango-disease.service';
+import { RetrainCurvesComponent } from './retrain-curves.component';
+
+const PHASE_LABELS: { [phase in RetrainPhase]: string } = {
+  starting:   'Starting',
+  preparing:  'Preparing data',
+  training:   'Training',
+  evaluating: 'Evaluating',
+  saving:     'Saving',
+  done:       'Done',
+  error:      'Failed',
+  cancelled:  'Cancelled',
+};
+
+@Component({
+  selector: 'app-retrain-history',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule, RetrainCurvesComponent],
+  templateUrl: './retrain-history.component.html',
+})
+export class RetrainHistoryComponent implements OnInit {
+  jobs: RetrainJob[] = [];
+  loading = false;
+  error: string | null = null;
+
+  modelTypeFilter: 'leaf' | 'fruit' | '' = '';
+
+  //pagination
+  currentPage = 1;
+  pageSize = 20;
+  totalCount = 0;
+
+  //expanded job, fetched again for its epoch history
+  expandedId: number | null = null;
+  expandedJob: RetrainJob | null = null;
+  detailLoading = false;
+
+  constructor(private mangoService: MangoDiseaseService) {}
+
+  ngOnInit(): void {
+    this.loadJobs();
+  }
+
+  async loadJobs(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.mangoService.getRetrainJobs({
+        model_type: this.modelTypeFilter || undefined,
+        page: this.currentPage,
+        page_size: this.pageSize,
+      }));
+      this.jobs = res.success ? res.data.results || [] : [];
+      this.totalCount = res.success ? res.data.count || 0 : 0;
+    } catch {
+      this.error = 'Failed to load retrain history.';
+      this.jobs = [];
+      this.totalCount = 0;
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  onFilterChange(): void {
+    this.currentPage = 1;
+    this.collapse();
+    this.loadJobs();
+  }
+
+  onPageChange(page: number): void {
+    if (page < 1 || page > this.getTotalPages()) return;
+    this.currentPage = page;
+    this.collapse();
+    this.loadJobs();
+  }
+
+  getTotalPages(): number {
+    return Math.ceil(this.totalCount / this.pageSize);
+  }
+
+  async toggleExpanded(job: RetrainJob): Promise<void> {
+    if (this.expandedId === job.id) {
+      this.collapse();
+      return;
+    }
+
+    this.expandedId = job.id;
+    this.expandedJob = job;
+    this.detailLoading = true;
+    try {
+      const res = await firstValueFrom(this.mangoService.getRetrainJob(job.id));
+      if (res.success && this.expandedId === job.id) {
+        this.expandedJob = res.data;
+      }
+    } catch {
+      //the list row already has everything except the curves
+    } finally {
+      this.detailLoading = false;
+    }
+  }
+
+  configEntries(config: RetrainConfig | null): { key: string; value: number }[] {
+    return config ? Object.entries(config).map(([key, value]) => ({ key, value })) : [];
+  }
+
+  //time spent in each phase, taken from the gap to the next timeline entry
+  phaseDurations(job: RetrainJob): { label: string; phase: RetrainPhase; at: string; seconds: number | null }[] {
+    const timeline = job.phase_timeline || [];
+    return timeline.map((entry, i) => {
+      const next = timeline[i + 1]?.at ?? job.finished_at;
+      const seconds = next ? (new Date(next).getTime() - new Date(entry.at).getTime()) / 1000 : null;
+      return { label: this.getPhaseLabel(entry.phase), phase: entry.phase, at: entry.at, seconds };
+    });
+  }
+
+  getPhaseLabel(phase: RetrainPhase): string {
+    return PHASE_LABELS[phase] || phase;
+  }
+
+  getPhaseClass(phase: RetrainPhase): string {
+    switch (phase) {
+      case 'done':  return 'bg-green-100 text-green-800';
+      case 'error': return 'bg-red-100 text-red-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-700';
+      default:      return 'bg-blue-100 text-blue-800';
+    }
+  }
+
+  formatKind(kind: string): string {
+    return kind === 'hybrid_cnn' ? 'Hybrid CNN' : 'MobileNetV2';
+  }
+
+  formatDuration(seconds: number | null): string {
+    if (seconds == null) return '—';
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    if (h > 0) return `${h}h ${m}m`;
+    if (m > 0) return `${m}m ${s}s`;
+    return `${s}s`;
+  }
+
+  formatDate(dateString: string | null): string {
+    return dateString ? new Date(dateString).toLocaleString() : '—';
+  }
+
+  private collapse(): void {
+    this.expandedId = null;
+    this.expandedJob = null;
+  }
+}
@@ -0,0 +1,519 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Observable, Subscription, firstValueFrom, interval } from 'rxjs';
+import { switchMap, takeWhile } from 'rxjs/operators';
+import {
+  ApiResponse,
+  DEFAULT_RETRAIN_CONFIGS,
+  MangoDiseaseService,
+  ModelSettings,
+  PreprocessingStatus,
+  RetrainConfig,
+  RetrainDatasetInfo,
+  RetrainStatus,
+  SymptomExtractionStatus,
+} from '../../services/mango-disease.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { RetrainCurvesComponent } from '../retrain-history/retrain-curves.component';
+
+export type WizardStep = 'setup' | 'dataset' | 'preprocess' | 'symptoms' | 'retrain' | 'activate';
+export type StepState = 'pending' | 'running' | 'done' | 'skipped' | 'error' | 'cancelled';
+
+//the stages that run unattended once the dataset has been validated
+type PipelineStep = 'preprocess' | 'symptoms' | 'retrain';
+
+//the fields the wizard reads from any of the three status endpoints
+type JobStatus = { is_running: boolean; model_type: string | null; job_id?: number | null };
+
+interface WizardState {
+  modelType: 'leaf' | 'fruit';
+  modelKind: 'mobilenetv2' | 'hybrid_cnn';
+  config: RetrainConfig;
+  skipIfReady: boolean;
+  step: WizardStep;
+  states: { [step in PipelineStep]: StepState };
+  //job each stage started, so its status is told apart from the other lane's or an earlier run's
+  jobIds: { [step in PipelineStep]: number | null };
+  //set while a start call is in flight; a reload in that window starts the stage again
+  starting: PipelineStep | null;
+  outputFilename: string | null;
+  accuracy: number | null;
+}
+
+//survives a reload so the wizard can pick up the stage that was running
+const WIZARD_STATE_KEY = 'retrain_wizard_state';
+
+const STEP_LABELS: { [step in WizardStep]: string } = {
+  setup:      'Choose model',
+  dataset:    'Validate dataset',
+  preprocess: 'Preprocess images',
+  symptoms:   'Extract symptoms',
+  retrain:    'Retrain',
+  activate:   'Activate',
+};
+
+@Component({
+  selector: 'app-retrain-wizard',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterModule, RetrainCurvesComponent],
+  templateUrl: './retrain-wizard.component.html',
+})
+export class RetrainWizardComponent implements OnInit, OnDestroy {
+  state: WizardState = this.freshState();
+
+  datasetInfo: RetrainDatasetInfo | null = null;
+  preprocessingStatus: PreprocessingStatus | null = null;
+  extractionStatus: SymptomExtractionStatus | null = null;
+  retrainStatus: RetrainStatus | null = null;
+  settings: ModelSettings | null = null;
+
+  loading = false;
+  running = false;
+  activating = false;
+  cancelling = false;
+  error: string | null = null;
+  successMessage = '';
+
+  private pollSub: Subscription | null = null;
+  private destroyed = false;
+  private successTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private mangoService: MangoDiseaseService,
+    private permissionService: PermissionService
+  ) {}
+
+  ngOnInit(): void {
+    const saved = this.readState();
+    if (saved) {
+      this.state = saved;
+      this.resume();
+    }
+  }
+
+  ngOnDestroy(): void {
+    //the server keeps working; the saved state lets the wizard pick it up again
+    this.destroyed = true;
+    this.pollSub?.unsubscribe();
+    if (this.successTimer) clearTimeout(this.successTimer);
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── steps ──────────────────────────────────────────────────────────────────
+
+  get steps(): WizardStep[] {
+    return this.state.modelKind === 'hybrid_cnn'
+      ? ['setup', 'dataset', 'preprocess', 'symptoms', 'retrain', 'activate']
+      : ['setup', 'dataset', 'preprocess', 'retrain', 'activate'];
+  }
+
+  get pipelineSteps(): PipelineStep[] {
+    return this.steps.filter((step): step is PipelineStep =>
+      step === 'preprocess' || step === 'symptoms' || step === 'retrain');
+  }
+
+  stepLabel(step: WizardStep): string {
+    return STEP_LABELS[step];
+  }
+
+  stepIndex(step: WizardStep): number {
+    return this.steps.indexOf(step);
+  }
+
+  isPipelineStep(step: WizardStep): step is PipelineStep {
+    return step === 'preprocess' || step === 'symptoms' || step === 'retrain';
+  }
+
+  //badge shown on the stepper for each step
+  stepState(step: WizardStep): StepState | 'current' | 'upcoming' {
+    if (this.isPipelineStep(step) && this.state.states[step] !== 'pending') return this.state.states[step];
+    const current = this.stepIndex(this.state.step);
+    const index = this.stepIndex(step);
+    if (index < current) return 'done';
+    return index === current ? 'current' : 'upcoming';
+  }
+
+  // ── setup ──────────────────────────────────────────────────────────────────
+
+  onModelKindChange(): void {
+    this.state.config = { ...DEFAULT_RETRAIN_CONFIGS[this.state.modelKind] };
+  }
+
+  async validateDataset(): Promise<void> {
+    this.loading = true;
+    this.error = null;
+    this.datasetInfo = null;
+    try {
+      const res = await firstValueFrom(
+        this.mangoService.getRetrainDatasetInfo(this.state.modelType, this.state.config.min_images_per_class)
+      );
+      if (res.success && res.data) {
+        this.datasetInfo = res.data;
+        this.goTo('dataset');
+      } else {
+        this.error = res.message || 'Failed to load dataset info.';
+      }
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Could not reach the server.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  backToSetup(): void {
+    this.datasetInfo = null;
+    this.goTo('setup');
+  }
+
+  get eligibleClassEntries(): { name: string; count: number }[] {
+    return Object.entries(this.datasetInfo?.eligible_classes || {}).map(([name, count]) => ({ name, count }));
+  }
+
+  get ineligibleClassEntries(): { name: string; count: number }[] {
+    if (!this.datasetInfo) return [];
+    const eligible = this.datasetInfo.eligible_classes;
+    return Object.entries(this.datasetInfo.all_classes)
+      .filter(([name]) => !(name in eligible))
+      .map(([name, count]) => ({ name, count }));
+  }
+
+  // ── pipeline ───────────────────────────────────────────────────────────────
+
+  async startPipeline(): Promise<void> {
+    if (!this.datasetInfo?.can_retrain || !this.can('retrain_models')) return;
+    this.state.outputFilename = null;
+    this.state.accuracy = null;
+    this.pipelineSteps.forEach(step => this.state.states[step] = 'pending');
+    await this.runFrom(this.pipelineSteps[0]);
+  }
+
+  //re-runs the step that failed or was cancelled, then carries on
+  async retryStep(): Promise<void> {
+    if (!this.isPipelineStep(this.state.step)) return;
+    this.state.states[this.state.step] = 'pending';
+    await this.runFrom(this.state.step);
+  }
+
+  async cancelCurrent(): Promise<void> {
+    const step = this.state.step;
+    if (!this.isPipelineStep(step) || this.state.states[step] !== 'running') return;
+
+    const modelType = this.state.modelType;
+    const request = step === 'preprocess' ? this.mangoService.cancelPreprocessing(modelType)
+      : step === 'symptoms' ? this.mangoService.cancelSymptomExtraction(modelType)
+      : this.mangoService.cancelRetrain(modelType);
+
+    this.cancelling = true;
+    try {
+      const res = await firstValueFrom(request);
+      if (!res.success) this.error = res.message || 'Failed to cancel.';
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to cancel.';
+    } finally {
+      this.cancelling = false;
+    }
+  }
+
+  //walk the remaining stages in order; a stage already marked running is followed, not restarted
+  private async runFrom(first: PipelineStep): Promise<void> {
+    const steps = this.pipelineSteps;
+    this.running = true;
+    this.error = null;
+    try {
+      for (const step of steps.slice(steps.indexOf(first))) {
+        this.goTo(step);
+        const outcome = await this.runStep(step);
+        if (outcome !== 'done' && outcome !== 'skipped') return;
+      }
+      this.goTo('activate');
+      await this.loadSettings();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runStep(step: PipelineStep): Promise<StepState> {
+    const current = this.state.states[step];
+    if (current === 'done' || current === 'skipped') return current;
+
+    if (current !== 'running') {
+      if (this.state.skipIfReady && step !== 'retrain' && await this.isAlreadyReady(step)) {
+        return this.setStepState(step, 'skipped');
+      }
+      this.state.starting = step;
+      this.state.jobIds[step] = null;
+      this.saveState();
+      const started = await this.trigger(step);
+      this.state.starting = null;
+      if (!started) return this.setStepState(step, 'error');
+      this.state.jobIds[step] = started.jobId;
+      this.setStepState(step, 'running');
+    }
+
+    const outcome = await this.follow(step);
+    //left mid-job: keep the stage marked running so the next visit follows it again
+    if (this.destroyed) return 'running';
+    return this.setStepState(step, outcome);
+  }
+
+  private async isAlreadyReady(step: 'preprocess' | 'symptoms'): Promise<boolean> {
+    try {
+      const res = step === 'preprocess'
+        ? await firstValueFrom(this.mangoService.checkPreprocessingReady(this.state.modelType))
+        : await firstValueFrom(this.mangoService.checkSymptomsReady(this.state.modelType));
+      return !!(res.success && res.data?.ready);
+    } catch {
+      return false;
+    }
+  }
+
+  //null when the job could not be started
+  private async trigger(step: PipelineStep): Promise<{ jobId: number | null } | null> {
+    const { modelType, modelKind, config } = this.state;
+    try {
+      const res = step === 'preprocess' ? await firstValueFrom(this.mangoService.triggerPreprocessing(modelType))
+        : step === 'symptoms' ? await firstValueFrom(this.mangoService.triggerSymptomExtraction(modelType))
+        : await firstValueFrom(this.mangoService.triggerRetrain(modelType, modelKind, config));
+      if (!res.success) {
+        this.error = res.message || `Could not start: ${this.stepLabel(step).toLowerCase()}.`;
+        return null;
+      }
+      return { jobId: res.data?.job_id ?? null };
+    } catch (err: any) {
+      this.error = err?.status === 409
+        ? 'Another job is already running. Wait for it to finish, then retry this step.'
+        : err?.error?.message || `Could not start: ${this.stepLabel(step).toLowerCase()}.`;
+      return null;
+    }
+  }
+
+  private async follow(step: PipelineStep): Promise<StepState> {
+    const modelType = this.state.modelType;
+    const jobId = this.state.jobIds[step];
+    const isOurs = (status: JobStatus) =>
+      status.model_type === modelType && (jobId === null || status.job_id === jobId);
+
+    if (step === 'preprocess') {
+      const status = await this.poll(() => this.mangoService.getPreprocessingStatus(modelType), isOurs, s => this.preprocessingStatus = s);
+      return this.finalState(status?.phase, status?.error, 'Preprocessing failed.');
+    }
+    if (step === 'symptoms') {
+      const status = await this.poll(() => this.mangoService.getSymptomExtractionStatus(modelType), isOurs, s => this.extractionStatus = s);
+      return this.finalState(status?.phase, status?.error, 'Symptom extraction failed.');
+    }
+
+    const status = await this.poll(() => this.mangoService.getRetrainStatus(modelType), isOurs, s => this.retrainStatus = s);
+    const outcome = this.finalState(status?.phase, status?.error, 'Retraining failed.');
+    if (status && outcome === 'done') {
+      this.state.outputFilename = status.output_filename;
+      this.state.accuracy = status.accuracy;
+    }
+    return outcome;
+  }
+
+  //resolves with the first status of our job that is no longer running, or null if polling fails or is torn down.
+  //statuses of other jobs (the other lane, or an earlier run while ours is still queued) count as not started yet
+  private poll<T extends JobStatus>(
+    source: () => Observable<ApiResponse<T>>,
+    isOurs: (status: T) => boolean,
+    onUpdate: (status: T) => void,
+  ): Promise<T | null> {
+    this.pollSub?.unsubscribe();
+    return new Promise(resolve => {
+      this.pollSub = interval(2000)
+        .pipe(
+          switchMap(() => source()),
+          takeWhile((res) => res.success && !!res.data && (!isOurs(res.data) || res.data.is_running), true),
+        )
+        .subscribe({
+          next: (res) => {
+            if (res.success && res.data) {
+              if (!isOurs(res.data)) return;
+              onUpdate(res.data);
+              if (!res.data.is_running) resolve(res.data);
+            } else {
+              //takeWhile ends the stream on this response too
+              this.error = res.message || 'The server did not return the job status.';
+              resolve(null);
+            }
+          },
+          error: () => {
+            this.error = 'Lost contact with the server while following the job.';
+            resolve(null);
+          },
+          complete: () => resolve(null),
+        });
+      //unsubscribed (component destroyed or a new poll started); later resolves are no-ops
+      this.pollSub.add(() => resolve(null));
+    });
+  }
+
+  private finalState(phase: string | null | undefined, error: string | null | undefined, fallback: string): StepState {
+    if (phase === 'done') return 'done';
+    if (phase === 'cancelled') return 'cancelled';
+    if (!this.error) this.error = error || fallback;
+    return 'error';
+  }
+
+  // ── activate ───────────────────────────────────────────────────────────────
+
+  get activeModel(): string | null {
+    return this.settings?.active_models[this.state.modelType] ?? null;
+  }
+
+  async activate(): Promise<void> {
+    const filename = this.state.outputFilename;
+    if (!filename || !this.can('manage_models')) return;
+
+    const before = this.settings
+      ? { leaf_model: this.settings.active_models.leaf, fruit_model: this.settings.active_models.fruit }
+      : undefined;
+    const payload = this.state.modelType === 'leaf' ? { leaf_model: filename } : { fruit_model: filename };
+
+    this.activating = true;
+    this.error = null;
+    try {
+      const res = await firstValueFrom(this.mangoService.updateModelSettings(payload, before));
+      if (res.success) {
+        this.showSuccess(`Model "${filename}" is now active.`);
+        this.finish();
+      } else {
+        this.error = res.message || 'Failed to activate model.';
+      }
+    } catch (err: any) {
+      this.error = err?.error?.message || 'Failed to activate model.';
+    } finally {
+      this.activating = false;
+    }
+  }
+
+  //keep the current model; the new file stays available in the registry
+  keepCurrent(): void {
+    this.showSuccess('Kept the current model. The new one is in the model registry.');
+    this.finish();
+  }
+
+  //leave the wizard without touching anything still running on the server
+  startOver(): void {
+    if (this.running) return;
+    this.pollSub?.unsubscribe();
+    this.finish();
+  }
+
+  // ── template helpers ───────────────────────────────────────────────────────
+
+  get currentStepState(): StepState | null {
+    return this.isPipelineStep(this.state.step) ? this.state.states[this.state.step] : null;
+  }
+
+  get currentProgress(): { progress: number; message: string } | null {
+    const status = this.state.step === 'preprocess' ? this.preprocessingStatus
+      : this.state.step === 'symptoms' ? this.extractionStatus
+      : this.state.step === 'retrain' ? this.retrainStatus
+      : null;
+    return status ? { progress: status.progress ?? 0, message: status.message } : null;
+  }
+
+  getStepClass(step: WizardStep): string {
+    switch (this.stepState(step)) {
+      case 'current':
+      case 'running':   return 'bg-blue-600 text-white';
+      case 'done':      return 'bg-green-600 text-white';
+      case 'skipped':   return 'bg-green-100 text-green-800';
+      case 'error':     return 'bg-red-600 text-white';
+      case 'cancelled': return 'bg-gray-400 text-white';
+      default:          return 'bg-gray-100 text-gray-500';
+    }
+  }
+
+  formatKind(kind: string): string {
+    return kind === 'hybrid_cnn' ? 'Hybrid CNN' : 'MobileNetV2';
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  //after a reload: follow whatever stage was running, then continue with the rest
+  private async resume(): Promise<void> {
+    const step = this.state.step;
+    if (step === 'activate') {
+      await this.loadSettings();
+      return;
+    }
+    if (step === 'dataset') {
+      await this.validateDataset();
+      return;
+    }
+    if (this.isPipelineStep(step) && (this.state.states[step] === 'running' || this.state.starting === step)) {
+      await this.runFrom(step);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const res = await firstValueFrom(this.mangoService.getModelSettings());
+      if (res.success) this.settings = res.data;
+    } catch {
+      //only used to show which model would be replaced
+    }
+  }
+
+  private goTo(step: WizardStep): void {
+    this.state.step = step;
+    this.saveState();
+  }
+
+  private setStepState(step: PipelineStep, value: StepState): StepState {
+    this.state.states[step] = value;
+    this.saveState();
+    return value;
+  }
+
+  private finish(): void {
+    localStorage.removeItem(WIZARD_STATE_KEY);
+    this.state = this.freshState();
+    this.datasetInfo = null;
+    this.preprocessingStatus = null;
+    this.extractionStatus = null;
+    this.retrainStatus = null;
+  }
+
+  private freshState(): WizardState {
+    return {
+      modelType: 'leaf',
+      modelKind: 'mobilenetv2',
+      config: { ...DEFAULT_RETRAIN_CONFIGS.mobilenetv2 },
+      skipIfReady: true,
+      step: 'setup',
+      states: { preprocess: 'pending', symptoms: 'pending', retrain: 'pending' },
+      jobIds: { preprocess: null, symptoms: null, retrain: null },
+      starting: null,
+      outputFilename: null,
+      accuracy: null,
+    };
+  }
+
+  private saveState(): void {
+    localStorage.setItem(WIZARD_STATE_KEY, JSON.stringify(this.state));
+  }
+
+  private readState(): WizardState | null {
+    try {
+      const raw = localStorage.getItem(WIZARD_STATE_KEY);
+      //saved before job ids were kept: those stages are followed by lane only
+      return raw ? { ...this.freshState(), ...JSON.parse(raw) } as WizardState : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private showSuccess(message: string): void {
+    this.successMessage = message;
+    if (this.successTimer) clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => this.successMessage = '', 3500);
+  }
+}
@@ -0,0 +1,344 @@
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Observable, firstValueFrom, forkJoin, interval, Subscription } from 'rxjs';
+import { MangoDiseaseService, MangoImage } from '../../services/mango-disease.service';
+import { TrainingDataService } from '../../services/training-data.service';
+import { DiseaseService } from '../../services/disease.service';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+
+export interface ReviewSessionStats {
+  confirmed: number;
+  reclassified: number;
+  trainingReady: number;
+  skipped: number;
+  deleted: number;
+  failed: number;
+}
+
+@Component({
+  selector: 'app-review-queue',
+  standalone: true,
+  imports: [CommonModule, ConfirmDialogComponent],
+  templateUrl: './review-queue.component.html',
+})
+export class ReviewQueueComponent implements OnInit, OnDestroy {
+  queue: MangoImage[] = [];
+  loading = true;
+  fetching = false;
+  processing = false;
+  hasMore = true;
+  error: string | null = null;
+  successMessage: string | null = null;
+  private successTimer: any;
+
+  showHelp = false;
+  confirmDeleteOpen = false;
+
+  //fallback when the disease vocabulary can't be loaded
+  readonly LEAF_CLASS_NAMES  = ['Anthracnose', 'Die Back', 'Healthy', 'Powdery Mildew', 'Sooty Mold'];
+  readonly FRUIT_CLASS_NAMES = ['Alternaria', 'Anthracnose', 'Black Mold Rot', 'Healthy', 'Stem end Rot'];
+  leafClasses: string[] = this.LEAF_CLASS_NAMES;
+  fruitClasses: string[] = this.FRUIT_CLASS_NAMES;
+
+  //queue paging - keyset on id so skipped images don't shift later pages
+  private readonly PAGE_SIZE = 20;
+  private readonly REFILL_AT = 5;
+  private readonly PRELOAD_COUNT = 3;
+  private lastFetchedId = 0;
+  private preloaded = new Set<number>();
+
+  stats: ReviewSessionStats = this.emptyStats();
+  sessionStartedAt = Date.now();
+  now = Date.now();
+  private clockSub?: Subscription;
+
+  constructor(
+    private mangoDiseaseService: MangoDiseaseService,
+    private trainingDataService: TrainingDataService,
+    private diseaseService: DiseaseService,
+    private permissionService: PermissionService,
+    private router: Router,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadClasses();
+    this.fetchNextPage();
+    this.clockSub = interval(1000).subscribe(() => this.now = Date.now());
+  }
+
+  ngOnDestroy(): void {
+    this.clockSub?.unsubscribe();
+    clearTimeout(this.successTimer);
+  }
+
+  get current(): MangoImage | null {
+    return this.queue[0] ?? null;
+  }
+
+  get availableClasses(): string[] {
+    return this.current?.disease_type === 'fruit' ? this.fruitClasses : this.leafClasses;
+  }
+
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
+  // ── hotkeys ────────────────────────────────────────────────────────────────
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    //leave browser and OS shortcuts (copy, new tab, tab switching) alone
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    //Enter on a focused button or link already activates it
+    if (event.key === 'Enter' && target?.closest('button, a')) return;
+
+    if (this.confirmDeleteOpen) {
+      if (event.key === 'Enter' || event.key === 'y') this.deleteCurrent();
+      if (event.key === 'Escape' || event.key === 'n') this.confirmDeleteOpen = false;
+      event.preventDefault();
+      return;
+    }
+
+    if (event.key === '?') {
+      this.showHelp = !this.showHelp;
+      return;
+    }
+
+    if (!this.current || this.processing) return;
+
+    const classIndex = Number(event.key) - 1;
+    if (classIndex >= 0 && classIndex < this.availableClasses.length) {
+      this.reclassifyCurrent(this.availableClasses[classIndex]);
+      event.preventDefault();
+      return;
+    }
+
+    switch (event.key) {
+      case 'Enter':
+      case 'c':
+        this.confirmCurrent();
+        break;
+      case 't':
+        this.confirmCurrent(true);
+        break;
+      case 's':
+      case 'ArrowRight':
+        this.skipCurrent();
+        break;
+      case 'd':
+      case 'Delete':
+        if (this.can('delete_images')) this.confirmDeleteOpen = true;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // ── actions ────────────────────────────────────────────────────────────────
+
+  /** Verify the current prediction as-is, optionally marking it training-ready. */
+  async confirmCurrent(trainingReady = false): Promise<void> {
+    const image = this.current;
+    if (!image || !this.can('verify_images')) return;
+    if (trainingReady && !this.can('edit_training_data')) return;
+
+    await this.runAction(image, async () => {
+      await this.send(this.mangoDiseaseService.updateImageVerification(image.id, true, undefined, { is_verified: false }));
+      if (trainingReady) {
+        await this.send(this.trainingDataService.patchTrainingDetail(
+          image.id,
+          { training_ready: true },
+          { training_ready: image.training_ready }
+        ));
+        this.stats.trainingReady++;
+      }
+      this.stats.confirmed++;
+    });
+  }
+
+  /** Save a corrected class then verify the image. */
+  async reclassifyCurrent(diseaseName: string): Promise<void> {
+    const image = this.current;
+    if (!image || !this.can('verify_images') || !this.can('edit_training_data')) return;
+
+    const previous = image.disease_classification || image.predicted_class;
+    if (diseaseName === previous) {
+      return this.confirmCurrent();
+    }
+
+    await this.runAction(image, async () => {
+      await this.send(this.trainingDataService.patchTrainingDetail(
+        image.id,
+        { disease_classification: diseaseName },
+        { disease_classification: previous }
+      ));
+      await this.send(this.mangoDiseaseService.updateImageVerification(image.id, true, undefined, { is_verified: false }));
+      this.stats.reclassified++;
+    });
+  }
+
+  skipCurrent(): void {
+    if (!this.current) return;
+    this.stats.skipped++;
+    this.advance();
+  }
+
+  async deleteCurrent(): Promise<void> {
+    this.confirmDeleteOpen = false;
+    const image = this.current;
+    if (!image || !this.can('delete_images')) return;
+
+    await this.runAction(image, async () => {
+      await this.send(this.mangoDiseaseService.deleteImage(image.id, {
+        original_filename: image.original_filename,
+        disease_classification: image.disease_classification || image.predicted_class,
+        is_verified: image.is_verified
+      }));
+      this.stats.deleted++;
+    });
+  }
+
+  resetStats(): void {
+    this.stats = this.emptyStats();
+    this.sessionStartedAt = Date.now();
+  }
+
+  viewDetails(): void {
+    if (this.current) {
+      this.router.navigate(['/admin/image-detail', this.current.id]);
+    }
+  }
+
+  // ── stats ──────────────────────────────────────────────────────────────────
+
+  get reviewedCount(): number {
+    return this.stats.confirmed + this.stats.reclassified + this.stats.deleted;
+  }
+
+  get elapsedLabel(): string {
+    const seconds = Math.floor((this.now - this.sessionStartedAt) / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  get imagesPerMinute(): number {
+    const minutes = (this.now - this.sessionStartedAt) / 60000;
+    return minutes > 0 ? this.reviewedCount / minutes : 0;
+  }
+
+  get secondsPerImage(): number {
+    return this.reviewedCount > 0 ? (this.now - this.sessionStartedAt) / 1000 / this.reviewedCount : 0;
+  }
+
+  // ── display helpers ────────────────────────────────────────────────────────
+
+  getImageUrl(image: MangoImage): string {
+    return this.mangoDiseaseService.getImageUrl(image);
+  }
+
+  getConfidenceScore(image: MangoImage): number {
+    if (!image.confidence_score) return 0;
+    return image.confidence_score <= 1 ? image.confidence_score * 100 : image.confidence_score;
+  }
+
+  formatDate(dateString: string): string {
+    return new Date(dateString).toLocaleString();
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private async runAction(image: MangoImage, action: () => Promise<void>): Promise<void> {
+    this.processing = true;
+    this.error = null;
+    try {
+      await action();
+      this.advance();
+    } catch (error) {
+      console.error(`Review action failed for image ${image.id}:`, error);
+      this.stats.failed++;
+      this.error = `Could not update image #${image.id}. Press S to skip it or try again.`;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  //a { success: false } reply fails the action like an HTTP error does
+  private async send(request: Observable<any>): Promise<void> {
+    const res = await firstValueFrom(request);
+    if (res?.success === false) {
+      throw new Error(res.message || 'The server rejected the change.');
+    }
+  }
+
+  private advance(): void {
+    this.queue.shift();
+    this.preloadUpcoming();
+    if (this.queue.length <= this.REFILL_AT) {
+      this.fetchNextPage();
+    }
+  }
+
+  private async fetchNextPage(): Promise<void> {
+    if (this.fetching || !this.hasMore) return;
+
+    this.fetching = true;
+    try {
+      const response = await firstValueFrom(this.mangoDiseaseService.getClassifiedImages({
+        status: 'unverified',
+        ordering: 'id',
+        id_gt: this.lastFetchedId,
+        page_size: this.PAGE_SIZE,
+      }));
+
+      const images = response.images.filter(img => !img.is_verified);
+      if (response.images.length > 0) {
+        this.lastFetchedId = response.images[response.images.length - 1].id;
+      }
+      this.queue = [...this.queue, ...images];
+      this.hasMore = response.pagination
+        ? response.pagination.has_next
+        : response.images.length === this.PAGE_SIZE;
+      this.preloadUpcoming();
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      this.error = 'Failed to load unverified images.';
+    } finally {
+      this.fetching = false;
+      this.loading = false;
+    }
+  }
+
+  //warm the browser cache so the next image shows instantly
+  private preloadUpcoming(): void {
+    this.queue.slice(1, 1 + this.PRELOAD_COUNT).forEach(image => {
+      if (this.preloaded.has(image.id)) return;
+      this.preloaded.add(image.id);
+      const img = new Image();
+      img.src = this.getImageUrl(image);
+    });
+  }
+
+  private loadClasses(): void {
+    forkJoin({
+      leaf:  this.diseaseService.list({ plant_part: 'leaf' }),
+      fruit: this.diseaseService.list({ plant_part: 'fruit' }),
+    }).subscribe({
+      next: ({ leaf, fruit }) => {
+        if (leaf.length)  this.leafClasses  = leaf.map(d => d.name).sort();
+        if (fruit.length) this.fruitClasses = fruit.map(d => d.name).sort();
+      },
+      error: () => {
+        //keep the built-in class lists
+      },
+    });
+  }
+
+  private emptyStats(): ReviewSessionStats {
+    return { confirmed: 0, reclassified: 0, trainingReady: 0, skipped: 0, deleted: 0, failed: 0 };
+  }
+}
@@ -5,6 +5,7 @@ import { SymptomAlias, SymptomAliasPayload } from '../../models/symptom-vocabula
 import { DataTableComponent, TableColumn } from '../../components/data-table/data-table.component';
 import { FormField, FormModalComponent } from '../../components/form-modal/form-modal.component';
 import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { UndoService } from '../../services/undo.service';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 
@@ -90,7 +91,10 @@ export class AliasesPageComponent implements OnInit {
   confirmOpen = false;
   pendingDelete: SymptomAlias | null = null;
 
-  constructor(private aliasService: SymptomAliasService) {}
+  constructor(
+    private aliasService: SymptomAliasService,
+    private undoService: UndoService
+  ) {}
 
   ngOnInit(): void {
     this.loadRows();
@@ -154,19 +158,28 @@ export class AliasesPageComponent implements OnInit {
     this.confirmOpen = true;
   }
 
-  async onDeleteConfirm(): Promise<void> {
+  //row disappears now, the delete is sent once the undo window closes
+  onDeleteConfirm(): void {
     if (!this.pendingDelete) return;
+    const row = this.pendingDelete;
     this.confirmOpen = false;
+    this.pendingDelete = null;
     this.error = '';
-    try {
-      await this.aliasService.delete(this.pendingDelete.id).toPromise();
-      this.showSuccess(`Alias "${this.pendingDelete.alias}" deleted.`);
-      this.pendingDelete = null;
-      this.loadRows();
-    } catch (httpError: any) {
-      this.error = httpError?.error?.error ?? 'Delete failed.';
-      this.pendingDelete = null;
-    }
+    this.rows = this.rows.filter(r => r.id !== row.id);
+
+    this.undoService.schedule({
+      message: `Alias "${row.alias}" deleted`,
+      execute: async () => { await this.aliasService.delete(row.id).toPromise(); },
+      onExecuted: () => {
+        this.showSuccess(`Alias "${row.alias}" deleted.`);
+        this.loadRows();
+      },
+      onUndone: () => this.loadRows(),
+      onFailed: (httpError: any) => {
+        this.error = httpError?.error?.error ?? 'Delete failed.';
+        this.loadRows();
+      },
+    });
   }
 
   private showSuccess(toastMessage: string): void {
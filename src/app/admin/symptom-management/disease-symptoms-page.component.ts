@@ -10,6 +10,7 @@ import { FormField, FormModalComponent } from '../../components/form-modal/form-
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { UndoService } from '../../services/undo.service';
 
 @Component({
   selector: 'app-disease-symptoms-page',
@@ -105,7 +106,8 @@ export class DiseaseSymptomsPageComponent implements OnInit {
   constructor(
     private dsService: DiseaseSymptomService,
     private diseaseService: DiseaseService,
-    private symptomService: SymptomService
+    private symptomService: SymptomService,
+    private undoService: UndoService
   ) {}
 
   async ngOnInit(): Promise<void> {
@@ -197,19 +199,28 @@ export class DiseaseSymptomsPageComponent implements OnInit {
     this.confirmOpen = true;
   }
 
-  async onDeleteConfirm(): Promise<void> {
+  //row disappears now, the delete is sent once the undo window closes
+  onDeleteConfirm(): void {
     if (!this.pendingDelete) return;
+    const row = this.pendingDelete;
     this.confirmOpen = false;
+    this.pendingDelete = null;
     this.error = '';
-    try {
-      await this.dsService.delete(this.pendingDelete.id).toPromise();
-      this.showSuccess(`Link #${this.pendingDelete.id} deleted.`);
-      this.pendingDelete = null;
-      this.loadRows();
-    } catch (httpError: any) {
-      this.error = httpError?.error?.error ?? 'Delete failed.';
-      this.pendingDelete = null;
-    }
+    this.rows = this.rows.filter(r => r.id !== row.id);
+
+    this.undoService.schedule({
+      message: `Link #${row.id} deleted`,
+      execute: async () => { await this.dsService.delete(row.id).toPromise(); },
+      onExecuted: () => {
+        this.showSuccess(`Link #${row.id} deleted.`);
+        this.loadRows();
+      },
+      onUndone: () => this.loadRows(),
+      onFailed: (httpError: any) => {
+        this.error = httpError?.error?.error ?? 'Delete failed.';
+        this.loadRows();
+      },
+    });
   }
 
   private showSuccess(toastMessage: string): void {
@@ -17,6 +17,7 @@ import {
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { UndoService } from '../../services/undo.service';
 
 @Component({
   selector: 'app-diseases-page',
@@ -217,7 +218,10 @@ export class DiseasesPageComponent implements OnInit {
   detailsModalOpen = false;
   selectedDiseaseDetails: Disease | null = null;
 
-  constructor(private diseaseService: DiseaseService) {}
+  constructor(
+    private diseaseService: DiseaseService,
+    private undoService: UndoService
+  ) {}
 
   ngOnInit(): void {
     this.loadRows();
@@ -300,19 +304,28 @@ export class DiseasesPageComponent implements OnInit {
     this.confirmOpen = true;
   }
 
-  async onDeleteConfirm(): Promise<void> {
+  //row disappears now, the delete is sent once the undo window closes
+  onDeleteConfirm(): void {
     if (!this.pendingDelete) return;
+    const row = this.pendingDelete;
     this.confirmOpen = false;
+    this.pendingDelete = null;
     this.error = '';
-    try {
-      await this.diseaseService.delete(this.pendingDelete.id).toPromise();
-      this.showSuccess(`Disease "${this.pendingDelete.name}" deleted.`);
-      this.pendingDelete = null;
-      this.loadRows();
-    } catch (httpError: any) {
-      this.error = httpError?.error?.error ?? 'Delete failed.';
-      this.pendingDelete = null;
-    }
+    this.rows = this.rows.filter(r => r.id !== row.id);
+
+    this.undoService.schedule({
+      message: `Disease "${row.name}" deleted`,
+      execute: async () => { await this.diseaseService.delete(row.id).toPromise(); },
+      onExecuted: () => {
+        this.showSuccess(`Disease "${row.name}" deleted.`);
+        this.loadRows();
+      },
+      onUndone: () => this.loadRows(),
+      onFailed: (httpError: any) => {
+        this.error = httpError?.error?.error ?? 'Delete failed.';
+        this.loadRows();
+      },
+    });
   }
 
   private showSuccess(toastMessage: string): void {
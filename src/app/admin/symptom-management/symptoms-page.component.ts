@@ -6,6 +6,7 @@ import { FormField, FormModalComponent } from '../../components/form-modal/form-
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ConfirmDialogComponent } from '../../components/confirm-dialog/confirm-dialog.component';
+import { UndoService } from '../../services/undo.service';
 
 @Component({
   selector: 'app-symptoms-page',
@@ -120,7 +121,10 @@ export class SymptomsPageComponent implements OnInit {
 
   plantPartFilter: 'leaf' | 'fruit' | '' = '';
 
-  constructor(private symptomService: SymptomService) {}
+  constructor(
+    private symptomService: SymptomService,
+    private undoService: UndoService
+  ) {}
 
   ngOnInit(): void {
     this.loadRows();
@@ -189,20 +193,28 @@ export class SymptomsPageComponent implements OnInit {
     this.confirmOpen = true;
   }
 
-  async onDeleteConfirm(): Promise<void> {
+  //row disappears now, the delete is sent once the undo window closes
+  onDeleteConfirm(): void {
     if (!this.pendingDelete) return;
+    const row = this.pendingDelete;
     this.confirmOpen = false;
+    this.pendingDelete = null;
     this.error = '';
-    try {
-      await this.symptomService.delete(this.pendingDelete.id).toPromise();
-      this.showSuccess(`Symptom "${this.pendingDelete.key}" deleted.`);
-      this.pendingDelete = null;
-      this.loadRows();
-    } catch (httpError: any) {
-      // Backend returns 400 {error: "..."} when the symptom is linked to a DiseaseSymptom (PROTECT)
-      this.error = httpError?.error?.error ?? 'Delete failed.';
-      this.pendingDelete = null;
-    }
+    this.rows = this.rows.filter(r => r.id !== row.id);
+
+    this.undoService.schedule({
+      message: `Symptom "${row.key}" deleted`,
+      execute: async () => { await this.symptomService.delete(row.id).toPromise(); },
+      onExecuted: () => {
+        this.showSuccess(`Symptom "${row.key}" deleted.`);
+        this.loadRows();
+      },
+      onUndone: () => this.loadRows(),
+      onFailed: (httpError: any) => {
+        this.error = httpError?.error?.error ?? 'Delete failed.';
+        this.loadRows();
+      },
+    });
   }
 
   private showSuccess(toastMessage: string): void {
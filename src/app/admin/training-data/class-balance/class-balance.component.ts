@@ -0,0 +1,146 @@
+import {
+  Component, ElementRef, Inject, Input, OnChanges, OnDestroy, PLATFORM_ID, ViewChild,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { Chart } from 'chart.js/auto';
+import { RetrainDatasetInfo } from '../../../services/mango-disease.service';
+import { TrainingDataSummary } from '../../../services/training-data.interfaces';
+import { BalanceFlag, ClassBalance, DatasetBalance, DatasetBalanceService } from '../../../services/dataset-balance.service';
+
+const FLAG_COLOURS: Record<BalanceFlag, string> = {
+  below_minimum:    'rgba(220, 38, 38, 0.7)',
+  over_represented: 'rgba(217, 119, 6, 0.7)',
+  ok:               'rgba(22, 163, 74, 0.7)',
+};
+
+/** Class distribution for one plant part, with the classes that need more (or fewer) images. */
+@Component({
+  selector: 'app-class-balance',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './class-balance.component.html',
+})
+export class ClassBalanceComponent implements OnChanges, OnDestroy {
+  @Input() modelType: 'leaf' | 'fruit' = 'leaf';
+  @Input() summary: TrainingDataSummary | null = null;
+  @Input() datasetInfo: RetrainDatasetInfo | null = null;
+
+  @ViewChild('balanceCanvas') balanceCanvas?: ElementRef<HTMLCanvasElement>;
+
+  balance: DatasetBalance | null = null;
+
+  private chart?: Chart<'bar' | 'line', number[], string>;
+
+  constructor(
+    private balanceService: DatasetBalanceService,
+    @Inject(PLATFORM_ID) private platformId: object
+  ) {}
+
+  ngOnChanges(): void {
+    this.balance = this.balanceService.analyze(this.modelType, this.classCounts(), this.minImagesPerClass);
+    //the canvas is inside an *ngIf, so wait for the view before drawing
+    setTimeout(() => this.renderChart());
+  }
+
+  ngOnDestroy(): void {
+    this.chart?.destroy();
+  }
+
+  get minImagesPerClass(): number {
+    return this.datasetInfo?.min_images_per_class ?? 5;
+  }
+
+  get flagged(): ClassBalance[] {
+    return this.balance?.classes.filter(c => c.flag !== 'ok') ?? [];
+  }
+
+  get shortfall(): ClassBalance[] {
+    return this.balance?.classes.filter(c => c.needed > 0) ?? [];
+  }
+
+  get totalNeeded(): number {
+    return this.shortfall.reduce((sum, c) => sum + c.needed, 0);
+  }
+
+  //verified images of this class that nobody has approved for training yet
+  candidateParams(cls: ClassBalance): { [key: string]: string } {
+    return { type: this.modelType, disease: cls.disease_classification, training: 'not_ready' };
+  }
+
+  getFlagClass(flag: BalanceFlag): string {
+    switch (flag) {
+      case 'below_minimum':    return 'bg-red-100 text-red-700';
+      case 'over_represented': return 'bg-yellow-100 text-yellow-800';
+      default:                 return 'bg-green-100 text-green-700';
+    }
+  }
+
+  getFlagLabel(flag: BalanceFlag): string {
+    switch (flag) {
+      case 'below_minimum':    return 'Below minimum';
+      case 'over_represented': return 'Over-represented';
+      default:                 return 'OK';
+    }
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  //retrain counts are what eligibility is judged on; the summary breakdown covers classes it does not list
+  private classCounts(): { [cls: string]: number } {
+    const counts: { [cls: string]: number } = {};
+    this.summary?.breakdown_by_class
+      .filter(b => b.disease_type === this.modelType)
+      .forEach(b => counts[b.disease_classification] = b.count);
+    return { ...counts, ...(this.datasetInfo?.all_classes ?? {}) };
+  }
+
+  private renderChart(): void {
+    if (!isPlatformBrowser(this.platformId) || !this.balanceCanvas || !this.balance) return;
+
+    const classes = this.balance.classes;
+    const labels = classes.map(c => c.disease_classification);
+    const counts = classes.map(c => c.count);
+    const colours = classes.map(c => FLAG_COLOURS[c.flag]);
+    const minimum = classes.map(() => this.balance!.min_images_per_class);
+
+    if (this.chart && this.chart.canvas !== this.balanceCanvas.nativeElement) {
+      this.chart.destroy();
+      this.chart = undefined;
+    }
+
+    if (this.chart) {
+      this.chart.data.labels = labels;
+      this.chart.data.datasets[0].data = counts;
+      this.chart.data.datasets[0].backgroundColor = colours;
+      this.chart.data.datasets[1].data = minimum;
+      this.chart.update('none');
+      return;
+    }
+
+    this.chart = new Chart(this.balanceCanvas.nativeElement, {
+      data: {
+        labels,
+        datasets: [
+          { type: 'bar', label: 'Training-ready images', data: counts, backgroundColor: colours },
+          {
+            type: 'line', label: 'Minimum per class', data: minimum,
+            borderColor: 'rgba(220, 38, 38, 0.8)', borderDash: [4, 4], borderWidth: 1.5, pointRadius: 0,
+          },
+        ],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        plugins: {
+          legend: { position: 'bottom', labels: { boxWidth: 10, font: { size: 11 } } },
+        },
+        scales: {
+          x: { grid: { display: false }, ticks: { color: '#6b7280', font: { size: 10 } } },
+          y: { beginAtZero: true, grid: { color: '#f3f4f6' }, ticks: { color: '#6b7280', font: { size: 10 }, precision: 0 } },
+        },
+      },
+    });
+  }
+}
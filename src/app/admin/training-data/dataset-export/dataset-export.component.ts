@@ -0,0 +1,102 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DownloadService } from '../../../services/download.service';
+import {
+  DatasetExportService, EXPORT_SPLITS, ExportOptions, ExportProgress,
+} from '../../../services/dataset-export.service';
+
+/** Download training-ready images as an ImageFolder tree or a CSV/JSONL label file, with fixed-seed splits. */
+@Component({
+  selector: 'app-dataset-export',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './dataset-export.component.html',
+})
+export class DatasetExportComponent implements OnDestroy {
+  readonly splits = EXPORT_SPLITS;
+
+  expanded = false;
+
+  options: ExportOptions = {
+    format: 'imagefolder',
+    plantPart: 'all',
+    ratios: { train: 70, val: 15, test: 15 },
+    seed: 42,
+    includeImages: true,
+    includeGps: false,
+  };
+
+  exporting = false;
+  progress: ExportProgress | null = null;
+  error: string | null = null;
+  resultMsg = '';
+  private cancelRequested = false;
+
+  constructor(
+    private exportService: DatasetExportService,
+    private downloadService: DownloadService,
+  ) {}
+
+  ngOnDestroy(): void {
+    this.cancelRequested = true;
+  }
+
+  get ratioTotal(): number {
+    return this.splits.reduce((sum, s) => sum + (Number(this.options.ratios[s]) || 0), 0);
+  }
+
+  get canExport(): boolean {
+    return !this.exporting
+      && this.ratioTotal === 100
+      && this.splits.every(s => this.options.ratios[s] >= 0)
+      && Number.isInteger(this.options.seed);
+  }
+
+  get progressLabel(): string {
+    const p = this.progress;
+    if (!p) return '';
+    switch (p.phase) {
+      case 'listing': return `Listing training images… ${p.done}`;
+      case 'images':  return `Downloading images… ${p.done} of ${p.total}`;
+      default:        return `Packing archive… ${p.done}%`;
+    }
+  }
+
+  get progressPct(): number {
+    return this.progress && this.progress.total ? Math.round(this.progress.done / this.progress.total * 100) : 0;
+  }
+
+  async exportDataset(): Promise<void> {
+    if (!this.canExport) return;
+
+    this.exporting = true;
+    this.cancelRequested = false;
+    this.error = null;
+    this.resultMsg = '';
+    this.progress = null;
+
+    //a snapshot, so edits made while it runs don't mix into this export
+    const options: ExportOptions = { ...this.options, ratios: { ...this.options.ratios } };
+    try {
+      const blob = await this.exportService.export(options, p => this.progress = p, () => this.cancelRequested);
+      if (!blob) {
+        this.resultMsg = 'Export cancelled.';
+        return;
+      }
+      const part = options.plantPart === 'all' ? 'mango' : options.plantPart;
+      this.downloadService.handleBlobDownload(blob, this.downloadService.generateBulkFilename(`${part}_dataset_${options.format}`));
+      this.resultMsg = 'Export ready. The archive includes a README dataset card with class counts per split.';
+    } catch (err: any) {
+      console.error('Error exporting dataset:', err);
+      this.error = err?.message || 'Export failed.';
+    } finally {
+      this.exporting = false;
+      this.progress = null;
+    }
+  }
+
+  cancel(): void {
+    this.cancelRequested = true;
+  }
+}
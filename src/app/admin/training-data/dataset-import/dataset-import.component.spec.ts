@@ -0,0 +1,85 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { DatasetImportComponent } from './dataset-import.component';
+import { DiseaseService } from '../../../services/disease.service';
+import {
+  ChunkResult, DatasetImportEntry, DatasetImportService, DatasetImportSource,
+} from '../../../services/dataset-import.service';
+
+describe('DatasetImportComponent', () => {
+  let fixture: ComponentFixture<DatasetImportComponent>;
+  let component: DatasetImportComponent;
+  let importServiceSpy: jasmine.SpyObj<DatasetImportService>;
+
+  const entries = (count: number): DatasetImportEntry[] => Array.from({ length: count }, (_, i) => ({
+    path: `leaf/Anthracnose/${i}.jpg`,
+    name: `${i}.jpg`,
+    load: async () => new File(['x'], `${i}.jpg`),
+  }));
+
+  const source = (count: number): DatasetImportSource => ({
+    name: 'mango.zip',
+    kind: 'zip',
+    signature: 'mango.zip:1',
+    groups: [{
+      key: 'leaf/Anthracnose', folder: 'Anthracnose', plantPart: 'leaf',
+      classification: 'Anthracnose', include: true, entries: entries(count),
+    }],
+  });
+
+  const accepted = (chunk: DatasetImportEntry[]): ChunkResult => ({ created: chunk.length, errors: [] });
+
+  beforeEach(() => {
+    importServiceSpy = jasmine.createSpyObj('DatasetImportService', [
+      'importChunk', 'saveProgress', 'loadProgress', 'clearProgress', 'matchClass',
+    ]);
+    importServiceSpy.importChunk.and.callFake(async chunk => accepted(chunk));
+
+    TestBed.configureTestingModule({
+      imports: [DatasetImportComponent],
+      providers: [
+        { provide: DatasetImportService, useValue: importServiceSpy },
+        { provide: DiseaseService, useValue: { list: () => of([]) } },
+      ]
+    });
+
+    fixture = TestBed.createComponent(DatasetImportComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should upload a class in chunks and save progress after each', async () => {
+    component.source = source(60);
+
+    await component.start();
+
+    expect(importServiceSpy.importChunk.calls.allArgs().map(args => args[0].length)).toEqual([25, 25, 10]);
+    expect(importServiceSpy.saveProgress).toHaveBeenCalledTimes(3);
+    expect(component.doneFiles).toBe(60);
+    expect(component.createdThisRun).toBe(60);
+  });
+
+  it('should resume with only the files not yet imported', async () => {
+    component.source = source(40);
+    component.done = new Set(entries(30).map(e => e.path));
+
+    await component.start();
+
+    const sent = importServiceSpy.importChunk.calls.allArgs().flatMap(args => args[0].map(e => e.path));
+    expect(sent).toEqual(entries(40).slice(30).map(e => e.path));
+  });
+
+  it('should keep rejected files pending with their error, and stop at a lost chunk', async () => {
+    component.source = source(30);
+    importServiceSpy.importChunk.and.returnValues(
+      Promise.resolve({ created: 24, errors: [{ path: 'leaf/Anthracnose/3.jpg', error: 'Corrupt image' }] }),
+      Promise.reject({ error: { message: 'Server unavailable' } }),
+    );
+
+    await component.start();
+
+    expect(component.doneFiles).toBe(24);
+    expect(component.fileErrors.get('leaf/Anthracnose/3.jpg')).toBe('Corrupt image');
+    expect(component.pendingIn(component.source!.groups[0]).length).toBe(6);
+    expect(component.error).toBe('Server unavailable');
+  });
+});
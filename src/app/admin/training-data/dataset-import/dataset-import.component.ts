@@ -0,0 +1,248 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { forkJoin } from 'rxjs';
+import { DiseaseService } from '../../../services/disease.service';
+import {
+  DatasetImportEntry, DatasetImportGroup, DatasetImportService, DatasetImportSource, IMPORT_CHUNK_SIZE,
+} from '../../../services/dataset-import.service';
+
+/** Import a whole ZIP or folder tree (leaf/Anthracnose/*.jpg) with one class per folder. */
+@Component({
+  selector: 'app-dataset-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './dataset-import.component.html',
+})
+export class DatasetImportComponent implements OnInit, OnDestroy {
+  //number of images created, so the summary can refresh
+  @Output() imported = new EventEmitter<number>();
+
+  //fallback when the disease vocabulary can't be loaded
+  readonly LEAF_CLASS_NAMES  = ['Anthracnose', 'Die Back', 'Healthy', 'Powdery Mildew', 'Sooty Mold'];
+  readonly FRUIT_CLASS_NAMES = ['Alternaria', 'Anthracnose', 'Black Mold Rot', 'Healthy', 'Stem end Rot'];
+  leafClasses: string[]  = this.LEAF_CLASS_NAMES;
+  fruitClasses: string[] = this.FRUIT_CLASS_NAMES;
+
+  expanded = false;
+  source: DatasetImportSource | null = null;
+  reading = false;
+
+  //for folders that sit outside a leaf/ or fruit/ directory
+  defaultPlantPart: 'leaf' | 'fruit' = 'leaf';
+  markReady = true;
+
+  running = false;
+  private stopRequested = false;
+  done = new Set<string>();
+  fileErrors = new Map<string, string>();
+  createdThisRun = 0;
+
+  error: string | null = null;
+  resultMsg = '';
+
+  constructor(
+    private importService: DatasetImportService,
+    private diseaseService: DiseaseService,
+  ) {}
+
+  ngOnInit(): void {
+    forkJoin({
+      leaf:  this.diseaseService.list({ plant_part: 'leaf' }),
+      fruit: this.diseaseService.list({ plant_part: 'fruit' }),
+    }).subscribe({
+      next: ({ leaf, fruit }) => {
+        if (leaf.length)  this.leafClasses  = leaf.map(d => d.name).sort();
+        if (fruit.length) this.fruitClasses = fruit.map(d => d.name).sort();
+        this.autoMap();
+      },
+      error: () => {}, //fallback lists stay in place
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stopRequested = true;
+  }
+
+  // ── source ─────────────────────────────────────────────────────────────────
+
+  async onZipSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    await this.openSource(() => this.importService.readZip(file));
+  }
+
+  async onFolderSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (!files.length) return;
+    await this.openSource(async () => this.importService.readFolder(files));
+  }
+
+  //start over: forget what was imported from this source so every file goes up again
+  clearSource(forgetProgress = false): void {
+    if (this.running) return;
+    if (forgetProgress && this.source) {
+      this.importService.clearProgress(this.source.signature);
+    }
+    this.source = null;
+    this.done = new Set();
+    this.fileErrors = new Map();
+    this.resultMsg = '';
+    this.error = null;
+  }
+
+  // ── mapping ────────────────────────────────────────────────────────────────
+
+  plantPartOf(group: DatasetImportGroup): 'leaf' | 'fruit' {
+    return group.plantPart ?? this.defaultPlantPart;
+  }
+
+  classesFor(group: DatasetImportGroup): string[] {
+    return this.plantPartOf(group) === 'fruit' ? this.fruitClasses : this.leafClasses;
+  }
+
+  onDefaultPlantPartChange(): void {
+    this.source?.groups
+      .filter(group => !group.plantPart)
+      .forEach(group => group.classification = this.importService.matchClass(group.folder, this.classesFor(group)));
+  }
+
+  get unmappedCount(): number {
+    return this.source?.groups.filter(g => g.include && !g.classification).length ?? 0;
+  }
+
+  // ── progress ───────────────────────────────────────────────────────────────
+
+  pendingIn(group: DatasetImportGroup): DatasetImportEntry[] {
+    return group.entries.filter(entry => !this.done.has(entry.path));
+  }
+
+  doneIn(group: DatasetImportGroup): number {
+    return group.entries.length - this.pendingIn(group).length;
+  }
+
+  errorsIn(group: DatasetImportGroup): { path: string; error: string }[] {
+    return group.entries
+      .filter(entry => this.fileErrors.has(entry.path))
+      .map(entry => ({ path: entry.path, error: this.fileErrors.get(entry.path)! }));
+  }
+
+  get includedGroups(): DatasetImportGroup[] {
+    return this.source?.groups.filter(g => g.include) ?? [];
+  }
+
+  get totalFiles(): number {
+    return this.includedGroups.reduce((sum, g) => sum + g.entries.length, 0);
+  }
+
+  get doneFiles(): number {
+    return this.includedGroups.reduce((sum, g) => sum + this.doneIn(g), 0);
+  }
+
+  get progressPct(): number {
+    return this.totalFiles ? Math.round(this.doneFiles / this.totalFiles * 100) : 0;
+  }
+
+  get canStart(): boolean {
+    return !this.running
+      && this.unmappedCount === 0
+      && this.includedGroups.some(g => this.pendingIn(g).length > 0);
+  }
+
+  //anything already imported from this source (e.g. before a reload) makes this a resume
+  get isResume(): boolean {
+    return this.doneFiles > 0;
+  }
+
+  // ── import ─────────────────────────────────────────────────────────────────
+
+  async start(): Promise<void> {
+    const source = this.source;
+    if (!source || !this.canStart) return;
+
+    this.running = true;
+    this.stopRequested = false;
+    this.error = null;
+    this.resultMsg = '';
+    this.createdThisRun = 0;
+
+    try {
+      for (const group of this.includedGroups) {
+        const pending = this.pendingIn(group);
+        for (let i = 0; i < pending.length; i += IMPORT_CHUNK_SIZE) {
+          if (this.stopRequested) {
+            this.resultMsg = `Paused after ${this.createdThisRun} image(s). Resume to continue.`;
+            return;
+          }
+
+          const chunk = pending.slice(i, i + IMPORT_CHUNK_SIZE);
+          try {
+            const result = await this.importService.importChunk(chunk, this.plantPartOf(group), group.classification, this.markReady);
+            const failed = new Map(result.errors.map(e => [e.path, e.error]));
+            chunk.forEach(entry => {
+              if (failed.has(entry.path)) {
+                this.fileErrors.set(entry.path, failed.get(entry.path)!);
+              } else {
+                this.fileErrors.delete(entry.path);
+                this.done.add(entry.path);
+              }
+            });
+            this.createdThisRun += result.created;
+            this.importService.saveProgress(source.signature, this.done);
+          } catch (err: any) {
+            //whole chunk lost (network, server error); everything before it is saved, so resume retries from here
+            this.error = err?.error?.message || `Upload stopped in ${group.key}. Resume to retry from this chunk.`;
+            return;
+          }
+        }
+      }
+      const failed = this.includedGroups.reduce((sum, g) => sum + this.errorsIn(g).length, 0);
+      this.resultMsg = `Imported ${this.createdThisRun} image(s)` + (failed ? `, ${failed} rejected.` : '.');
+    } finally {
+      this.running = false;
+      if (this.createdThisRun > 0) {
+        this.imported.emit(this.createdThisRun);
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private async openSource(read: () => Promise<DatasetImportSource>): Promise<void> {
+    if (this.running) return;
+    this.reading = true;
+    this.error = null;
+    this.resultMsg = '';
+    try {
+      const source = await read();
+      if (!source.groups.length) {
+        this.error = 'No JPEG, PNG or WebP images were found.';
+        return;
+      }
+      this.source = source;
+      this.done = this.importService.loadProgress(source.signature);
+      this.fileErrors = new Map();
+      this.autoMap();
+    } catch (err) {
+      console.error('Error reading dataset:', err);
+      this.error = 'Could not read that file. Is it a valid ZIP archive?';
+    } finally {
+      this.reading = false;
+    }
+  }
+
+  //fill in classes that haven't been picked by hand yet
+  private autoMap(): void {
+    this.source?.groups
+      .filter(group => !group.classification)
+      .forEach(group => group.classification = this.importService.matchClass(group.folder, this.classesFor(group)));
+  }
+}
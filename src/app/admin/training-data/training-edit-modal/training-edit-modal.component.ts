@@ -83,7 +83,14 @@ export class TrainingEditModalComponent implements OnChanges {
       training_notes: this.formTrainingNotes,
       disease_classification: this.formDiseaseClassification,
     };
-    this.trainingDataService.patchTrainingDetail(this.imageId, payload).subscribe({
+    const before: TrainingDataPatchRequest | undefined = this.detail
+      ? {
+          training_ready: this.detail.training_ready,
+          training_notes: this.detail.training_notes,
+          disease_classification: this.detail.disease_classification,
+        }
+      : undefined;
+    this.trainingDataService.patchTrainingDetail(this.imageId, payload, before).subscribe({
       next: (res) => {
         this.saving = false;
         if (res.success) {
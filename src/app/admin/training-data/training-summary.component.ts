@@ -7,11 +7,15 @@ import { TrainingDataState } from '../../services/training-data.state';
 import { TrainingDataSummary, TrainingClassBreakdown } from '../../services/training-data.interfaces';
 import { MangoDiseaseService, RetrainDatasetInfo } from '../../services/mango-disease.service';
 import { forkJoin } from 'rxjs';
+import { ClassBalanceComponent } from './class-balance/class-balance.component';
+import { DatasetImportComponent } from './dataset-import/dataset-import.component';
+import { DatasetExportComponent } from './dataset-export/dataset-export.component';
+import { ImageQualityReport, ImageQualityService } from '../../services/image-quality.service';
 
 @Component({
   selector: 'app-training-summary',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, ClassBalanceComponent, DatasetImportComponent, DatasetExportComponent],
   templateUrl: './training-summary.component.html',
   styleUrls: ['./training-summary.component.css'],
 })
@@ -27,6 +31,7 @@ export class TrainingSummaryComponent implements OnInit {
     private trainingDataService: TrainingDataService,
     private trainingDataState: TrainingDataState,
     private mangoService: MangoDiseaseService,
+    private qualityService: ImageQualityService,
   ) {}
 
   ngOnInit(): void {
@@ -113,6 +118,13 @@ export class TrainingSummaryComponent implements OnInit {
   importResultMsg       = '';
   importResultIsError   = false;
 
+  //quality checks run on selection; failing files are left out unless overridden
+  importReports         = new Map<File, ImageQualityReport>();
+  importOverrides       = new Map<File, boolean>();
+  importSkipFailing     = true;
+  isCheckingQuality     = false;
+  private qualityCheckRun = 0;  // bumped per selection so an older check stops
+
   get importClassOptions(): string[] {
     return this.importDiseaseType === 'fruit' ? this.FRUIT_CLASSES : this.LEAF_CLASSES;
   }
@@ -127,15 +139,79 @@ export class TrainingSummaryComponent implements OnInit {
     if (input.files) {
       this.importSelectedFiles = Array.from(input.files);
       this.importResultMsg     = '';
+      this.importReports       = new Map();
+      this.importOverrides     = new Map();
+      this.checkImportQuality();
     }
   }
 
   removeImportFile(index: number): void {
+    const file = this.importSelectedFiles[index];
     this.importSelectedFiles = this.importSelectedFiles.filter((_, i) => i !== index);
+    this.importReports.delete(file);
+    this.importOverrides.delete(file);
+  }
+
+  //one file at a time so a large selection doesn't decode dozens of photos at once
+  async checkImportQuality(): Promise<void> {
+    const run = ++this.qualityCheckRun;
+    this.isCheckingQuality = true;
+    for (const file of this.importSelectedFiles) {
+      if (run !== this.qualityCheckRun) return;  // selection replaced mid-check
+      if (!this.importSelectedFiles.includes(file)) continue;  // removed while waiting
+      let report: ImageQualityReport;
+      try {
+        report = await this.qualityService.analyze(file);
+      } catch {
+        report = {
+          status: 'warn', width: null, height: null, sharpness: null, brightness: null, orientation: null,
+          issues: [{ check: 'decode', status: 'warn', message: 'Quality could not be checked' }],
+        };
+      }
+      if (run === this.qualityCheckRun && this.importSelectedFiles.includes(file)) {
+        this.importReports.set(file, report);
+      }
+    }
+    if (run === this.qualityCheckRun) this.isCheckingQuality = false;
+  }
+
+  importReport(file: File): ImageQualityReport | undefined {
+    return this.importReports.get(file);
+  }
+
+  isImportIncluded(file: File): boolean {
+    const override = this.importOverrides.get(file);
+    if (override !== undefined) return override;
+    return !(this.importSkipFailing && this.importReports.get(file)?.status === 'fail');
+  }
+
+  toggleImportFile(file: File): void {
+    this.importOverrides.set(file, !this.isImportIncluded(file));
+  }
+
+  //back to the pass/warn/fail decision for every file
+  resetImportOverrides(): void {
+    this.importOverrides = new Map();
+  }
+
+  get importFilesToUpload(): File[] {
+    return this.importSelectedFiles.filter(f => this.isImportIncluded(f));
+  }
+
+  importCount(status: 'pass' | 'warn' | 'fail'): number {
+    return this.importSelectedFiles.filter(f => this.importReports.get(f)?.status === status).length;
+  }
+
+  importIssueSummary(file: File): string {
+    const report = this.importReports.get(file);
+    if (!report) return 'Checking…';
+    const size = report.width ? `${report.width}×${report.height}` : '';
+    return [size, ...report.issues.map(i => i.message)].filter(Boolean).join(' · ') || 'Looks good';
   }
 
   submitBulkImport(): void {
-    if (!this.importClassification || this.importSelectedFiles.length === 0) return;
+    const files = this.importFilesToUpload;
+    if (!this.importClassification || files.length === 0 || this.isCheckingQuality) return;
 
     this.isImporting      = true;
     this.importResultMsg  = '';
@@ -144,7 +220,7 @@ export class TrainingSummaryComponent implements OnInit {
     fd.append('disease_type',          this.importDiseaseType);
     fd.append('disease_classification', this.importClassification);
     fd.append('training_ready',        String(this.importMarkReady));
-    this.importSelectedFiles.forEach(f => fd.append('images', f, f.name));
+    files.forEach(f => fd.append('images', f, f.name));
 
     this.trainingDataService.bulkImport(fd).subscribe({
       next: (res) => {
@@ -153,6 +229,8 @@ export class TrainingSummaryComponent implements OnInit {
         this.importResultMsg     = res.message;
         if (res.created > 0) {
           this.importSelectedFiles = [];
+          this.importReports       = new Map();
+          this.importOverrides     = new Map();
           this.ngOnInit();
         }
       },
@@ -2,6 +2,7 @@ import { Component, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import { UserManagementService, User, UserWithImages, UserStats } from '../../services/user-management.service';
 import { MangoImage } from '../../services/mango-disease.service';
+import { PermissionService, Permission } from '../../services/permission.service';
 
 interface UserFolder {
   user: User;
@@ -57,7 +58,8 @@ export class UserManagementComponent implements OnInit {
 
   constructor(
     private userManagementService: UserManagementService,
-    private router: Router
+    private router: Router,
+    private permissionService: PermissionService
   ) {}
 
   ngOnInit() {
@@ -273,8 +275,17 @@ export class UserManagementComponent implements OnInit {
     });
   }
 
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
   async toggleUserStatus(user: User, event: Event) {
     event.stopPropagation(); //prevent expand
+
+    if (!this.can('manage_users')) {
+      this.showError('You do not have permission to change user status.');
+      return;
+    }
     
     const action = user.is_active ? 'disable' : 'enable';
     const confirmed = confirm(`Are you sure you want to ${action} user "${this.getUserDisplayName(user)}"? This will ${user.is_active ? 'prevent them from logging in' : 'allow them to log in again'}.`);
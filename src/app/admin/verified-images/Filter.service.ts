@@ -1,5 +1,4 @@
 import { Injectable } from '@angular/core';
-import { MangoImage } from '../../services/mango-disease.service';
 import { VerifiedDiseaseFolder, MainFolder } from './images.interfaces';
 
 @Injectable({
@@ -10,8 +9,7 @@ export class FilterService {
         mainFolders: MainFolder[],
         filterType: 'all' | 'leaf' | 'fruit',
         searchTerm: string,
-        sortBy: 'disease' | 'count' | 'date',
-        dateRange: 'all' | 'week' | 'month' | 'year'
+        sortBy: 'disease' | 'count' | 'date'
     ):MainFolder[]{
         if (!mainFolders || mainFolders.length === 0) {
             return [];
@@ -25,8 +23,7 @@ export class FilterService {
             const filteredSubFolders = this.filterSubFolders(
                 originalSubFolders,
                 filterType,
-                searchTerm,
-                dateRange    
+                searchTerm
             )
             
             const sortedSubFolders = this.applySorting(filteredSubFolders, sortBy);
@@ -43,11 +40,11 @@ export class FilterService {
         return mainFolders;
     }
 
+    //date range is applied by the api when the folder counts are loaded
     filterSubFolders(
         subFolders: VerifiedDiseaseFolder[],
         filterType: 'all' | 'leaf' | 'fruit',
-        searchTerm: string,
-        dateRange: 'all' | 'week' | 'month' | 'year'
+        searchTerm: string
     ): VerifiedDiseaseFolder[] {
         let filtered = subFolders;
 
@@ -60,48 +57,10 @@ export class FilterService {
                 folder.disease.toLowerCase().includes(term)
             );
         }
-        if(dateRange !== 'all'){
-            filtered = this.applyDateFilter(filtered, dateRange);
-        }
 
         return filtered;
     }
 
-    applyDateFilter(
-        folders: VerifiedDiseaseFolder[],
-        dateRange: 'all' | 'week' | 'month' | 'year'
-    ):VerifiedDiseaseFolder[]{
-        if(dateRange === 'all'){
-            return folders;
-        }
-        const now = new Date();
-        const cutoffDate = new Date();
-
-        switch(dateRange){
-            case 'week':
-                cutoffDate.setDate(now.getDate() - 7);
-                break;
-            case 'month':
-                cutoffDate.setMonth(now.getMonth() - 1);
-                break;
-            case 'year':
-                cutoffDate.setFullYear(now.getFullYear() - 1);
-                break;
-        }
-
-        return folders.map(folder =>{
-            const filteredImages = folder.images.filter(images =>{
-                new Date(images.uploaded_at) >= cutoffDate;
-            })
-            return {
-                ...folder,
-                images: filteredImages,
-                count: filteredImages.length
-
-            };
-        }).filter(folder => folder.images.length > 0); //only folders with images
-    }
-
     applySorting(
         folders: VerifiedDiseaseFolder[],
         sortBy: 'disease' | 'count' | 'date'
@@ -116,8 +75,8 @@ export class FilterService {
                 return sorted.sort((a, b) => b.count - a.count);
             case 'date':
                 return sorted.sort((a, b) => {
-                    const dateA = new Date( a.images[0]?.uploaded_at || '');
-                    const dateB = new Date( b.images[0]?.uploaded_at || '');
+                    const dateA = new Date( a.latestUpload || '');
+                    const dateB = new Date( b.latestUpload || '');
                     return new Date(dateB).getTime() - new Date(dateA).getTime();
                 });
             default:
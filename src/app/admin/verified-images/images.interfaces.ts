@@ -2,12 +2,17 @@ import { MangoImage } from '../../services/mango-disease.service';
 
 export interface VerifiedDiseaseFolder {
   disease: string;
-  count: number;
-  images: MangoImage[];
+  diseaseName: string; //raw class name sent to the api, disease is the display label
+  count: number; //from the folder-counts endpoint, not images.length
+  images: MangoImage[]; //pages loaded so far
   expanded: boolean;
   diseaseType: 'leaf' | 'fruit' | 'unknown';
   downloading: boolean;
   verificationStatus?: 'all' | 'verified' | 'unverified' | 'unknown';
+  latestUpload: string | null;
+  page: number; //last loaded page, 0 = nothing loaded yet
+  hasMore: boolean;
+  loadingImages: boolean;
 }
 
 export interface MainFolder {
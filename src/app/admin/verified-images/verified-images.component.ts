@@ -1,7 +1,7 @@
 import { Component, OnInit, ChangeDetectorRef } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { firstValueFrom } from 'rxjs';
-import { MangoDiseaseService, MangoImage } from '../../services/mango-disease.service';
+import { MangoDiseaseService, MangoImage, ImageFolderCount } from '../../services/mango-disease.service';
 import { DownloadService } from '../../services/download.service';
 import { AuthService } from '../../services/auth.service';
 import JSZip from 'jszip';
@@ -12,6 +12,8 @@ import { environment } from '../../../environments/environment';
 import { ButtonsService } from './buttons.service';
 import { TrainingDataService } from '../../services/training-data.service';
 import { TrainingDataState } from '../../services/training-data.state';
+import { PermissionService, Permission } from '../../services/permission.service';
+import { UndoService } from '../../services/undo.service';
 
 
 @Component({
@@ -55,129 +57,139 @@ export class VerifiedImagesComponent implements OnInit {
   
   //below 50 confidence = unknown
   private readonly UNKNOWN_CONFIDENCE_THRESHOLD = 50; 
+
+  //folder paging + virtual scroll
+  readonly PAGE_SIZE = 50;
+  readonly ROW_HEIGHT = 72; //px, must match .image-row in the css
+  readonly VISIBLE_ROWS = 8;
+  private readonly PREFETCH_ROWS = 20;
   
   //filter stuff
   filterType: 'all' | 'leaf' | 'fruit' = 'all';
   searchTerm = '';
   sortBy: 'disease' | 'count' | 'date' = 'disease';
   dateRange: 'all' | 'week' | 'month' | 'year' = 'all';
+  trainingFilter: 'all' | 'ready' | 'not_ready' = 'all';
 
   constructor(
     private mangoDiseaseService: MangoDiseaseService,
     private downloadService: DownloadService,
     private router: Router,
+    private route: ActivatedRoute,
     private cdr: ChangeDetectorRef,
     private authService: AuthService,
     private filterService: FilterService,
     private trainingDataService: TrainingDataService,
     private trainingDataState: TrainingDataState,
-    private buttonsService: ButtonsService
+    private buttonsService: ButtonsService,
+    private permissionService: PermissionService,
+    private undoService: UndoService
   ) {}
 
-  ngOnInit() {
-    this.loadAllImages();
+  async ngOnInit() {
+    const linkedFolder = this.applyQueryParams();
+    await this.loadFolderCounts();
+    if (linkedFolder) {
+      this.openLinkedFolder();
+    }
+  }
+
+  //links from other pages (e.g. the class balance analyzer) can preset the filters
+  private applyQueryParams(): boolean {
+    const params = this.route.snapshot.queryParamMap;
+    const type = params.get('type');
+    const disease = params.get('disease');
+    const training = params.get('training');
+
+    if (type === 'leaf' || type === 'fruit') this.filterType = type;
+    if (disease) this.searchTerm = disease;
+    if (training === 'ready' || training === 'not_ready') this.trainingFilter = training;
+    return !!disease;
+  }
+
+  //expand the verified folder the link pointed at so its images are on screen straight away
+  private openLinkedFolder() {
+    const verified = this.getFilteredMainFolders().find(f => f.type === 'verified');
+    if (!verified) return;
+
+    verified.expanded = true;
+    const term = this.searchTerm.toLowerCase();
+    const folder = verified.subFolders.find(f => f.diseaseName.toLowerCase() === term) ?? verified.subFolders[0];
+    if (folder && !folder.expanded) {
+      this.toggleFolder(folder);
+    }
+    this.cdr.detectChanges();
   }
 
-  async loadAllImages() {
+  //folder tree comes from server-side counts, images are fetched per folder when it is opened
+  async loadFolderCounts() {
     try {
       //show loading
       this.loading = true;
       this.error = null;
 
-      
-      //cache busting to get fresh data
-      const timestamp = new Date().getTime();
-      
-      
       const response = await firstValueFrom(
-        this.mangoDiseaseService.getClassifiedImages({
-          _t: timestamp 
-        }),
+        this.mangoDiseaseService.getImageFolderCounts(this.buildServerFilters())
       );
 
-      //check if we got images
-      if (!response || !response.images) {
+      //check if we got counts
+      if (!response || !response.success || !response.data) {
         this.error = 'No images found';
         this.loading = false;
         return;
       }
 
-      //get all images
-      const allImages = response.images;
-      this.totalAllCount = allImages.length;
-      
-      //sort into categories
-      const verifiedImages: MangoImage[] = [];
-      const unverifiedImages: MangoImage[] = [];
-      const unknownImages: MangoImage[] = [];
-      
-
-      //put images in right category
-      for (let i = 0; i < allImages.length; i++) {
-        const image = allImages[i];
-        const confidence = this.getConfidenceScore(image);
-        
-     
-        if (confidence < this.UNKNOWN_CONFIDENCE_THRESHOLD) {
-          unknownImages.push(image);
-        } else {
-          if (image.is_verified === true) {
-            verifiedImages.push(image);
-          } else {
-            unverifiedImages.push(image);
-          }
-        }
-      }
-      
       //update counts
-      this.totalVerifiedCount = verifiedImages.length;
-      this.totalUnverifiedCount = unverifiedImages.length;
-      this.totalUnknownCount = unknownImages.length;
-      
+      const totals = response.data.totals;
+      this.totalAllCount = totals.all;
+      this.totalVerifiedCount = totals.verified;
+      this.totalUnverifiedCount = totals.unverified;
+      this.totalUnknownCount = totals.unknown;
+
       //make folders
-      this.createMainFolders(allImages, verifiedImages, unverifiedImages, unknownImages);
-      
+      this.createMainFolders(response.data.folders);
+
       //force change detection
       this.cdr.detectChanges();
-      
+
       //disable loading state
       this.loading = false;
 
     } catch (error) {
       console.error('Error loading images:', error);
-      
+
       //kick out if not logged in
       if (error && typeof error === 'object' && 'status' in error && error.status === 401) {
-        this.authService.logout(); 
+        this.authService.logout();
         this.router.navigate(['/login']);
         return;
       }
-      
+
       //show error
       this.error = 'Failed to load images. Please try again.';
       this.loading = false;
     }
   }
 
-  createMainFolders(allImages: MangoImage[], verifiedImages: MangoImage[], unverifiedImages: MangoImage[], unknownImages: MangoImage[]) {
-    const allSubFolders = this.groupImagesByDisease(allImages, 'all');
-    const verifiedSubFolders = this.groupImagesByDisease(verifiedImages, 'verified');
-    const unverifiedSubFolders = this.groupImagesByDisease(unverifiedImages, 'unverified');
-    const unknownSubFolders = this.groupImagesByDisease(unknownImages, 'unknown');
-    
+  createMainFolders(counts: ImageFolderCount[]) {
+    const allSubFolders = this.buildSubFolders(counts, 'all');
+    const verifiedSubFolders = this.buildSubFolders(counts.filter(c => c.status === 'verified'), 'verified');
+    const unverifiedSubFolders = this.buildSubFolders(counts.filter(c => c.status === 'unverified'), 'unverified');
+    const unknownSubFolders = this.buildSubFolders(counts.filter(c => c.status === 'unknown'), 'unknown');
+
     this.mainFolders = [
       {
         name: 'All Images',
-        count: allImages.length,
+        count: this.sumCounts(allSubFolders),
         expanded: false,
         type: 'all',
         //for filtering
-        subFolders: [...allSubFolders], 
-        originalSubFolders: allSubFolders 
+        subFolders: [...allSubFolders],
+        originalSubFolders: allSubFolders
       },
       {
         name: 'Verified Images',
-        count: verifiedImages.length,
+        count: this.sumCounts(verifiedSubFolders),
         expanded: false,
         type: 'verified',
         subFolders: [...verifiedSubFolders],
@@ -185,7 +197,7 @@ export class VerifiedImagesComponent implements OnInit {
       },
       {
         name: 'Unverified Images',
-        count: unverifiedImages.length,
+        count: this.sumCounts(unverifiedSubFolders),
         expanded: false,
         type: 'unverified',
         subFolders: [...unverifiedSubFolders],
@@ -193,112 +205,65 @@ export class VerifiedImagesComponent implements OnInit {
       },
       {
         name: 'Unknown Images',
-        count: unknownImages.length,
+        count: this.sumCounts(unknownSubFolders),
         expanded: false,
         type: 'unknown',
         subFolders: [...unknownSubFolders],
         originalSubFolders: unknownSubFolders
       }
     ];
-    
+
     // For backward compatibility, also populate the old diseaseFolders array with all images
     this.diseaseFolders = this.mainFolders[0].subFolders;
   }
 
-  groupImagesByDisease(images: MangoImage[], verificationStatus: 'all' | 'verified' | 'unverified' | 'unknown'): VerifiedDiseaseFolder[] {
-    const diseaseMap = new Map<string, MangoImage[]>();
+  //merge count rows into one folder per disease + type (the "all" folder sums every status)
+  buildSubFolders(counts: ImageFolderCount[], verificationStatus: 'all' | 'verified' | 'unverified' | 'unknown'): VerifiedDiseaseFolder[] {
+    const folderMap = new Map<string, VerifiedDiseaseFolder>();
 
-    //date filter
-    let filteredImages = images;
-    if (this.dateRange !== 'all') {
-      const now = new Date();
-      const cutoffDate = new Date();
-      
-      switch (this.dateRange) {
-        case 'week':
-          cutoffDate.setDate(now.getDate() - 7);
-          break;
-        case 'month':
-          cutoffDate.setMonth(now.getMonth() - 1);
-          break;
-        case 'year':
-          cutoffDate.setFullYear(now.getFullYear() - 1);
-          break;
-      }
-      
-      filteredImages = images.filter(img => 
-        new Date(img.uploaded_at) >= cutoffDate
-      );
-    }
-
-    filteredImages.forEach(image => {
-      const disease = image.disease_classification || image.predicted_class || 'Unknown';
-      const diseaseType = this.getDiseaseType(image);
-      
-      //make unique key with disease and type
+    counts.forEach(row => {
+      const disease = row.disease || 'Unknown';
+      const diseaseType = row.disease_type || 'unknown';
       const folderKey = `${disease}_${diseaseType}`;
-      
-      if (!diseaseMap.has(folderKey)) {
-        diseaseMap.set(folderKey, []);
+
+      const existing = folderMap.get(folderKey);
+      if (existing) {
+        existing.count += row.count;
+        if (row.latest_upload && (!existing.latestUpload || row.latest_upload > existing.latestUpload)) {
+          existing.latestUpload = row.latest_upload;
+        }
+        return;
       }
-      diseaseMap.get(folderKey)!.push(image);
-    });
 
-    const folders = Array.from(diseaseMap.entries()).map(([folderKey, imgs]) => {
-      const disease = imgs[0].disease_classification || imgs[0].predicted_class || 'Unknown';
-      const diseaseType = this.getDiseaseType(imgs[0]);
-      
-      const displayName = diseaseType !== 'unknown' ? 
-        `${disease} (${diseaseType.charAt(0).toUpperCase() + diseaseType.slice(1)})` : 
+      const displayName = diseaseType !== 'unknown' ?
+        `${disease} (${diseaseType.charAt(0).toUpperCase() + diseaseType.slice(1)})` :
         disease;
-      
-      return {
+
+      folderMap.set(folderKey, {
         disease: displayName,
-        count: imgs.length,
-        images: imgs.sort((a, b) => new Date(b.uploaded_at).getTime() - new Date(a.uploaded_at).getTime()),
+        diseaseName: disease,
+        count: row.count,
+        images: [],
         expanded: false,
         diseaseType: diseaseType,
         downloading: false,
-        verificationStatus
-      };
-    });
-
-    //sort
-    folders.sort((a, b) => {
-      switch (this.sortBy) {
-        case 'count':
-          return b.count - a.count;
-        case 'disease':
-          return a.disease.localeCompare(b.disease);
-        case 'date':
-          return new Date(b.images[0]?.uploaded_at || '').getTime() - 
-                 new Date(a.images[0]?.uploaded_at || '').getTime();
-        default:
-          return 0;
-      }
+        verificationStatus,
+        latestUpload: row.latest_upload,
+        page: 0,
+        hasMore: row.count > 0,
+        loadingImages: false
+      });
     });
 
-    return folders;
+    return this.filterService.applySorting(Array.from(folderMap.values()), this.sortBy);
   }
 
   sortFolders() {
     //update all folders
     this.mainFolders.forEach(mainFolder => {
-      mainFolder.subFolders.sort((a, b) => {
-        switch (this.sortBy) {
-          case 'count':
-            return b.count - a.count;
-          case 'disease':
-            return a.disease.localeCompare(b.disease);
-          case 'date':
-            return new Date(b.images[0]?.uploaded_at || '').getTime() - 
-                   new Date(a.images[0]?.uploaded_at || '').getTime();
-          default:
-            return 0;
-        }
-      });
+      mainFolder.subFolders = this.filterService.applySorting(mainFolder.subFolders, this.sortBy);
     });
-    
+
     //for backward compat
     if (this.mainFolders.length > 0) {
       this.diseaseFolders = this.mainFolders[0].subFolders;
@@ -307,6 +272,101 @@ export class VerifiedImagesComponent implements OnInit {
 
   toggleFolder(folder: VerifiedDiseaseFolder) {
     folder.expanded = !folder.expanded;
+
+    //first open loads the first page
+    if (folder.expanded && folder.page === 0) {
+      this.loadFolderImages(folder);
+    }
+  }
+
+  //fetch the next page of a folder and append it
+  async loadFolderImages(folder: VerifiedDiseaseFolder): Promise<void> {
+    if (folder.loadingImages || !folder.hasMore) return;
+
+    folder.loadingImages = true;
+    try {
+      const response = await firstValueFrom(
+        this.mangoDiseaseService.getClassifiedImages({
+          ...this.buildServerFilters(),
+          status: folder.verificationStatus === 'all' ? '' : folder.verificationStatus,
+          disease: folder.diseaseName,
+          disease_type: folder.diseaseType,
+          ordering: '-uploaded_at',
+          page: folder.page + 1,
+          page_size: this.PAGE_SIZE
+        })
+      );
+
+      //new array so the virtual scroll picks up the change
+      folder.images = [...folder.images, ...response.images];
+      folder.page++;
+      folder.hasMore = response.pagination
+        ? response.pagination.has_next
+        : folder.images.length < folder.count && response.images.length > 0;
+    } catch (error) {
+      console.error('Error loading folder images:', error);
+      this.showError(`Failed to load images for ${folder.disease}.`);
+    } finally {
+      folder.loadingImages = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  //downloads need every image in the folder, not just the pages seen so far
+  async loadAllFolderImages(folder: VerifiedDiseaseFolder): Promise<void> {
+    while (folder.hasMore) {
+      const loadedBefore = folder.images.length;
+      await this.loadFolderImages(folder);
+      if (folder.images.length === loadedBefore) break; //request failed, stop
+    }
+  }
+
+  //virtual scroll: fetch the next page when the user nears the end of what is loaded
+  onFolderScroll(folder: VerifiedDiseaseFolder, firstVisibleIndex: number) {
+    if (firstVisibleIndex + this.PREFETCH_ROWS >= folder.images.length) {
+      this.loadFolderImages(folder);
+    }
+  }
+
+  getViewportHeight(folder: VerifiedDiseaseFolder): number {
+    const rows = Math.max(1, Math.min(folder.images.length, this.VISIBLE_ROWS));
+    return rows * this.ROW_HEIGHT;
+  }
+
+  trackByImageId(index: number, image: MangoImage): number {
+    return image.id;
+  }
+
+  private sumCounts(folders: VerifiedDiseaseFolder[]): number {
+    return folders.reduce((sum, folder) => sum + folder.count, 0);
+  }
+
+  //filters the api applies to both the counts and the folder pages
+  private buildServerFilters(): any {
+    return {
+      date_from: this.getDateFrom(),
+      training_ready: this.trainingFilter === 'all' ? '' : this.trainingFilter === 'ready',
+      unknown_threshold: this.UNKNOWN_CONFIDENCE_THRESHOLD,
+      _t: new Date().getTime() //cache busting to get fresh data
+    };
+  }
+
+  private getDateFrom(): string {
+    if (this.dateRange === 'all') return '';
+
+    const cutoffDate = new Date();
+    switch (this.dateRange) {
+      case 'week':
+        cutoffDate.setDate(cutoffDate.getDate() - 7);
+        break;
+      case 'month':
+        cutoffDate.setMonth(cutoffDate.getMonth() - 1);
+        break;
+      case 'year':
+        cutoffDate.setFullYear(cutoffDate.getFullYear() - 1);
+        break;
+    }
+    return cutoffDate.toISOString().split('T')[0];
   }
 
   toggleMainFolder(mainFolder: MainFolder) {
@@ -319,6 +379,7 @@ export class VerifiedImagesComponent implements OnInit {
   async downloadFolderImages(folder: VerifiedDiseaseFolder) {
     try {
       folder.downloading = true;
+      await this.loadAllFolderImages(folder);
       
       //check for unverified images
       const unverifiedImages = folder.images.filter(img => !img.is_verified);
@@ -392,6 +453,12 @@ export class VerifiedImagesComponent implements OnInit {
       this.downloadingAll = true;
       const zip = new JSZip();
 
+      //folders are paged, pull the rest of every visible folder first
+      const allImagesFolder = this.getFilteredMainFolders().find(f => f.type === 'all');
+      for (const subFolder of allImagesFolder?.subFolders ?? []) {
+        await this.loadAllFolderImages(subFolder);
+      }
+
       //get unique images from visible folders
       const uniqueImagesMap = new Map<number, MangoImage>();
       this.getFilteredMainFolders().forEach(mainFolder => {
@@ -658,7 +725,11 @@ export class VerifiedImagesComponent implements OnInit {
   }
 
   onDateRangeChange() {
-    this.loadAllImages();
+    this.loadFolderCounts();
+  }
+
+  onTrainingFilterChange() {
+    this.loadFolderCounts();
   }
 
   // Individual image download using DownloadService
@@ -699,16 +770,14 @@ export class VerifiedImagesComponent implements OnInit {
       this.mainFolders,
       this.filterType,
       this.searchTerm,
-      this.sortBy,
-      this.dateRange
+      this.sortBy
     );
   }
   filterSubFolders(subFolders: VerifiedDiseaseFolder[]): VerifiedDiseaseFolder[] {
     return this.filterService.filterSubFolders(
       subFolders,
       this.filterType,
-      this.searchTerm,
-      this.dateRange
+      this.searchTerm
     )
   }
   
@@ -721,14 +790,22 @@ export class VerifiedImagesComponent implements OnInit {
       this.filterType,
       this.searchTerm,
       this.dateRange
-    );
+    ) || this.trainingFilter !== 'all';
   }
 
   clearAllFilters(): void {
+    const hadServerFilter = this.dateRange !== 'all' || this.trainingFilter !== 'all';
     this.filterType = 'all';
     this.searchTerm = '';
     this.dateRange = 'all';
+    this.trainingFilter = 'all';
     this.sortBy = 'disease';
+
+    //date range and training status live on the server, so the counts need reloading
+    if (hadServerFilter) {
+      this.loadFolderCounts();
+      return;
+    }
     
     // Force update of filtered data
     this.getFilteredMainFolders();
@@ -770,8 +847,17 @@ export class VerifiedImagesComponent implements OnInit {
   }
 
 
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
   //verify button
   async verifySelectedImages(): Promise<void> {
+    if (!this.can('verify_images')) {
+      this.showError('You do not have permission to verify images.');
+      return;
+    }
+
     if (this.selectedImages.size === 0) {
       this.showError('Please select at least one image to verify.');
       return;
@@ -786,7 +872,7 @@ export class VerifiedImagesComponent implements OnInit {
 
       if (result.success) {
         this.selectedImages = this.buttonsService.deselectAllImages();
-        await this.loadAllImages();
+        await this.loadFolderCounts();
         this.showSuccess(result.message || `${selectedIds.length} image(s) verified successfully.`);
       } else {
         this.showError(result.message || 'Failed to verify images. Please try again.');
@@ -796,8 +882,13 @@ export class VerifiedImagesComponent implements OnInit {
     }
   }
 
-  //unverify button
+  //unverify button - runs now, undo re-verifies the images that were verified before
   async unverifySelectedImages(): Promise<void> {
+    if (!this.can('verify_images')) {
+      this.showError('You do not have permission to unverify images.');
+      return;
+    }
+
     if (this.selectedImages.size === 0) {
       this.showError('Please select at least one image to unverify.');
       return;
@@ -805,51 +896,103 @@ export class VerifiedImagesComponent implements OnInit {
 
     if (!confirm(`Remove verification from ${this.selectedImages.size} selected image(s)?`)) return;
 
+    const selectedIds = this.buttonsService.getSelectedIds(this.selectedImages);
+    const previouslyVerified = selectedIds.filter(id => this.findImageById(id)?.is_verified);
+
     this.updatingSelected = true;
     try {
-      const selectedIds = this.buttonsService.getSelectedIds(this.selectedImages);
-      const result = await this.buttonsService.unverifySelectedImages(selectedIds);
-
-      if (result.success) {
-        this.selectedImages = this.buttonsService.deselectAllImages();
-        await this.loadAllImages();
-        this.showSuccess(result.message || `${selectedIds.length} image(s) unverified successfully.`);
-      } else {
-        this.showError(result.message || 'Failed to unverify images. Please try again.');
-      }
+      await this.undoService.schedule({
+        message: `Unverified ${selectedIds.length} image(s)`,
+        execute: async () => {
+          const result = await this.buttonsService.unverifySelectedImages(selectedIds);
+          if (!result.success) throw new Error(result.message);
+        },
+        compensate: async () => {
+          if (previouslyVerified.length === 0) return;
+          const result = await this.buttonsService.verifySelectedImages(previouslyVerified);
+          if (!result.success) throw new Error(result.message);
+        },
+        onExecuted: () => {
+          this.selectedImages = this.buttonsService.deselectAllImages();
+          this.loadFolderCounts();
+        },
+        onUndone: () => {
+          this.loadFolderCounts();
+          this.showSuccess('Verification restored.');
+        },
+        onFailed: (error) => {
+          this.showError(error?.message || 'Failed to unverify images. Please try again.');
+        },
+      });
     } finally {
       this.updatingSelected = false;
     }
   }
 
-  //delete button
-  async deleteSelectedImages(): Promise<void> {
+  //delete button - images are hidden right away and deleted when the undo window closes
+  deleteSelectedImages(): void {
+    if (!this.can('delete_images')) {
+      this.showError('You do not have permission to delete images.');
+      return;
+    }
+
     if (this.selectedImages.size === 0) {
       this.showError('Please select at least one image to delete.');
       return;
     }
 
-    if (!confirm(`Delete ${this.selectedImages.size} selected image(s)? This cannot be undone.`)) return;
+    if (!confirm(`Delete ${this.selectedImages.size} selected image(s)?`)) return;
 
-    this.updatingSelected = true;
-    try {
-      const selectedIds = this.buttonsService.getSelectedIds(this.selectedImages);
-      const result = await this.buttonsService.deleteSelectedImages(selectedIds);
+    const selectedIds = this.buttonsService.getSelectedIds(this.selectedImages);
+    let resultMessage = '';
 
-      if (result.success) {
-        this.selectedImages = this.buttonsService.deselectAllImages();
-        await this.loadAllImages();
-        this.showSuccess(result.message || `${selectedIds.length} image(s) deleted successfully.`);
-      } else {
-        this.showError(result.message || 'Failed to delete images. Please try again.');
+    this.hideImagesLocally(selectedIds);
+    this.selectedImages = this.buttonsService.deselectAllImages();
+
+    this.undoService.schedule({
+      message: `Deleted ${selectedIds.length} image(s)`,
+      execute: async () => {
+        const result = await this.buttonsService.deleteSelectedImages(selectedIds);
+        if (!result.success) throw new Error(result.message);
+        resultMessage = result.message;
+      },
+      onExecuted: () => {
+        this.loadFolderCounts();
+        this.showSuccess(resultMessage || `${selectedIds.length} image(s) deleted successfully.`);
+      },
+      onUndone: () => {
+        this.loadFolderCounts();
+      },
+      onFailed: (error) => {
+        this.loadFolderCounts();
+        this.showError(error?.message || 'Failed to delete images. Please try again.');
+      },
+    });
+  }
+
+  //drop images from the loaded folders without refetching
+  private hideImagesLocally(imageIds: number[]): void {
+    const ids = new Set(imageIds);
+    for (const mainFolder of this.mainFolders) {
+      for (const folder of mainFolder.originalSubFolders) {
+        const remaining = folder.images.filter(img => !ids.has(img.id));
+        const removed = folder.images.length - remaining.length;
+        if (removed > 0) {
+          folder.images = remaining;
+          folder.count -= removed;
+          mainFolder.count -= removed;
+        }
       }
-    } finally {
-      this.updatingSelected = false;
     }
   }
 
   /** Bulk-approves all currently selected images for model retraining. */
   approveSelectedForTraining(): void {
+    if (!this.can('edit_training_data')) {
+      this.showError('You do not have permission to approve training data.');
+      return;
+    }
+
     const selectedIds = this.buttonsService.getSelectedIds(this.selectedImages);
     
     if (selectedIds.length === 0) {
@@ -895,6 +1038,7 @@ export class VerifiedImagesComponent implements OnInit {
 
   /** Opens the training edit modal for a specific image */
   openTrainingEditModal(imageId: number): void {
+    if (!this.can('edit_training_data')) return;
     this.selectedTrainingImageId = imageId;
   }
 
@@ -912,7 +1056,7 @@ export class VerifiedImagesComponent implements OnInit {
     }
     
     this.selectedTrainingImageId = null;
-    this.loadAllImages();
+    this.loadFolderCounts();
     this.showSuccess('Training data saved.');
   }
 
@@ -2,6 +2,9 @@ import { Component, OnInit } from '@angular/core';
 import { Router, NavigationEnd } from '@angular/router';
 import { AuthService } from './services/auth.service';
 import { NotificationService } from './services/notification.service';
+import { NotificationAlertService } from './services/notification-alert.service';
+import { PermissionService, Permission } from './services/permission.service';
+import { IdleSessionService } from './services/idle-session.service';
 import { filter } from 'rxjs/operators';
 
 @Component({
@@ -18,11 +21,15 @@ export class AppComponent implements OnInit {
   showNotificationPanel = false;
   unreadNotificationCount = 0;
   currentUser: any = null;
+  idleSecondsLeft: number | null = null;
 
   constructor(
     private authService: AuthService,
     private router: Router,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private notificationAlertService: NotificationAlertService,
+    private permissionService: PermissionService,
+    private idleSessionService: IdleSessionService
   ) {}
 
   ngOnInit() {
@@ -32,13 +39,26 @@ export class AppComponent implements OnInit {
         this.isAuthenticated = isAuth;
         this.updateNavigationVisibility();
         
-        // load notifs when logged in
+        // live notifs while logged in
         if (isAuth) {
-          this.notificationService.loadNotifications();
+          this.notificationService.startLiveUpdates();
+          this.notificationAlertService.start();
+          this.idleSessionService.start();
+        } else {
+          this.notificationService.stopLiveUpdates();
+          this.notificationAlertService.stop();
+          this.idleSessionService.stop();
         }
       }
     );
 
+    // idle warning countdown
+    this.idleSessionService.secondsLeft$.subscribe(
+      seconds => {
+        this.idleSecondsLeft = seconds;
+      }
+    );
+
     // get current user
     this.authService.currentUser$.subscribe(
       user => {
@@ -65,9 +85,10 @@ export class AppComponent implements OnInit {
     this.currentUser = this.authService.getCurrentUser();
     this.updateNavigationVisibility();
     
-    // load notifs if already logged in
+    // live notifs if already logged in
     if (this.isAuthenticated) {
-      this.notificationService.loadNotifications();
+      this.notificationService.startLiveUpdates();
+      this.notificationAlertService.start();
     }
   }
 
@@ -76,6 +97,11 @@ export class AppComponent implements OnInit {
     this.showNavigation = this.isAuthenticated && !this.router.url.includes('/login');
   }
 
+  //hide nav links the current role cannot open
+  can(permission: Permission): boolean {
+    return this.permissionService.can(permission);
+  }
+
   toggleMenu() {
     this.isMenuOpen = !this.isMenuOpen;
   }
@@ -142,6 +168,14 @@ export class AppComponent implements OnInit {
     this.router.navigate(['/login']);
   }
 
+  stayLoggedIn() {
+    this.idleSessionService.stayActive();
+  }
+
+  getIdleWarningMessage(): string {
+    return `You have been inactive for a while. You will be logged out in ${this.idleSecondsLeft} seconds.`;
+  }
+
   refreshData() {
     // reload page
     window.location.reload();
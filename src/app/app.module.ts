@@ -8,6 +8,8 @@ import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
 import { LoginComponent } from './login/login.component';
 import { NotificationPanelComponent } from './components/notification-panel/notification-panel.component';
+import { ConfirmDialogComponent } from './components/confirm-dialog/confirm-dialog.component';
+import { UndoToastComponent } from './components/undo-toast/undo-toast.component';
 import { AuthInterceptor } from './interceptors/auth.interceptor';
 
 @NgModule({
@@ -21,7 +23,9 @@ import { AuthInterceptor } from './interceptors/auth.interceptor';
     ReactiveFormsModule,
     HttpClientModule,
     CommonModule,
-    NotificationPanelComponent
+    NotificationPanelComponent,
+    ConfirmDialogComponent,
+    UndoToastComponent
   ],
   providers: [
     {
@@ -17,13 +17,13 @@ import { CommonModule } from '@angular/common';
             (click)="cancelClick.emit()"
             class="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 transition-colors"
           >
-            Cancel
+            {{ cancelLabel }}
           </button>
           <button
             (click)="confirmClick.emit()"
             class="px-4 py-2 rounded-lg text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors"
           >
-            Delete
+            {{ confirmLabel }}
           </button>
         </div>
       </div>
@@ -34,6 +34,8 @@ export class ConfirmDialogComponent {
   @Input() open = false;
   @Input() title = 'Confirm Delete';
   @Input() message = 'This action cannot be undone.';
+  @Input() confirmLabel = 'Delete';
+  @Input() cancelLabel = 'Cancel';
   @Output() confirmClick = new EventEmitter<void>();
   @Output() cancelClick = new EventEmitter<void>();
 }
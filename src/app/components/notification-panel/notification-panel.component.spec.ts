@@ -0,0 +1,99 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { BehaviorSubject, of } from 'rxjs';
+import { NotificationPanelComponent } from './notification-panel.component';
+import { NotificationData, NotificationService } from '../../services/notification.service';
+import { NotificationRule, NotificationRuleService } from '../../services/notification-rule.service';
+import { UndoService } from '../../services/undo.service';
+
+describe('NotificationPanelComponent', () => {
+  let fixture: ComponentFixture<NotificationPanelComponent>;
+  let component: NotificationPanelComponent;
+  let notifications: BehaviorSubject<NotificationData[]>;
+
+  const notification = (id: string, minute: number, matchedRuleIds: number[]): NotificationData => ({
+    id,
+    userId: '1',
+    userName: 'Juan',
+    userEmail: 'juan@example.com',
+    imageId: id,
+    imageName: `${id}.jpg`,
+    timestamp: `2026-10-15T08:${String(minute).padStart(2, '0')}:00Z`,
+    diseaseClassification: 'Anthracnose',
+    diseaseType: 'leaf',
+    detectionType: 'leaf',
+    confidence: 0.9,
+    isRead: false,
+    matchedRuleIds,
+  });
+
+  const rule = (id: number, name: string) => ({ id, name } as NotificationRule);
+
+  beforeEach(() => {
+    notifications = new BehaviorSubject<NotificationData[]>([
+      notification('1', 5, [2, 1]),
+      notification('2', 4, []),
+      notification('3', 3, [2]),
+      notification('4', 2, [9]),
+      notification('5', 1, []),
+    ]);
+    const ruleServiceSpy = jasmine.createSpyObj('NotificationRuleService', ['getRules']);
+    //rules page order: "Low confidence" before "Anthracnose"; rule 9 was deleted
+    ruleServiceSpy.getRules.and.returnValue(of({ success: true, data: [rule(1, 'Low confidence'), rule(2, 'Anthracnose')] }));
+
+    TestBed.configureTestingModule({
+      imports: [NotificationPanelComponent],
+      providers: [
+        {
+          provide: NotificationService,
+          useValue: { notifications$: notifications.asObservable(), transport$: of('off'), isLive: () => true },
+        },
+        { provide: NotificationRuleService, useValue: ruleServiceSpy },
+        { provide: Router, useValue: jasmine.createSpyObj('Router', ['navigate']) },
+        { provide: UndoService, useValue: jasmine.createSpyObj('UndoService', ['schedule']) },
+      ]
+    });
+
+    fixture = TestBed.createComponent(NotificationPanelComponent);
+    component = fixture.componentInstance;
+    component.ngOnInit();
+    component.loadRules();
+  });
+
+  const ids = (items: NotificationData[]) => items.map(n => n.id);
+
+  it('should list only notifications no rule matched under the unmatched filter', () => {
+    component.ruleFilter = 'unmatched';
+    component.onRuleFilterChange();
+
+    expect(ids(component.visibleNotifications)).toEqual(['2', '5']);
+    expect(component.unmatchedCount).toBe(2);
+  });
+
+  it('should filter to one rule, grouping everything under it', () => {
+    component.ruleFilter = 2;
+    component.groupByRule = true;
+    component.onRuleFilterChange();
+
+    expect(ids(component.visibleNotifications)).toEqual(['1', '3']);
+    expect(component.groups.map(g => [g.label, ids(g.items)])).toEqual([['Anthracnose', ['1', '3']]]);
+    expect(component.countForRule(2)).toBe(2);
+  });
+
+  it('should group each notification once, under its first rule in rules page order', () => {
+    component.toggleGroupByRule();
+
+    expect(component.groups.map(g => [g.ruleId, g.label, ids(g.items)])).toEqual([
+      [1, 'Low confidence', ['1']],
+      [2, 'Anthracnose', ['3']],
+      [9, 'Rule #9', ['4']],
+      [null, 'Not matched by a rule', ['2', '5']],
+    ]);
+  });
+
+  it('should keep a single ungrouped list when grouping is off', () => {
+    expect(component.groups.length).toBe(1);
+    expect(component.groups[0].ruleId).toBeNull();
+    expect(ids(component.groups[0].items)).toEqual(['1', '2', '3', '4', '5']);
+  });
+});
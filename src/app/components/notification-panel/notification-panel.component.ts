@@ -1,12 +1,25 @@
 import { Component, OnInit, OnDestroy, OnChanges, Output, EventEmitter, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { NotificationService, NotificationData } from '../../services/notification.service';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { NotificationService, NotificationData, LiveTransport } from '../../services/notification.service';
 import { Router } from '@angular/router';
+import { UndoService } from '../../services/undo.service';
+import { NotificationRule, NotificationRuleService } from '../../services/notification-rule.service';
+
+//'unmatched' = notifications none of the admin's rules fired on
+export type RuleFilter = 'all' | 'unmatched' | number;
+
+export interface NotificationGroup {
+  ruleId: number | null; //null for the unmatched group, or the single ungrouped list
+  label: string;
+  items: NotificationData[];
+}
 
 @Component({
   selector: 'app-notification-panel',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   templateUrl: './notification-panel.component.html',
   styleUrls: ['./notification-panel.component.css']
 })
@@ -21,45 +34,46 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
   selectedNotifications: Set<string> = new Set();
   isSelectionMode = false;
   expandedNotificationId: string | null = null;
-  isLiveMode = false;
-  private previousVisibility = false;
+  transport: LiveTransport = 'off';
+
+  //rule filter + grouping
+  rules: NotificationRule[] = [];
+  ruleFilter: RuleFilter = 'all';
+  groupByRule = false;
+  groups: NotificationGroup[] = [];
+  visibleNotifications: NotificationData[] = [];
+  private subscriptions = new Subscription();
 
   constructor(
     private notificationService: NotificationService,
-    private router: Router
+    private router: Router,
+    private undoService: UndoService,
+    private ruleService: NotificationRuleService
   ) {}
 
   ngOnInit(): void {
-    this.notificationService.notifications$.subscribe(notifications => {
-      this.notifications = notifications.sort((a, b) => 
+    this.subscriptions.add(this.notificationService.notifications$.subscribe(notifications => {
+      this.notifications = [...notifications].sort((a, b) =>
         new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       );
-    });
-    
-    //track visibility
-    this.previousVisibility = this.isVisible;
-    if (this.isVisible) {
-      this.startLiveNotifications();
-    }
+      this.rebuildGroups();
+    }));
+    this.subscriptions.add(this.notificationService.transport$.subscribe(transport => {
+      this.transport = transport;
+    }));
   }
 
   ngOnDestroy(): void {
-    //stop polling when destroyed
-    this.stopLiveNotifications();
+    this.subscriptions.unsubscribe();
   }
 
   ngOnChanges(): void {
-    //when visibility changes
-    if (this.isVisible !== this.previousVisibility) {
-      if (this.isVisible && this.isLiveMode) {
-        //panel visible - start polling
-        this.startLiveNotifications();
-      } else if (!this.isVisible) {
-        //panel hidden - stop polling
-        this.stopLiveNotifications();
-      }
-      this.previousVisibility = this.isVisible;
+    if (!this.isVisible) return;
+    //live updates run for the whole session; opening the panel just catches up
+    if (!this.notificationService.isLive()) {
+      this.notificationService.refreshNotifications();
     }
+    this.loadRules();
   }
 
   onBackClick(): void {
@@ -68,17 +82,6 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
 
   refreshNotifications(): void {
     this.notificationService.refreshNotifications();  //get all notifs
-    
-    //manual refresh - start polling briefly
-    if (!this.isLiveMode && this.isVisible) {
-      this.notificationService.startPolling();
-      //stop after short delay
-      setTimeout(() => {
-        if (!this.isLiveMode) {
-          this.notificationService.stopPolling();
-        }
-      }, 2000);
-    }
   }
 
   onNotificationClick(notification: NotificationData): void {
@@ -135,7 +138,7 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
 
   selectAll(): void {
     this.selectedNotifications.clear();
-    this.notifications.forEach(notification => {
+    this.visibleNotifications.forEach(notification => {
       this.selectedNotifications.add(notification.id);
     });
   }
@@ -148,9 +151,16 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
     if (this.selectedNotifications.size === 0) return;
 
     const selectedIds = Array.from(this.selectedNotifications);
-    this.notificationService.deleteSelectedNotifications(selectedIds);
+    this.notificationService.hideNotifications(selectedIds);
     this.selectedNotifications.clear();
     this.isSelectionMode = false;
+
+    //deleted once the undo window closes
+    this.undoService.schedule({
+      message: `Deleted ${selectedIds.length} notification(s)`,
+      execute: () => this.notificationService.deleteSelectedNotifications(selectedIds),
+      onUndone: () => this.notificationService.unhideNotifications(selectedIds),
+    });
   }
 
   isNotificationSelected(notificationId: string): boolean {
@@ -162,7 +172,7 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
   }
 
   get allSelected(): boolean {
-    return this.notifications.length > 0 && this.selectedNotifications.size === this.notifications.length;
+    return this.visibleNotifications.length > 0 && this.selectedNotifications.size === this.visibleNotifications.length;
   }
 
   formatTimestamp(timestamp: string): string {
@@ -306,27 +316,118 @@ export class NotificationPanelComponent implements OnInit, OnDestroy, OnChanges
     this.selectedNotification = null;
   }
 
-  //live notif stuff
-  startLiveNotifications(): void {
-    if (this.isLiveMode) {
-      this.notificationService.startPolling();
-    }
+  // ── rules ──────────────────────────────────────────────────────────────────
+
+  loadRules(): void {
+    this.ruleService.getRules().subscribe({
+      next: (res) => {
+        this.rules = res.data ?? [];
+        //the filtered rule may have been deleted on the rules page
+        if (typeof this.ruleFilter === 'number' && !this.rules.some(r => r.id === this.ruleFilter)) {
+          this.ruleFilter = 'all';
+        }
+        this.rebuildGroups();
+      },
+      error: () => {} //the panel still works without rule names
+    });
   }
 
-  stopLiveNotifications(): void {
-    this.notificationService.stopPolling();
+  onRuleFilterChange(): void {
+    this.selectedNotifications.clear();
+    this.rebuildGroups();
+  }
+
+  toggleGroupByRule(): void {
+    this.groupByRule = !this.groupByRule;
+    this.rebuildGroups();
+  }
+
+  //the panel only holds recent notifications; older ones live on the history page
+  openHistory(): void {
+    this.close.emit();
+    this.router.navigate(['/admin/notification-history']);
   }
 
+  openRules(): void {
+    this.close.emit();
+    this.router.navigate(['/admin/notification-rules']);
+  }
+
+  ruleName(ruleId: number): string {
+    return this.rules.find(r => r.id === ruleId)?.name ?? `Rule #${ruleId}`;
+  }
+
+  countForRule(ruleId: number): number {
+    return this.notifications.filter(n => n.matchedRuleIds.includes(ruleId)).length;
+  }
+
+  get unmatchedCount(): number {
+    return this.notifications.filter(n => n.matchedRuleIds.length === 0).length;
+  }
+
+  //a notification that matched several rules is listed under the first of them, so it shows once
+  private rebuildGroups(): void {
+    const filter = this.ruleFilter;
+    this.visibleNotifications = this.notifications.filter(n =>
+      filter === 'all' ? true
+        : filter === 'unmatched' ? n.matchedRuleIds.length === 0
+        : n.matchedRuleIds.includes(filter)
+    );
+
+    if (!this.groupByRule) {
+      this.groups = [{ ruleId: null, label: '', items: this.visibleNotifications }];
+      return;
+    }
+
+    //rules page order; rules we have no name for next, unmatched last
+    const order = new Map(this.rules.map((rule, index) => [rule.id, index]));
+    const rank = (ruleId: number | null) =>
+      ruleId === null ? Number.MAX_SAFE_INTEGER : order.get(ruleId) ?? Number.MAX_SAFE_INTEGER - 1;
+
+    const byRule = new Map<number | null, NotificationData[]>();
+    this.visibleNotifications.forEach(notification => {
+      const ruleId = typeof filter === 'number'
+        ? filter
+        : notification.matchedRuleIds.length
+          ? [...notification.matchedRuleIds].sort((a, b) => rank(a) - rank(b))[0]
+          : null;
+      if (!byRule.has(ruleId)) byRule.set(ruleId, []);
+      byRule.get(ruleId)!.push(notification);
+    });
+
+    this.groups = Array.from(byRule.entries())
+      .sort(([a], [b]) => rank(a) - rank(b))
+      .map(([ruleId, items]) => ({
+        ruleId,
+        label: ruleId === null ? 'Not matched by a rule' : this.ruleName(ruleId),
+        items,
+      }));
+  }
+
+  //live notif stuff
   toggleLiveMode(): void {
-    this.isLiveMode = !this.isLiveMode;
-    if (this.isLiveMode) {
-      this.startLiveNotifications();
+    if (this.notificationService.isLive()) {
+      this.notificationService.stopLiveUpdates();
     } else {
-      this.stopLiveNotifications();
+      this.notificationService.startLiveUpdates();
     }
   }
 
-  isLivePolling(): boolean {
-    return this.notificationService.isCurrentlyPolling();
+  get liveLabel(): string {
+    switch (this.transport) {
+      case 'push':       return 'LIVE';
+      case 'polling':    return 'POLL';
+      case 'connecting': return '…';
+      default:           return 'OFF';
+    }
+  }
+
+  get liveTitle(): string {
+    switch (this.transport) {
+      case 'push':       return 'Live notifications ON (click to pause)';
+      case 'polling':    return 'Live connection unavailable, checking every 30 seconds (click to pause)';
+      case 'connecting': return 'Connecting to live notifications… (click to pause)';
+      default:           return 'Live notifications OFF (click to resume)';
+    }
   }
-}
\ No newline at end of file
+}
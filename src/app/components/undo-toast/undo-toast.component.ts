@@ -0,0 +1,87 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription, interval } from 'rxjs';
+import { UndoService, UndoToast } from '../../services/undo.service';
+
+@Component({
+  selector: 'app-undo-toast',
+  imports: [CommonModule],
+  template: `
+    <div class="fixed bottom-5 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-2">
+      <div
+        *ngIf="error"
+        class="flex items-center gap-3 bg-red-600 text-white px-5 py-3 rounded-xl shadow-lg text-sm font-medium"
+      >
+        {{ error }}
+        <button (click)="undoService.dismissError()" class="ml-1 opacity-70 hover:opacity-100">✕</button>
+      </div>
+
+      <div
+        *ngFor="let toast of toasts; trackBy: trackById"
+        class="w-96 bg-gray-900 text-white rounded-xl shadow-lg overflow-hidden"
+      >
+        <div class="flex items-center justify-between gap-4 px-5 py-3 text-sm">
+          <span>{{ toast.message }}</span>
+          <button
+            (click)="undoService.undo(toast.id)"
+            class="font-semibold text-yellow-300 hover:text-yellow-200 uppercase tracking-wide text-xs"
+          >
+            Undo ({{ secondsLeft(toast) }}s)
+          </button>
+        </div>
+        <div class="h-1 bg-gray-700">
+          <div class="h-1 bg-yellow-300 transition-all duration-200" [style.width.%]="progress(toast)"></div>
+        </div>
+      </div>
+    </div>
+  `,
+})
+export class UndoToastComponent implements OnInit, OnDestroy {
+  toasts: UndoToast[] = [];
+  error: string | null = null;
+  now = Date.now();
+
+  private subs: Subscription[] = [];
+  private tickSub?: Subscription;
+
+  constructor(public undoService: UndoService) {}
+
+  ngOnInit(): void {
+    this.subs.push(
+      this.undoService.toasts$.subscribe(toasts => {
+        this.toasts = toasts;
+        this.updateTicker();
+      }),
+      this.undoService.error$.subscribe(error => this.error = error),
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subs.forEach(sub => sub.unsubscribe());
+    this.tickSub?.unsubscribe();
+  }
+
+  secondsLeft(toast: UndoToast): number {
+    return Math.max(0, Math.ceil((toast.expiresAt - this.now) / 1000));
+  }
+
+  progress(toast: UndoToast): number {
+    const total = toast.expiresAt - toast.startedAt;
+    return Math.max(0, ((toast.expiresAt - this.now) / total) * 100);
+  }
+
+  trackById(index: number, toast: UndoToast): number {
+    return toast.id;
+  }
+
+  //only redraw the countdown while a toast is showing
+  private updateTicker(): void {
+    if (this.toasts.length > 0 && !this.tickSub) {
+      this.now = Date.now();
+      this.tickSub = interval(200).subscribe(() => this.now = Date.now());
+    } else if (this.toasts.length === 0 && this.tickSub) {
+      this.tickSub.unsubscribe();
+      this.tickSub = undefined;
+    }
+  }
+}
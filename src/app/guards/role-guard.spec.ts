@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router } from '@angular/router';
+import { RoleGuard } from './role.guard';
+import { AuthService } from '../services/auth.service';
+import { PermissionService } from '../services/permission.service';
+
+describe('RoleGuard', () => {
+  let guard: RoleGuard;
+  let authServiceSpy: jasmine.SpyObj<AuthService>;
+  let permissionServiceSpy: jasmine.SpyObj<PermissionService>;
+  let routerSpy: jasmine.SpyObj<Router>;
+
+  const routeWith = (data: any) => ({ data } as ActivatedRouteSnapshot);
+
+  beforeEach(() => {
+    authServiceSpy = jasmine.createSpyObj('AuthService', ['isLoggedIn']);
+    permissionServiceSpy = jasmine.createSpyObj('PermissionService', ['can']);
+    routerSpy = jasmine.createSpyObj('Router', ['navigate']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        RoleGuard,
+        { provide: AuthService, useValue: authServiceSpy },
+        { provide: PermissionService, useValue: permissionServiceSpy },
+        { provide: Router, useValue: routerSpy }
+      ]
+    });
+
+    guard = TestBed.inject(RoleGuard);
+  });
+
+  it('should be created', () => {
+    expect(guard).toBeTruthy();
+  });
+
+  it('should allow routes without a required permission', () => {
+    authServiceSpy.isLoggedIn.and.returnValue(true);
+
+    expect(guard.canActivate(routeWith({}))).toBeTrue();
+    expect(permissionServiceSpy.can).not.toHaveBeenCalled();
+  });
+
+  it('should allow activation when the role has the permission', () => {
+    authServiceSpy.isLoggedIn.and.returnValue(true);
+    permissionServiceSpy.can.and.returnValue(true);
+
+    expect(guard.canActivate(routeWith({ permission: 'manage_users' }))).toBeTrue();
+    expect(permissionServiceSpy.can).toHaveBeenCalledWith('manage_users');
+    expect(routerSpy.navigate).not.toHaveBeenCalled();
+  });
+
+  it('should redirect to the dashboard when the role lacks the permission', () => {
+    authServiceSpy.isLoggedIn.and.returnValue(true);
+    permissionServiceSpy.can.and.returnValue(false);
+
+    expect(guard.canActivate(routeWith({ permission: 'manage_users' }))).toBeFalse();
+    expect(routerSpy.navigate).toHaveBeenCalledWith(['/admin/dashboard']);
+  });
+
+  it('should redirect to login when user is not logged in', () => {
+    authServiceSpy.isLoggedIn.and.returnValue(false);
+
+    expect(guard.canActivate(routeWith({ permission: 'manage_users' }))).toBeFalse();
+    expect(routerSpy.navigate).toHaveBeenCalledWith(['/login']);
+  });
+});
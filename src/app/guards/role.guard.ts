@@ -0,0 +1,32 @@
+import { Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, CanActivate, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { PermissionService, Permission } from '../services/permission.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RoleGuard implements CanActivate {
+
+  constructor(
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    private router: Router
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot): boolean {
+    if (!this.authService.isLoggedIn()) {
+      this.router.navigate(['/login']);
+      return false;
+    }
+
+    //routes without a permission are open to every role
+    const permission = route.data['permission'] as Permission | undefined;
+    if (!permission || this.permissionService.can(permission)) {
+      return true;
+    }
+
+    this.router.navigate(['/admin/dashboard']);
+    return false;
+  }
+}
@@ -1,25 +1,90 @@
 import { TestBed } from '@angular/core/testing';
+import { HTTP_INTERCEPTORS, HttpClient, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router } from '@angular/router';
+import { Subject, throwError } from 'rxjs';
 import { AuthInterceptor } from './auth.interceptor';
 import { AuthService } from '../services/auth.service';
 
 describe('AuthInterceptor', () => {
   let interceptor: AuthInterceptor;
   let authServiceSpy: jasmine.SpyObj<AuthService>;
+  let routerSpy: jasmine.SpyObj<Router>;
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
 
   beforeEach(() => {
-    authServiceSpy = jasmine.createSpyObj('AuthService', ['getToken']);
+    authServiceSpy = jasmine.createSpyObj('AuthService', ['getToken', 'refreshToken', 'logout']);
+    routerSpy = jasmine.createSpyObj('Router', ['navigate']);
 
     TestBed.configureTestingModule({
       providers: [
         AuthInterceptor,
-        { provide: AuthService, useValue: authServiceSpy }
+        { provide: HTTP_INTERCEPTORS, useExisting: AuthInterceptor, multi: true },
+        { provide: AuthService, useValue: authServiceSpy },
+        { provide: Router, useValue: routerSpy },
+        provideHttpClient(withInterceptorsFromDi()),
+        provideHttpClientTesting()
       ]
     });
 
     interceptor = TestBed.inject(AuthInterceptor);
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
   });
 
   it('should be created', () => {
     expect(interceptor).toBeTruthy();
   });
+
+  it('should attach the bearer token', () => {
+    authServiceSpy.getToken.and.returnValue('old-token');
+
+    http.get('/api/images/').subscribe();
+
+    const req = httpMock.expectOne('/api/images/');
+    expect(req.request.headers.get('Authorization')).toBe('Bearer old-token');
+    req.flush({});
+  });
+
+  it('should refresh once and retry queued requests after a 401', () => {
+    authServiceSpy.getToken.and.returnValue('old-token');
+    const refresh$ = new Subject<{ access: string; refresh: string }>();
+    authServiceSpy.refreshToken.and.returnValue(refresh$);
+
+    const results: any[] = [];
+    http.get('/api/a/').subscribe(res => results.push(res));
+    http.get('/api/b/').subscribe(res => results.push(res));
+
+    httpMock.expectOne('/api/a/').flush(null, { status: 401, statusText: 'Unauthorized' });
+    httpMock.expectOne('/api/b/').flush(null, { status: 401, statusText: 'Unauthorized' });
+    refresh$.next({ access: 'new-token', refresh: 'new-refresh' });
+    refresh$.complete();
+
+    const retries = httpMock.match(req => req.headers.get('Authorization') === 'Bearer new-token');
+    expect(retries.length).toBe(2);
+    retries.forEach(req => req.flush({ ok: true }));
+
+    expect(authServiceSpy.refreshToken).toHaveBeenCalledTimes(1);
+    expect(results.length).toBe(2);
+    expect(authServiceSpy.logout).not.toHaveBeenCalled();
+  });
+
+  it('should log out and redirect when the refresh fails', () => {
+    authServiceSpy.getToken.and.returnValue('old-token');
+    authServiceSpy.refreshToken.and.returnValue(throwError(() => new Error('expired')));
+
+    let failed = false;
+    http.get('/api/a/').subscribe({ error: () => failed = true });
+
+    httpMock.expectOne('/api/a/').flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(failed).toBeTrue();
+    expect(authServiceSpy.logout).toHaveBeenCalled();
+    expect(routerSpy.navigate).toHaveBeenCalledWith(['/login']);
+  });
 });
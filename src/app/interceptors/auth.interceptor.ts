@@ -1,32 +1,42 @@
 import { Injectable } from '@angular/core';
-import { HttpInterceptor, HttpRequest, HttpHandler, HttpResponse } from '@angular/common/http';
+import { HttpInterceptor, HttpRequest, HttpHandler, HttpResponse, HttpErrorResponse, HttpEvent } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, throwError } from 'rxjs';
+import { tap, catchError, filter, take, switchMap } from 'rxjs/operators';
 import { AuthService } from '../services/auth.service';
-import { tap } from 'rxjs/operators';
 
 @Injectable()
 export class AuthInterceptor implements HttpInterceptor {
-  
-  constructor(private authService: AuthService) {}
+  //true while a refresh call is in flight
+  private isRefreshing = false;
+  //new access token once refresh finishes, null while waiting
+  private refreshedToken$ = new BehaviorSubject<string | null>(null);
 
-  intercept(req: HttpRequest<any>, next: HttpHandler) {
+  constructor(private authService: AuthService, private router: Router) {}
+
+  intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
     const token = this.authService.getToken();
-    
+
     //debug logging
-    
+
     if (token) {
-      const authReq = req.clone({
-        headers: req.headers.set('Authorization', `Bearer ${token}`)
-      });
-      
+      const authReq = this.addToken(req, token);
+
       return next.handle(authReq).pipe(
         tap(event => {
           if (event instanceof HttpResponse && req.url.includes('/api/')) {
             console.log('API Response:', req.url, 'Status:', event.status);
           }
+        }),
+        catchError(error => {
+          if (error instanceof HttpErrorResponse && error.status === 401 && !this.isAuthUrl(req.url)) {
+            return this.handleUnauthorized(req, next);
+          }
+          return throwError(() => error);
         })
       );
     }
-    
+
     return next.handle(req).pipe(
       tap(event => {
         if (event instanceof HttpResponse && req.url.includes('/api/')) {
@@ -35,4 +45,46 @@ export class AuthInterceptor implements HttpInterceptor {
       })
     );
   }
+
+  private addToken(req: HttpRequest<any>, token: string): HttpRequest<any> {
+    return req.clone({
+      headers: req.headers.set('Authorization', `Bearer ${token}`)
+    });
+  }
+
+  //login and refresh calls should never trigger another refresh
+  private isAuthUrl(url: string): boolean {
+    return url.includes('/auth/login/') || url.includes('/auth/refresh/');
+  }
+
+  //refresh once, queue everything else until the new token arrives
+  private handleUnauthorized(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+    if (this.isRefreshing) {
+      return this.refreshedToken$.pipe(
+        filter((token): token is string => token !== null),
+        take(1),
+        switchMap(token => next.handle(this.addToken(req, token)))
+      );
+    }
+
+    this.isRefreshing = true;
+    this.refreshedToken$.next(null);
+
+    return this.authService.refreshToken().pipe(
+      catchError(error => {
+        this.isRefreshing = false;
+        //wake queued requests so they fail instead of hanging
+        this.refreshedToken$.error(error);
+        this.refreshedToken$ = new BehaviorSubject<string | null>(null);
+        this.authService.logout();
+        this.router.navigate(['/login']);
+        return throwError(() => error);
+      }),
+      switchMap(response => {
+        this.isRefreshing = false;
+        this.refreshedToken$.next(response.access);
+        return next.handle(this.addToken(req, response.access));
+      })
+    );
+  }
 }
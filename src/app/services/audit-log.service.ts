@@ -0,0 +1,106 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+
+export type AuditAction =
+  | 'image_verification_updated'
+  | 'images_bulk_updated'
+  | 'image_deleted'
+  | 'training_detail_updated'
+  | 'model_settings_updated'
+  | 'model_rollout_updated'
+  | 'retrain_started'
+  | 'user_status_updated';
+
+export const AUDIT_ACTION_LABELS: { [action in AuditAction]: string } = {
+  image_verification_updated: 'Image verification',
+  images_bulk_updated:        'Bulk image update',
+  image_deleted:              'Image deleted',
+  training_detail_updated:    'Training data edited',
+  model_settings_updated:     'Active model changed',
+  model_rollout_updated:      'Model rollout changed',
+  retrain_started:            'Retrain started',
+  user_status_updated:        'User status changed'
+};
+
+export interface AuditEvent {
+  id: number;
+  actor: string;
+  actor_id: number | null;
+  action: AuditAction;
+  target_type: string;
+  target_id: string;
+  before: any;
+  after: any;
+  timestamp: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  target_type: 'image' | 'images' | 'model_settings' | 'model_rollout' | 'retrain' | 'user';
+  target_id: string | number | (string | number)[];
+  before?: any;
+  after?: any;
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: AuditAction | '';
+  date_from?: string;
+  date_to?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface AuditLogPage {
+  results: AuditEvent[];
+  count: number;
+  next: string | null;
+  previous: string | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditLogService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  //fire and forget - a failed audit write should never block the action itself
+  //the server stamps actor and time from the authenticated request
+  record(event: AuditEventInput): void {
+    const targetId = Array.isArray(event.target_id) ? event.target_id.join(',') : String(event.target_id);
+
+    const body = {
+      ...event,
+      target_id: targetId,
+      before: event.before ?? null,
+      after: event.after ?? null
+    };
+
+    this.http.post(`${this.apiUrl}/audit-log/`, body).subscribe({
+      error: (error) => console.error('Error recording audit event:', error)
+    });
+  }
+
+  getEvents(filters: AuditLogFilters = {}): Observable<AuditLogPage> {
+    let params = new HttpParams();
+
+    if (filters.actor) params = params.set('actor', filters.actor);
+    if (filters.action) params = params.set('action', filters.action);
+    if (filters.date_from) params = params.set('date_from', filters.date_from);
+    if (filters.date_to) params = params.set('date_to', filters.date_to);
+    params = params.set('page', String(filters.page || 1));
+    params = params.set('page_size', String(filters.page_size || 25));
+
+    return this.http.get<AuditLogPage>(`${this.apiUrl}/audit-log/`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching audit log:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+}
@@ -5,6 +5,8 @@ import { tap, catchError } from 'rxjs/operators';
 import { isPlatformBrowser } from '@angular/common';
 import { environment } from '../../environments/environment';
 
+export type UserRole = 'viewer' | 'reviewer' | 'trainer' | 'superuser';
+
 export interface LoginRequest {
   username: string;
   password: string;
@@ -18,11 +20,18 @@ export interface LoginResponse {
     id: number;
     username: string;
     is_superuser: boolean;
+    is_staff?: boolean;
+    role?: UserRole;
     email: string;
   };
   error?: string;
 }
 
+export interface RefreshResponse {
+  access: string;
+  refresh?: string;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -62,6 +71,31 @@ export class AuthService {
       );
   }
 
+  //swap refresh token for a new access token
+  refreshToken(): Observable<RefreshResponse> {
+    const refreshUrl = `${this.apiUrl}/auth/refresh/`;
+    const refresh = this.getRefreshToken();
+
+    if (!refresh) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    return this.http.post<RefreshResponse>(refreshUrl, { refresh })
+      .pipe(
+        tap(response => {
+          this.setToken(response.access);
+          //backend rotates refresh tokens - keep the new one if sent
+          if (response.refresh) {
+            this.setRefreshToken(response.refresh);
+          }
+        }),
+        catchError((error: HttpErrorResponse) => {
+          console.error('Token refresh error:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   logout(): void {
     if (isPlatformBrowser(this.platformId)) {
       localStorage.removeItem('access_token');
@@ -79,6 +113,13 @@ export class AuthService {
     return null;
   }
 
+  getRefreshToken(): string | null {
+    if (isPlatformBrowser(this.platformId)) {
+      return localStorage.getItem('refresh_token');
+    }
+    return null;
+  }
+
   getCurrentUser(): any {
     if (isPlatformBrowser(this.platformId)) {
       const userStr = localStorage.getItem('current_user');
@@ -0,0 +1,79 @@
+import { Injectable } from '@angular/core';
+
+export type BalanceFlag = 'below_minimum' | 'over_represented' | 'ok';
+
+export interface ClassBalance {
+  disease_classification: string;
+  count: number;
+  //share of this plant part's training images, 0-1
+  share: number;
+  flag: BalanceFlag;
+  needed: number;
+}
+
+export interface DatasetBalance {
+  disease_type: 'leaf' | 'fruit';
+  total: number;
+  min_images_per_class: number;
+  //count every class should reach to be trainable and not dwarfed by the largest class
+  target: number;
+  //largest class over smallest, null with fewer than two non-empty classes
+  imbalance_ratio: number | null;
+  classes: ClassBalance[];
+}
+
+//a class this many times the median class size starts to dominate training
+export const OVER_REPRESENTED_FACTOR = 3;
+//smallest class should be at least this fraction of the largest one
+export const BALANCE_TARGET_FRACTION = 1 / 3;
+
+/** Class distribution checks for the training set of one plant part. */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetBalanceService {
+
+  analyze(diseaseType: 'leaf' | 'fruit', counts: { [cls: string]: number }, minImagesPerClass: number): DatasetBalance {
+    const entries = Object.entries(counts);
+    const total = entries.reduce((sum, [, count]) => sum + count, 0);
+    const sizes = entries.map(([, count]) => count).sort((a, b) => a - b);
+    const largest = sizes.length ? sizes[sizes.length - 1] : 0;
+    const median = this.median(sizes);
+
+    const target = Math.max(minImagesPerClass, Math.ceil(largest * BALANCE_TARGET_FRACTION));
+    const nonEmpty = sizes.filter(count => count > 0);
+
+    const classes = entries
+      .map(([cls, count]): ClassBalance => {
+        let flag: BalanceFlag = 'ok';
+        if (count < minImagesPerClass) {
+          flag = 'below_minimum';
+        } else if (entries.length > 2 && median > 0 && count >= median * OVER_REPRESENTED_FACTOR) {
+          flag = 'over_represented';
+        }
+        return {
+          disease_classification: cls,
+          count,
+          share: total ? count / total : 0,
+          flag,
+          needed: Math.max(0, target - count),
+        };
+      })
+      .sort((a, b) => b.count - a.count || a.disease_classification.localeCompare(b.disease_classification));
+
+    return {
+      disease_type: diseaseType,
+      total,
+      min_images_per_class: minImagesPerClass,
+      target,
+      imbalance_ratio: nonEmpty.length > 1 ? nonEmpty[nonEmpty.length - 1] / nonEmpty[0] : null,
+      classes,
+    };
+  }
+
+  private median(sorted: number[]): number {
+    if (!sorted.length) return 0;
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+}
@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import { DatasetExportService, ExportSplit } from './dataset-export.service';
+import { MangoDiseaseService, MangoImage } from './mango-disease.service';
+
+describe('DatasetExportService', () => {
+  let service: DatasetExportService;
+
+  const ratios: Record<ExportSplit, number> = { train: 70, val: 15, test: 15 };
+
+  const image = (id: number, diseaseType: 'leaf' | 'fruit', label: string) =>
+    ({ id, disease_type: diseaseType, disease_classification: label } as MangoImage);
+
+  const dataset = (): MangoImage[] => [
+    ...Array.from({ length: 20 }, (_, i) => image(i + 1, 'leaf', 'Anthracnose')),
+    ...Array.from({ length: 20 }, (_, i) => image(i + 101, 'leaf', 'Healthy')),
+    ...Array.from({ length: 10 }, (_, i) => image(i + 201, 'fruit', 'Healthy')),
+  ];
+
+  const countBy = (images: MangoImage[], splits: Map<number, ExportSplit>, split: ExportSplit) =>
+    images.filter(i => splits.get(i.id) === split).length;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MangoDiseaseService, useValue: jasmine.createSpyObj('MangoDiseaseService', ['getClassifiedImages']) }
+      ]
+    });
+
+    service = TestBed.inject(DatasetExportService);
+  });
+
+  it('should give the same split for the same seed, whatever the input order', () => {
+    const images = dataset();
+    const first = service.assignSplits(images, ratios, 42);
+    const again = service.assignSplits([...images].reverse(), ratios, 42);
+
+    expect(Array.from(again.entries()).sort()).toEqual(Array.from(first.entries()).sort());
+  });
+
+  it('should give a different split for a different seed', () => {
+    const images = dataset();
+    const a = service.assignSplits(images, ratios, 1);
+    const b = service.assignSplits(images, ratios, 2);
+
+    expect(images.some(i => a.get(i.id) !== b.get(i.id))).toBeTrue();
+  });
+
+  it('should stratify by plant part and class', () => {
+    const images = dataset();
+    const splits = service.assignSplits(images, ratios, 7);
+
+    const leafAnthracnose = images.slice(0, 20);
+    const leafHealthy = images.slice(20, 40);
+    const fruitHealthy = images.slice(40);
+
+    [leafAnthracnose, leafHealthy].forEach(members => {
+      expect(countBy(members, splits, 'train')).toBe(14);
+      expect(countBy(members, splits, 'val')).toBe(3);
+      expect(countBy(members, splits, 'test')).toBe(3);
+    });
+    //same label, other plant part: its own stratum
+    expect(countBy(fruitHealthy, splits, 'train')).toBe(7);
+    expect(countBy(fruitHealthy, splits, 'val') + countBy(fruitHealthy, splits, 'test')).toBe(3);
+    expect(splits.size).toBe(images.length);
+  });
+
+  it('should quote CSV cells and keep text from being read as a formula', () => {
+    const csv = service.toCsv([{
+      id: 1,
+      file: null,
+      original_filename: '=HYPERLINK("x")\r.jpg',
+      label: '@Scab',
+      plant_part: 'leaf',
+      split: 'train',
+      selected_symptoms: ['-spots', 'lesions'],
+      latitude: 14.5,
+      longitude: -121.3,
+      uploaded_at: '2026-10-15T08:00:00Z',
+    }], { format: 'csv', plantPart: 'all', ratios, seed: 1, includeImages: false, includeGps: true });
+
+    expect(csv.split('\n')[1].split(',')).toEqual([
+      '1', '', `"'=HYPERLINK(""x"")\r.jpg"`, "'@Scab", 'leaf', 'train', "'-spots;lesions", '2026-10-15T08:00:00Z', '14.5', '-121.3',
+    ]);
+  });
+});
@@ -0,0 +1,297 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import JSZip from 'jszip';
+import { MangoDiseaseService, MangoImage } from './mango-disease.service';
+
+export type ExportFormat = 'imagefolder' | 'csv' | 'jsonl';
+export type ExportSplit = 'train' | 'val' | 'test';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  plantPart: 'all' | 'leaf' | 'fruit';
+  //percentages, summing to 100
+  ratios: Record<ExportSplit, number>;
+  seed: number;
+  //csv/jsonl can be shipped as labels only, pointing at the image ids
+  includeImages: boolean;
+  includeGps: boolean;
+}
+
+export interface ExportRecord {
+  id: number;
+  //path inside the archive, null when images are left out
+  file: string | null;
+  original_filename: string;
+  label: string;
+  plant_part: 'leaf' | 'fruit';
+  split: ExportSplit;
+  selected_symptoms: string[];
+  latitude: number | null;
+  longitude: number | null;
+  uploaded_at: string;
+}
+
+export interface ExportProgress {
+  phase: 'listing' | 'images' | 'packing';
+  done: number;
+  total: number;
+}
+
+export const EXPORT_SPLITS: ExportSplit[] = ['train', 'val', 'test'];
+
+const PAGE_SIZE = 200;
+
+/** Packages training-ready images as a reproducible dataset: fixed-seed splits, labels and a dataset card. */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetExportService {
+
+  constructor(private mangoDiseaseService: MangoDiseaseService) {}
+
+  async export(options: ExportOptions, onProgress: (p: ExportProgress) => void, cancelled: () => boolean): Promise<Blob | null> {
+    const images = await this.fetchTrainingImages(options.plantPart, onProgress, cancelled);
+    if (cancelled()) return null;
+    if (!images.length) {
+      throw new Error('There are no training-ready images to export.');
+    }
+
+    const splits = this.assignSplits(images, options.ratios, options.seed);
+    const exportedAt = new Date();
+    const records = images.map(image => this.toRecord(image, splits.get(image.id)!, options));
+
+    const zip = new JSZip();
+    if (options.format === 'imagefolder') {
+      zip.file('manifest.json', JSON.stringify(this.manifest(records, options, exportedAt), null, 2));
+    } else if (options.format === 'csv') {
+      zip.file('labels.csv', this.toCsv(records, options));
+    } else {
+      zip.file('labels.jsonl', this.toJsonl(records, options));
+    }
+    zip.file('README.md', this.datasetCard(records, options, exportedAt));
+
+    if (options.format === 'imagefolder' || options.includeImages) {
+      const byId = new Map(images.map(image => [image.id, image]));
+      let done = 0;
+      for (const record of records) {
+        if (cancelled()) return null;
+        const response = await fetch(this.mangoDiseaseService.getImageUrl(byId.get(record.id)!));
+        if (!response.ok) {
+          throw new Error(`Failed to download image ${record.id}: ${response.status}`);
+        }
+        zip.file(record.file!, await response.blob());
+        onProgress({ phase: 'images', done: ++done, total: records.length });
+      }
+    }
+
+    onProgress({ phase: 'packing', done: 0, total: 100 });
+    //images are already compressed, so storing them is much faster and barely larger
+    return zip.generateAsync({ type: 'blob', compression: 'STORE' }, meta =>
+      onProgress({ phase: 'packing', done: Math.round(meta.percent), total: 100 })
+    );
+  }
+
+  // ── splits ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Stratified split per plant part + class. Images are ordered by id before the seeded shuffle,
+   * so the same seed over the same images always gives the same assignment.
+   */
+  assignSplits(images: MangoImage[], ratios: Record<ExportSplit, number>, seed: number): Map<number, ExportSplit> {
+    const classes = new Map<string, MangoImage[]>();
+    images.forEach(image => {
+      const key = `${image.disease_type}/${this.labelOf(image)}`;
+      classes.set(key, [...(classes.get(key) ?? []), image]);
+    });
+
+    const total = EXPORT_SPLITS.reduce((sum, s) => sum + ratios[s], 0) || 1;
+    const splits = new Map<number, ExportSplit>();
+
+    Array.from(classes.keys()).sort().forEach((key, classIndex) => {
+      const members = [...classes.get(key)!].sort((a, b) => a.id - b.id);
+      this.shuffle(members, this.random(seed + classIndex));
+
+      const trainEnd = Math.round(members.length * ratios.train / total);
+      const valEnd = trainEnd + Math.round(members.length * ratios.val / total);
+      members.forEach((image, i) => splits.set(image.id, i < trainEnd ? 'train' : i < valEnd ? 'val' : 'test'));
+    });
+
+    return splits;
+  }
+
+  // ── formats ────────────────────────────────────────────────────────────────
+
+  toCsv(records: ExportRecord[], options: ExportOptions): string {
+    const columns: (keyof ExportRecord)[] = ['id', 'file', 'original_filename', 'label', 'plant_part', 'split', 'selected_symptoms', 'uploaded_at'];
+    if (options.includeGps) columns.push('latitude', 'longitude');
+
+    const cell = (value: unknown): string => {
+      let text = Array.isArray(value) ? value.join(';') : value == null ? '' : String(value);
+      //farmer-supplied text must not run as a spreadsheet formula; numbers such as a negative longitude stay as they are
+      if (typeof value !== 'number' && /^[=+\-@]/.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...records.map(r => columns.map(c => cell(r[c])).join(','))].join('\n') + '\n';
+  }
+
+  toJsonl(records: ExportRecord[], options: ExportOptions): string {
+    return records.map(r => JSON.stringify(options.includeGps ? r : this.withoutGps(r))).join('\n') + '\n';
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  private async fetchTrainingImages(
+    plantPart: ExportOptions['plantPart'], onProgress: (p: ExportProgress) => void, cancelled: () => boolean
+  ): Promise<MangoImage[]> {
+    const images: MangoImage[] = [];
+    let page = 1;
+    let hasNext = true;
+
+    while (hasNext && !cancelled()) {
+      const response = await firstValueFrom(this.mangoDiseaseService.getClassifiedImages({
+        status: 'verified',
+        training_ready: true,
+        disease_type: plantPart === 'all' ? '' : plantPart,
+        ordering: 'id',
+        page,
+        page_size: PAGE_SIZE,
+      }));
+      //belt and braces in case the list endpoint ignores a filter
+      images.push(...response.images.filter(image =>
+        image.training_ready && (image.disease_type === 'leaf' || image.disease_type === 'fruit')));
+      hasNext = response.pagination ? response.pagination.has_next : response.images.length === PAGE_SIZE;
+      onProgress({ phase: 'listing', done: images.length, total: response.pagination?.total_count ?? images.length });
+      page++;
+    }
+    return images;
+  }
+
+  private toRecord(image: MangoImage, split: ExportSplit, options: ExportOptions): ExportRecord {
+    const label = this.labelOf(image);
+    const plantPart = image.disease_type as 'leaf' | 'fruit';
+    const filename = `${image.id}_${this.safeName(image.original_filename || `image_${image.id}.jpg`)}`;
+
+    let file: string | null = null;
+    if (options.format === 'imagefolder') {
+      file = `${split}/${this.className(plantPart, label, options)}/${filename}`;
+    } else if (options.includeImages) {
+      file = `images/${filename}`;
+    }
+
+    return {
+      id: image.id,
+      file,
+      original_filename: image.original_filename,
+      label,
+      plant_part: plantPart,
+      split,
+      selected_symptoms: (image.selected_symptoms ?? []).map(s => s.key),
+      //only shared where the farmer agreed to it
+      latitude: image.location_consent_given ? image.latitude ?? null : null,
+      longitude: image.location_consent_given ? image.longitude ?? null : null,
+      uploaded_at: image.uploaded_at,
+    };
+  }
+
+  private manifest(records: ExportRecord[], options: ExportOptions, exportedAt: Date): object {
+    const classes = Array.from(new Set(records.map(r => this.className(r.plant_part, r.label, options)))).sort();
+    return {
+      format: 'imagefolder',
+      exported_at: exportedAt.toISOString(),
+      seed: options.seed,
+      ratios: options.ratios,
+      classes,
+      counts: this.counts(records, options),
+      images: records.map(r => options.includeGps ? r : this.withoutGps(r)),
+    };
+  }
+
+  private datasetCard(records: ExportRecord[], options: ExportOptions, exportedAt: Date): string {
+    const counts = this.counts(records, options);
+    const classes = Object.keys(counts).sort();
+    const layout = options.format === 'imagefolder'
+      ? '`<split>/<class>/<id>_<filename>` (torchvision ImageFolder), with every record listed in `manifest.json`.'
+      : `One record per line in \`${options.format === 'csv' ? 'labels.csv' : 'labels.jsonl'}\`` +
+        (options.includeImages ? ', images under `images/`.' : '. Images are not included; records reference them by id.');
+
+    return [
+      '# MangoSense training dataset',
+      '',
+      `Exported ${exportedAt.toISOString()} from the MangoSense admin dashboard.`,
+      '',
+      '## Contents',
+      '',
+      `- Images: ${records.length} verified, training-ready ${options.plantPart === 'all' ? 'leaf and fruit' : options.plantPart} photos`,
+      `- Classes: ${classes.length}`,
+      `- Layout: ${layout}`,
+      `- Labels: the reviewer-confirmed disease classification, plus the symptoms reviewers selected (\`selected_symptoms\`, as keys)`,
+      `- GPS: ${options.includeGps ? 'latitude/longitude included where the farmer consented to share location' : 'removed'}`,
+      '',
+      '## Splits',
+      '',
+      `Stratified per plant part and class, ${options.ratios.train}/${options.ratios.val}/${options.ratios.test} train/val/test, seed \`${options.seed}\`.`,
+      'Images are sorted by id and shuffled with a seeded PRNG (mulberry32), so exporting the same images with the same seed reproduces the split.',
+      '',
+      '| Class | Train | Val | Test | Total |',
+      '| --- | ---: | ---: | ---: | ---: |',
+      ...classes.map(cls => {
+        const c = counts[cls];
+        return `| ${cls} | ${c.train} | ${c.val} | ${c.test} | ${c.train + c.val + c.test} |`;
+      }),
+      `| **Total** | ${this.sum(counts, 'train')} | ${this.sum(counts, 'val')} | ${this.sum(counts, 'test')} | ${records.length} |`,
+      '',
+    ].join('\n');
+  }
+
+  private counts(records: ExportRecord[], options: ExportOptions): Record<string, Record<ExportSplit, number>> {
+    const counts: Record<string, Record<ExportSplit, number>> = {};
+    records.forEach(r => {
+      const cls = this.className(r.plant_part, r.label, options);
+      counts[cls] = counts[cls] ?? { train: 0, val: 0, test: 0 };
+      counts[cls][r.split]++;
+    });
+    return counts;
+  }
+
+  private sum(counts: Record<string, Record<ExportSplit, number>>, split: ExportSplit): number {
+    return Object.values(counts).reduce((total, c) => total + c[split], 0);
+  }
+
+  //leaf and fruit both have Anthracnose and Healthy, so mixed exports prefix the plant part
+  private className(plantPart: 'leaf' | 'fruit', label: string, options: ExportOptions): string {
+    const name = this.safeName(label);
+    return options.plantPart === 'all' ? `${plantPart}_${name}` : name;
+  }
+
+  private labelOf(image: MangoImage): string {
+    return image.disease_classification || image.predicted_class || 'Unknown';
+  }
+
+  private withoutGps(record: ExportRecord): Omit<ExportRecord, 'latitude' | 'longitude'> {
+    const { latitude, longitude, ...rest } = record;
+    return rest;
+  }
+
+  private safeName(name: string): string {
+    return name.replace(/[\/\\:*?"<>|]+/g, '_').trim();
+  }
+
+  //mulberry32
+  private random(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private shuffle<T>(items: T[], random: () => number): void {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+  }
+}
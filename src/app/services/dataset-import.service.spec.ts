@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { DatasetImportEntry, DatasetImportService } from './dataset-import.service';
+import { TrainingDataService } from './training-data.service';
+
+describe('DatasetImportService', () => {
+  let service: DatasetImportService;
+  let trainingDataServiceSpy: jasmine.SpyObj<TrainingDataService>;
+
+  const leafClasses = ['Anthracnose', 'Die Back', 'Healthy', 'Powdery Mildew', 'Sooty Mold'];
+  const fruitClasses = ['Alternaria', 'Anthracnose', 'Black Mold Rot', 'Healthy', 'Stem end Rot'];
+
+  //a file as an <input webkitdirectory> hands it over
+  const folderFile = (path: string) => {
+    const file = new File(['x'], path.split('/').pop()!, { type: 'image/jpeg' });
+    Object.defineProperty(file, 'webkitRelativePath', { value: path });
+    return file;
+  };
+
+  const entry = (path: string): DatasetImportEntry => ({
+    path,
+    name: path.split('/').pop()!,
+    load: async () => folderFile(path),
+  });
+
+  beforeEach(() => {
+    trainingDataServiceSpy = jasmine.createSpyObj('TrainingDataService', ['bulkImport']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: TrainingDataService, useValue: trainingDataServiceSpy }
+      ]
+    });
+
+    service = TestBed.inject(DatasetImportService);
+  });
+
+  it('should match folder names ignoring case and separators', () => {
+    expect(service.matchClass('anthracnose', leafClasses)).toBe('Anthracnose');
+    expect(service.matchClass('Die_Back', leafClasses)).toBe('Die Back');
+    expect(service.matchClass('POWDERY-MILDEW', leafClasses)).toBe('Powdery Mildew');
+  });
+
+  it('should match folder names that add to or misspell a class name', () => {
+    expect(service.matchClass('powdery-mildew-leaf', leafClasses)).toBe('Powdery Mildew');
+    expect(service.matchClass('Stem End Rot (fruit)', fruitClasses)).toBe('Stem end Rot');
+    expect(service.matchClass('Sooty_Mould', leafClasses)).toBe('Sooty Mold');
+  });
+
+  it('should leave unknown, empty and ambiguous folder names unmatched', () => {
+    expect(service.matchClass('scab', leafClasses)).toBe('');
+    expect(service.matchClass('___', leafClasses)).toBe('');
+    //both rots contain it
+    expect(service.matchClass('rot', fruitClasses)).toBe('');
+  });
+
+  it('should group by folder path, keeping split folders of one class apart', () => {
+    const source = service.readFolder([
+      folderFile('mango/train/leaf/Anthracnose/1.jpg'),
+      folderFile('mango/train/leaf/Anthracnose/2.jpg'),
+      folderFile('mango/val/leaf/Anthracnose/1.jpg'),
+      folderFile('mango/train/fruit/Healthy/1.jpg'),
+      folderFile('mango/train/leaf/Anthracnose/notes.txt'),
+      folderFile('mango/__MACOSX/leaf/Anthracnose/._1.jpg'),
+    ]);
+
+    expect(source.groups.map(g => [g.key, g.folder, g.plantPart, g.entries.length])).toEqual([
+      ['mango/train/fruit/Healthy', 'Healthy', 'fruit', 1],
+      ['mango/train/leaf/Anthracnose', 'Anthracnose', 'leaf', 2],
+      ['mango/val/leaf/Anthracnose', 'Anthracnose', 'leaf', 1],
+    ]);
+  });
+
+  it('should map upload errors back to paths by position, and by name only when it is unique', async () => {
+    trainingDataServiceSpy.bulkImport.and.returnValue(of({
+      success: true,
+      message: '',
+      created: 1,
+      errors: [
+        { index: 1, filename: '1.jpg', error: 'Corrupt image' },
+        { filename: '2.jpg', error: 'Too small' },
+      ],
+    }));
+    const entries = [
+      entry('train/Anthracnose/1.jpg'),
+      entry('val/Anthracnose/1.jpg'),
+      entry('val/Anthracnose/2.jpg'),
+    ];
+
+    const result = await service.importChunk(entries, 'leaf', 'Anthracnose', true);
+
+    expect(result.created).toBe(1);
+    expect(result.errors).toEqual([
+      { path: 'val/Anthracnose/1.jpg', error: 'Corrupt image' },
+      { path: 'val/Anthracnose/2.jpg', error: 'Too small' },
+    ]);
+    const form = trainingDataServiceSpy.bulkImport.calls.mostRecent().args[0];
+    expect(form.get('disease_classification')).toBe('Anthracnose');
+    expect(form.getAll('images').length).toBe(3);
+  });
+
+  it('should count every file of an ambiguous name as failed when the server gives no position', async () => {
+    trainingDataServiceSpy.bulkImport.and.returnValue(of({
+      success: true, message: '', created: 1, errors: [{ filename: '1.jpg', error: 'Corrupt image' }],
+    }));
+
+    const result = await service.importChunk([entry('a/1.jpg'), entry('b/1.jpg')], 'leaf', 'Healthy', false);
+
+    expect(result.errors.map(e => e.path)).toEqual(['a/1.jpg', 'b/1.jpg']);
+  });
+
+  it('should remember imported paths per source until cleared', () => {
+    service.clearProgress('drop-1');
+    service.saveProgress('drop-1', new Set(['a/1.jpg', 'a/2.jpg']));
+
+    expect(Array.from(service.loadProgress('drop-1')).sort()).toEqual(['a/1.jpg', 'a/2.jpg']);
+    expect(service.loadProgress('drop-2').size).toBe(0);
+
+    service.clearProgress('drop-1');
+    expect(service.loadProgress('drop-1').size).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import JSZip from 'jszip';
+import { TrainingDataService } from './training-data.service';
+
+//one image inside the dropped ZIP or folder; zip entries are only extracted when their chunk uploads
+export interface DatasetImportEntry {
+  path: string;
+  name: string;
+  load: () => Promise<File>;
+}
+
+//every image directly under one class folder, e.g. train/leaf/Anthracnose
+export interface DatasetImportGroup {
+  //the folder's full path, so train/ and val/ copies of a class stay separate
+  key: string;
+  folder: string;
+  //taken from a leaf/ or fruit/ folder in the path, null when the tree doesn't say
+  plantPart: 'leaf' | 'fruit' | null;
+  classification: string;
+  include: boolean;
+  entries: DatasetImportEntry[];
+}
+
+export interface DatasetImportSource {
+  name: string;
+  kind: 'zip' | 'folder';
+  //identifies the same drop again after a reload, for resuming
+  signature: string;
+  groups: DatasetImportGroup[];
+}
+
+export interface ChunkResult {
+  created: number;
+  errors: { path: string; error: string }[];
+}
+
+export const IMPORT_CHUNK_SIZE = 25;
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp'];
+const PROGRESS_KEY_PREFIX = 'dataset_import_done:';
+
+/** Reads class-per-folder datasets and uploads them through the bulk import endpoint in chunks. */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetImportService {
+
+  constructor(private trainingDataService: TrainingDataService) {}
+
+  // ── reading ────────────────────────────────────────────────────────────────
+
+  async readZip(file: File): Promise<DatasetImportSource> {
+    const zip = await JSZip.loadAsync(file);
+    const entries: DatasetImportEntry[] = [];
+    zip.forEach((path, entry) => {
+      if (entry.dir || !this.isImagePath(path)) return;
+      const name = this.basename(path);
+      entries.push({
+        path,
+        name,
+        load: async () => new File([await entry.async('blob')], name, { type: this.mimeType(name) }),
+      });
+    });
+    return this.buildSource(file.name, 'zip', `${file.name}:${file.size}:${file.lastModified}`, entries);
+  }
+
+  //files from an <input webkitdirectory>, which carry their path in webkitRelativePath
+  readFolder(files: File[]): DatasetImportSource {
+    const entries = files
+      .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+      .filter(({ path }) => this.isImagePath(path))
+      .map(({ file, path }): DatasetImportEntry => ({ path, name: file.name, load: async () => file }));
+
+    const root = entries[0]?.path.split('/')[0] || 'folder';
+    const size = files.reduce((sum, f) => sum + f.size, 0);
+    return this.buildSource(root, 'folder', `${root}:${entries.length}:${size}`, entries);
+  }
+
+  /** Best match for a folder name among the known class names, or '' when nothing is close. */
+  matchClass(folder: string, classes: string[]): string {
+    const wanted = this.normalise(folder);
+    if (!wanted) return '';
+
+    const exact = classes.find(cls => this.normalise(cls) === wanted);
+    if (exact) return exact;
+
+    //"Sooty_Mould", "powdery-mildew-leaf", "Stem End Rot (fruit)"
+    const compact = wanted.replace(/ /g, '');
+    const loose = classes.filter(cls => {
+      const name = this.normalise(cls).replace(/ /g, '');
+      return compact.includes(name) || name.includes(compact) || this.editDistance(compact, name) <= 2;
+    });
+    return loose.length === 1 ? loose[0] : '';
+  }
+
+  // ── uploading ──────────────────────────────────────────────────────────────
+
+  /** Upload one chunk of a single class; per-file errors from the server are mapped back to paths. */
+  async importChunk(
+    entries: DatasetImportEntry[], plantPart: 'leaf' | 'fruit', classification: string, trainingReady: boolean
+  ): Promise<ChunkResult> {
+    const fd = new FormData();
+    fd.append('disease_type',           plantPart);
+    fd.append('disease_classification', classification);
+    fd.append('training_ready',         String(trainingReady));
+
+    const names: string[] = [];
+    for (const entry of entries) {
+      const file = await entry.load();
+      fd.append('images', file, file.name);
+      names.push(file.name);
+    }
+
+    const res = await firstValueFrom(this.trainingDataService.bulkImport(fd));
+    return {
+      created: res.created,
+      errors: (res.errors || []).flatMap(e =>
+        this.errorIndexes(e, names).map(i => ({ path: entries[i]?.path ?? e.filename, error: e.error }))
+      ),
+    };
+  }
+
+  //paths already imported from this source, so a reload can pick up where it stopped
+  loadProgress(signature: string): Set<string> {
+    try {
+      return new Set(JSON.parse(localStorage.getItem(PROGRESS_KEY_PREFIX + signature) || '[]'));
+    } catch {
+      return new Set();
+    }
+  }
+
+  saveProgress(signature: string, done: Set<string>): void {
+    try {
+      localStorage.setItem(PROGRESS_KEY_PREFIX + signature, JSON.stringify(Array.from(done)));
+    } catch {
+      //quota full; the import still works, it just can't resume after a reload
+    }
+  }
+
+  clearProgress(signature: string): void {
+    localStorage.removeItem(PROGRESS_KEY_PREFIX + signature);
+  }
+
+  // ── internals ──────────────────────────────────────────────────────────────
+
+  //the server gives each error the file's position in the upload; by name alone, every file called that
+  //counts as failed, since folders from different splits often reuse file names
+  private errorIndexes(error: { index?: number; filename: string }, names: string[]): number[] {
+    if (error.index != null) return [error.index];
+    const matches = names.flatMap((name, i) => name === error.filename ? [i] : []);
+    return matches.length ? matches : [-1];
+  }
+
+  private buildSource(name: string, kind: 'zip' | 'folder', signature: string, entries: DatasetImportEntry[]): DatasetImportSource {
+    const groups = new Map<string, DatasetImportGroup>();
+
+    for (const entry of entries) {
+      const dirs = entry.path.split('/').slice(0, -1);
+      const folder = dirs[dirs.length - 1] || '(top level)';
+      const plantPart = this.plantPartOf(dirs.slice(0, -1));
+      const key = dirs.join('/') || folder;
+
+      const group = groups.get(key);
+      if (group) {
+        group.entries.push(entry);
+      } else {
+        groups.set(key, { key, folder, plantPart, classification: '', include: true, entries: [entry] });
+      }
+    }
+
+    return {
+      name,
+      kind,
+      signature,
+      groups: Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    };
+  }
+
+  private plantPartOf(dirs: string[]): 'leaf' | 'fruit' | null {
+    for (const dir of [...dirs].reverse()) {
+      const name = dir.toLowerCase();
+      if (name === 'leaf' || name === 'leaves') return 'leaf';
+      if (name === 'fruit' || name === 'fruits') return 'fruit';
+    }
+    return null;
+  }
+
+  private isImagePath(path: string): boolean {
+    const segments = path.split('/');
+    //macOS zips carry __MACOSX/ resource forks and ._ files alongside every image
+    if (segments.some(s => s === '__MACOSX' || s.startsWith('.'))) return false;
+    const ext = path.split('.').pop()?.toLowerCase() ?? '';
+    return IMAGE_EXTENSIONS.includes(ext);
+  }
+
+  private basename(path: string): string {
+    return path.split('/').pop() || path;
+  }
+
+  private mimeType(name: string): string {
+    const ext = name.split('.').pop()?.toLowerCase();
+    return ext === 'png' ? 'image/png' : ext === 'webp' ? 'image/webp' : 'image/jpeg';
+  }
+
+  private normalise(name: string): string {
+    return name.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+  }
+
+  private editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let prev = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const tmp = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+        prev = tmp;
+      }
+    }
+    return row[b.length];
+  }
+}
@@ -0,0 +1,147 @@
+import { Injectable, Inject, NgZone, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Subscription, fromEvent, interval, merge } from 'rxjs';
+import { throttleTime } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { environment } from '../../environments/environment';
+
+export interface IdleSessionConfig {
+  idleTimeoutMs: number;
+  warningMs: number;
+}
+
+//shared across tabs so activity in one tab keeps the others alive
+const LAST_ACTIVITY_KEY = 'last_activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleSessionService {
+  private config: IdleSessionConfig = {
+    idleTimeoutMs: environment.sessionIdleTimeoutMs,
+    warningMs: environment.sessionWarningMs
+  };
+
+  //seconds left before auto logout, null while no warning is shown
+  private secondsLeftSubject = new BehaviorSubject<number | null>(null);
+  public secondsLeft$ = this.secondsLeftSubject.asObservable();
+
+  private activitySub?: Subscription;
+  private tickSub?: Subscription;
+  private storageSub?: Subscription;
+
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+    private zone: NgZone,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {}
+
+  configure(config: Partial<IdleSessionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): IdleSessionConfig {
+    return { ...this.config };
+  }
+
+  //begin watching for inactivity, call once the user is logged in
+  start(): void {
+    if (!isPlatformBrowser(this.platformId) || this.tickSub) {
+      return;
+    }
+
+    this.touch();
+
+    //listeners and ticks run outside angular so they don't trigger change detection every second
+    this.zone.runOutsideAngular(() => {
+      this.activitySub = merge(...ACTIVITY_EVENTS.map(name => fromEvent(document, name)))
+        .pipe(throttleTime(5000))
+        .subscribe(() => {
+          //once the warning is up only the dialog button keeps the session alive
+          if (this.secondsLeftSubject.value === null) {
+            this.touch();
+          }
+        });
+
+      this.tickSub = interval(1000).subscribe(() => this.check());
+    });
+
+    this.listenForOtherTabs();
+  }
+
+  stop(): void {
+    this.activitySub?.unsubscribe();
+    this.tickSub?.unsubscribe();
+    this.activitySub = undefined;
+    this.tickSub = undefined;
+    this.setSecondsLeft(null);
+  }
+
+  //called from the warning dialog
+  stayActive(): void {
+    this.touch();
+    this.setSecondsLeft(null);
+  }
+
+  logoutNow(): void {
+    this.stop();
+    this.authService.logout();
+    this.zone.run(() => this.router.navigate(['/login']));
+  }
+
+  private check(): void {
+    const idleFor = Date.now() - this.getLastActivity();
+    const remaining = this.config.idleTimeoutMs - idleFor;
+
+    if (remaining <= 0) {
+      this.logoutNow();
+      return;
+    }
+
+    if (remaining <= this.config.warningMs) {
+      this.setSecondsLeft(Math.ceil(remaining / 1000));
+    } else if (this.secondsLeftSubject.value !== null) {
+      //another tab saw activity, drop the warning here too
+      this.setSecondsLeft(null);
+    }
+  }
+
+  //logout / login in another tab shows up as a storage event on the token key
+  private listenForOtherTabs(): void {
+    if (this.storageSub) {
+      return;
+    }
+
+    this.storageSub = fromEvent<StorageEvent>(window, 'storage').subscribe(event => {
+      if (event.key !== 'access_token') {
+        return;
+      }
+
+      this.authService.refreshAuthState();
+
+      if (event.newValue === null) {
+        this.stop();
+        this.router.navigate(['/login']);
+      }
+    });
+  }
+
+  private touch(): void {
+    localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString());
+  }
+
+  private getLastActivity(): number {
+    const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return value || Date.now();
+  }
+
+  private setSecondsLeft(seconds: number | null): void {
+    if (this.secondsLeftSubject.value === seconds) {
+      return;
+    }
+    this.zone.run(() => this.secondsLeftSubject.next(seconds));
+  }
+}
@@ -0,0 +1,122 @@
+import { Injectable } from '@angular/core';
+
+export interface HashedImage {
+  id: number;
+  //64-bit difference hash as 16 hex chars
+  hash: string;
+}
+
+//hashes never change for a stored image, so they survive reloads
+const HASH_CACHE_KEY = 'image_dhash_cache';
+//9x8 thumbnail gives 8 horizontal gradients per row, 64 bits in total
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Perceptual (difference) hashes of image thumbnails, for spotting re-uploads of the same photo. */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageHashService {
+  private cache: { [id: number]: string } = this.readCache();
+
+  /** dHash of the image at `url`; resized, cropped or re-encoded copies land within a few bits. */
+  async hashImage(id: number, url: string): Promise<string> {
+    const hit = this.cache[id];
+    if (hit) return hit;
+
+    //fetch + bitmap instead of <img> so the canvas is not tainted by a cross-origin media host
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load image ${id}: ${response.status}`);
+    }
+    const bitmap = await createImageBitmap(await response.blob());
+
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const pixels = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+    const grey = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+
+    this.cache[id] = hash;
+    return hash;
+  }
+
+  distance(a: string, b: string): number {
+    const [a1, a2] = this.toWords(a);
+    const [b1, b2] = this.toWords(b);
+    return this.popCount(a1 ^ b1) + this.popCount(a2 ^ b2);
+  }
+
+  /** Groups of ids whose hashes are within `maxDistance` bits of each other, transitively. */
+  groupNearDuplicates(images: HashedImage[], maxDistance: number): number[][] {
+    const words = images.map(image => this.toWords(image.hash));
+    const parent = images.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+    //pairwise, so keep the scan size bounded; a few thousand images is still well under a second
+    for (let i = 0; i < images.length; i++) {
+      for (let j = i + 1; j < images.length; j++) {
+        const bits = this.popCount(words[i][0] ^ words[j][0]) + this.popCount(words[i][1] ^ words[j][1]);
+        if (bits <= maxDistance) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    images.forEach((image, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) ?? []), image.id]);
+    });
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+
+  /** Save hashes computed since the last call; done once per scan rather than per image. */
+  persist(): void {
+    try {
+      localStorage.setItem(HASH_CACHE_KEY, JSON.stringify(this.cache));
+    } catch {
+      //quota full; hashes are only a cache, so carry on without persisting
+    }
+  }
+
+  forget(ids: number[]): void {
+    ids.forEach(id => delete this.cache[id]);
+    this.persist();
+  }
+
+  private toWords(hash: string): [number, number] {
+    return [parseInt(hash.slice(0, 8), 16) | 0, parseInt(hash.slice(8, 16), 16) | 0];
+  }
+
+  private popCount(n: number): number {
+    n = n - ((n >>> 1) & 0x55555555);
+    n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+    return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+  }
+
+  private readCache(): { [id: number]: string } {
+    try {
+      return JSON.parse(localStorage.getItem(HASH_CACHE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { Injectable } from '@angular/core';
+
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+export interface QualityIssue {
+  check: 'type' | 'decode' | 'resolution' | 'blur' | 'exposure' | 'orientation';
+  status: Exclude<QualityStatus, 'pass'>;
+  message: string;
+}
+
+export interface ImageQualityReport {
+  status: QualityStatus;
+  issues: QualityIssue[];
+  width: number | null;
+  height: number | null;
+  //variance of the Laplacian; low means few sharp edges
+  sharpness: number | null;
+  //mean luminance 0-255
+  brightness: number | null;
+  //EXIF orientation tag, 1 is upright
+  orientation: number | null;
+}
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+//the models train on 224px crops; anything smaller gets upscaled into mush
+const MIN_SIDE_FAIL = 224;
+const MIN_SIDE_WARN = 448;
+const SHARPNESS_FAIL = 30;
+const SHARPNESS_WARN = 80;
+const DARK_FAIL = 25;
+const DARK_WARN = 50;
+const BRIGHT_WARN = 210;
+const BRIGHT_FAIL = 235;
+//share of pixels crushed to black or blown to white
+const CLIPPED_WARN = 0.25;
+const CLIPPED_FAIL = 0.5;
+//analysis runs on a downscaled copy so large photos stay quick
+const ANALYSIS_SIDE = 512;
+
+/** Client-side checks that catch unusable training photos before they are uploaded. */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageQualityService {
+
+  async analyze(file: File): Promise<ImageQualityReport> {
+    const report: ImageQualityReport = {
+      status: 'pass', issues: [], width: null, height: null, sharpness: null, brightness: null, orientation: null,
+    };
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      return this.finish(report, { check: 'type', status: 'fail', message: `${file.type || 'Unknown type'} is not a JPEG, PNG or WebP image` });
+    }
+
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      return this.finish(report, { check: 'decode', status: 'fail', message: 'File could not be decoded as an image' });
+    }
+
+    report.width = bitmap.width;
+    report.height = bitmap.height;
+    const issues: QualityIssue[] = [];
+
+    const shortSide = Math.min(bitmap.width, bitmap.height);
+    if (shortSide < MIN_SIDE_FAIL) {
+      issues.push({ check: 'resolution', status: 'fail', message: `${bitmap.width}×${bitmap.height} is below the ${MIN_SIDE_FAIL}px minimum` });
+    } else if (shortSide < MIN_SIDE_WARN) {
+      issues.push({ check: 'resolution', status: 'warn', message: `${bitmap.width}×${bitmap.height} is low resolution` });
+    }
+
+    const { grey, width, height } = this.greyscale(bitmap);
+    bitmap.close();
+
+    report.sharpness = this.laplacianVariance(grey, width, height);
+    if (report.sharpness < SHARPNESS_FAIL) {
+      issues.push({ check: 'blur', status: 'fail', message: 'Image is very blurry' });
+    } else if (report.sharpness < SHARPNESS_WARN) {
+      issues.push({ check: 'blur', status: 'warn', message: 'Image looks slightly blurry' });
+    }
+
+    const exposure = this.exposure(grey);
+    report.brightness = exposure.mean;
+    issues.push(...this.exposureIssues(exposure));
+
+    if (file.type === 'image/jpeg') {
+      report.orientation = await this.readExifOrientation(file);
+      if (report.orientation && report.orientation !== 1) {
+        issues.push({ check: 'orientation', status: 'warn', message: `EXIF orientation ${report.orientation}: the camera stored it rotated or mirrored` });
+      }
+    }
+
+    return this.finish(report, ...issues);
+  }
+
+  // ── measurements ───────────────────────────────────────────────────────────
+
+  private greyscale(bitmap: ImageBitmap): { grey: Float32Array; width: number; height: number } {
+    const scale = Math.min(1, ANALYSIS_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const grey = new Float32Array(width * height);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+    }
+    return { grey, width, height };
+  }
+
+  private laplacianVariance(grey: Float32Array, width: number, height: number): number {
+    if (width < 3 || height < 3) return 0;
+
+    let sum = 0;
+    let sumSq = 0;
+    let n = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const lap = 4 * grey[i] - grey[i - 1] - grey[i + 1] - grey[i - width] - grey[i + width];
+        sum += lap;
+        sumSq += lap * lap;
+        n++;
+      }
+    }
+    const mean = sum / n;
+    return sumSq / n - mean * mean;
+  }
+
+  private exposure(grey: Float32Array): { mean: number; dark: number; bright: number } {
+    let sum = 0;
+    let dark = 0;
+    let bright = 0;
+    for (let i = 0; i < grey.length; i++) {
+      sum += grey[i];
+      if (grey[i] < 8) dark++;
+      if (grey[i] > 247) bright++;
+    }
+    return { mean: sum / grey.length, dark: dark / grey.length, bright: bright / grey.length };
+  }
+
+  private exposureIssues({ mean, dark, bright }: { mean: number; dark: number; bright: number }): QualityIssue[] {
+    if (mean < DARK_FAIL || dark > CLIPPED_FAIL) {
+      return [{ check: 'exposure', status: 'fail', message: 'Badly under-exposed' }];
+    }
+    if (mean > BRIGHT_FAIL || bright > CLIPPED_FAIL) {
+      return [{ check: 'exposure', status: 'fail', message: 'Badly over-exposed' }];
+    }
+    if (mean < DARK_WARN || dark > CLIPPED_WARN) {
+      return [{ check: 'exposure', status: 'warn', message: 'Looks under-exposed' }];
+    }
+    if (mean > BRIGHT_WARN || bright > CLIPPED_WARN) {
+      return [{ check: 'exposure', status: 'warn', message: 'Looks over-exposed' }];
+    }
+    return [];
+  }
+
+  //walks the JPEG markers to the APP1 Exif block and reads tag 0x0112 from IFD0
+  private async readExifOrientation(file: File): Promise<number | null> {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const size = view.getUint16(offset + 2);
+      if ((marker & 0xff00) !== 0xff00) return null;
+
+      //"Exif\0\0"
+      if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        if (tiff + 8 > view.byteLength) return null;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        if (ifd + 2 > view.byteLength) return null;
+
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (entry + 12 > view.byteLength) return null;
+          if (view.getUint16(entry, little) === 0x0112) {
+            return view.getUint16(entry + 8, little);
+          }
+        }
+        return null;
+      }
+      offset += 2 + size;
+    }
+    return null;
+  }
+
+  private finish(report: ImageQualityReport, ...issues: QualityIssue[]): ImageQualityReport {
+    report.issues = issues;
+    report.status = issues.some(issue => issue.status === 'fail') ? 'fail'
+      : issues.length ? 'warn'
+      : 'pass';
+    return report;
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, RetrainConfig } from './mango-disease.service';
+
+export type JobKind = 'preprocessing' | 'symptom_extraction' | 'retrain';
+export type JobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export const JOB_KIND_LABELS: { [kind in JobKind]: string } = {
+  preprocessing:      'Preprocess images',
+  symptom_extraction: 'Extract symptoms',
+  retrain:            'Retrain',
+};
+
+//pipelines always run in this order, whichever steps are picked
+export const JOB_KIND_ORDER: JobKind[] = ['preprocessing', 'symptom_extraction', 'retrain'];
+
+export interface QueuedJob {
+  id: number;
+  kind: JobKind;
+  model_type: 'leaf' | 'fruit';
+  model_kind: 'mobilenetv2' | 'hybrid_cnn' | null;
+  config: RetrainConfig | null;
+  status: JobStatus;
+  //jobs in the same chain run one after another; a failed or cancelled step cancels the rest
+  chain_id: string;
+  //set when the job belongs to a hyperparameter sweep
+  sweep_id: string | null;
+  position: number;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+  //filled in for finished retrain jobs
+  result: { accuracy: number | null; output_filename: string | null } | null;
+}
+
+export interface JobStep {
+  kind: JobKind;
+  model_kind?: 'mobilenetv2' | 'hybrid_cnn';
+  config?: RetrainConfig;
+}
+
+/**
+ * Server-side queue for the long-running model jobs. Leaf and fruit chains
+ * are separate lanes, so one of each can run at the same time.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class JobQueueService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  //queued and running jobs plus the most recently finished ones, ordered by lane then position
+  getQueue(): Observable<ApiResponse<QueuedJob[]>> {
+    return this.http.get<ApiResponse<QueuedJob[]>>(`${this.apiUrl}/jobs/queue/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching job queue:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /** Queue a chain of steps for one model type; it starts as soon as that lane is free. */
+  enqueueChain(modelType: 'leaf' | 'fruit', steps: JobStep[]): Observable<ApiResponse<QueuedJob[]>> {
+    const ordered = [...steps].sort((a, b) => JOB_KIND_ORDER.indexOf(a.kind) - JOB_KIND_ORDER.indexOf(b.kind));
+    return this.http.post<ApiResponse<QueuedJob[]>>(`${this.apiUrl}/jobs/queue/`, { model_type: modelType, steps: ordered })
+      .pipe(
+        catchError(error => {
+          console.error('Error queueing jobs:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //stops a running job or drops a queued one, along with the later steps of its chain
+  cancelJob(jobId: number): Observable<ApiResponse<any>> {
+    return this.http.post<ApiResponse<any>>(`${this.apiUrl}/jobs/queue/${jobId}/cancel/`, {})
+      .pipe(
+        catchError(error => {
+          console.error('Error cancelling job:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+}
@@ -1,7 +1,8 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, of, throwError, catchError, map } from 'rxjs';
+import { Observable, of, throwError, catchError, map, tap } from 'rxjs';
 import { environment } from '../../environments/environment';
+import { AuditLogService } from './audit-log.service';
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
@@ -65,6 +66,34 @@ export interface MangoImage {
   symptoms_data?: any;
 }
 
+export interface ImagePagination {
+  page: number;
+  page_size: number;
+  total_count: number;
+  has_next: boolean;
+}
+
+export type ImageStatus = 'verified' | 'unverified' | 'unknown';
+
+//one row per status + disease + type, counted on the server
+export interface ImageFolderCount {
+  status: ImageStatus;
+  disease: string;
+  disease_type: 'leaf' | 'fruit' | 'unknown';
+  count: number;
+  latest_upload: string | null;
+}
+
+export interface ImageFolderCounts {
+  totals: {
+    all: number;
+    verified: number;
+    unverified: number;
+    unknown: number;
+  };
+  folders: ImageFolderCount[];
+}
+
 export interface DiseaseStats {
   total_images: number;
   healthy_images: number;
@@ -172,7 +201,7 @@ export interface RetrainStatus {
   is_running:      boolean;
   model_type:      string | null;
   model_kind:      'mobilenetv2' | 'hybrid_cnn' | null;
-  phase:           'starting' | 'preparing' | 'training' | 'evaluating' | 'saving' | 'done' | 'error' | null;
+  phase:           'starting' | 'preparing' | 'training' | 'evaluating' | 'saving' | 'done' | 'error' | 'cancelled' | null;
   progress:        number;
   message:         string;
   started_at:      string | null;
@@ -181,12 +210,45 @@ export interface RetrainStatus {
   accuracy:        number | null;
   error:           string | null;
   dataset_info:    { [cls: string]: { total: number; train: number; val: number } } | null;
+  job_id?:         number | null;
+  current_epoch?:  number | null;
+  total_epochs?:   number | null;
+  epoch_history?:  RetrainEpoch[] | null;
+}
+
+//one row per finished epoch, reported while the job runs
+export interface RetrainEpoch {
+  epoch:        number;
+  loss:         number;
+  accuracy:     number;
+  val_loss:     number | null;
+  val_accuracy: number | null;
+}
+
+export type RetrainPhase = NonNullable<RetrainStatus['phase']>;
+
+//a past or running retrain job, kept by the server after the status endpoint moves on
+export interface RetrainJob {
+  id:              number;
+  model_type:      'leaf' | 'fruit';
+  model_kind:      'mobilenetv2' | 'hybrid_cnn';
+  phase:           RetrainPhase;
+  config:          RetrainConfig | null;
+  started_by:      string | null;
+  started_at:      string;
+  finished_at:     string | null;
+  duration_seconds: number | null;
+  accuracy:        number | null;
+  error:           string | null;
+  output_filename: string | null;
+  phase_timeline:  { phase: RetrainPhase; at: string }[];
+  epoch_history?:  RetrainEpoch[];
 }
 
 export interface PreprocessingStatus {
   is_running:  boolean;
   model_type:  string | null;
-  phase:       'starting' | 'downloading' | 'processing' | 'done' | 'error' | null;
+  phase:       'starting' | 'downloading' | 'processing' | 'done' | 'error' | 'cancelled' | null;
   progress:    number;
   message:     string;
   started_at:  string | null;
@@ -194,11 +256,13 @@ export interface PreprocessingStatus {
   processed:   number | null;
   failed:      number | null;
   error:       string | null;
+  job_id?:     number | null;
 }
 
 export interface SymptomExtractionStatus {
   is_running:     boolean;
-  phase:          'starting' | 'scanning' | 'extracting' | 'saving' | 'done' | 'error' | null;
+  model_type:     string | null;
+  phase:          'starting' | 'scanning' | 'extracting' | 'saving' | 'done' | 'error' | 'cancelled' | null;
   progress:       number;
   message:        string;
   started_at:     string | null;
@@ -206,6 +270,7 @@ export interface SymptomExtractionStatus {
   output_csv:     string | null;
   rows_extracted: number | null;
   error:          string | null;
+  job_id?:        number | null;
 }
   
 export interface RetrainConfig {
@@ -220,13 +285,42 @@ export interface RetrainConfig {
   min_images_per_class:     number;
   modality_dropout:         number;
 }
+
+//starting hyperparameters per architecture, shared by model settings and the retrain wizard
+export const DEFAULT_RETRAIN_CONFIGS: { [kind in 'mobilenetv2' | 'hybrid_cnn']: RetrainConfig } = {
+  mobilenetv2: {
+    epochs:                  10,
+    learning_rate:           0.0001,
+    batch_size:              16,
+    val_split:               0.2,
+    unfreeze_top_n_layers:   20,
+    early_stopping_patience: 3,
+    lr_reduce_factor:        0.5,
+    lr_reduce_patience:      2,
+    min_images_per_class:    5,
+    modality_dropout:        0.5,
+  },
+  hybrid_cnn: {
+    epochs:                  50,
+    learning_rate:           0.001,
+    batch_size:              32,
+    val_split:               0.2,
+    unfreeze_top_n_layers:   0,
+    early_stopping_patience: 10,
+    lr_reduce_factor:        0.5,
+    lr_reduce_patience:      4,
+    min_images_per_class:    5,
+    modality_dropout:        0.5,
+  },
+};
+
 @Injectable({
   providedIn: 'root'
 })
 export class MangoDiseaseService {
   private apiUrl = environment.apiUrl;
 
-  constructor(private http: HttpClient) { }
+  constructor(private http: HttpClient, private auditLog: AuditLogService) { }
 
   //get stats for dashboard
   getDiseaseStatistics(): Observable<DiseaseStats> {
@@ -247,6 +341,7 @@ export class MangoDiseaseService {
 
   getClassifiedImages(filters?: any): Observable<{
     images: MangoImage[];
+    pagination?: ImagePagination;
     }> {
     let params = new HttpParams();
     //only add filter if it has value
@@ -268,6 +363,7 @@ export class MangoDiseaseService {
       success: boolean;
       data: {
         images: MangoImage[];
+        pagination?: ImagePagination;
       };
     }>(`${this.apiUrl}/classified-images/`, { params })
       .pipe(
@@ -326,6 +422,7 @@ export class MangoDiseaseService {
           }
           return {
             images: transformedImages,
+            pagination: response.data.pagination,
           };
         }),
         catchError(error => {
@@ -335,8 +432,29 @@ export class MangoDiseaseService {
       );
   }
 
+  //per-folder image counts so the gallery doesn't have to download every image to count them
+  getImageFolderCounts(filters?: any): Observable<ApiResponse<ImageFolderCounts>> {
+    let params = new HttpParams();
+    if (filters) {
+      Object.keys(filters).forEach(key => {
+        const value = filters[key];
+        if (value !== null && value !== undefined && value !== '') {
+          params = params.set(key, value.toString());
+        }
+      });
+    }
+
+    return this.http.get<ApiResponse<ImageFolderCounts>>(`${this.apiUrl}/classified-images/folder-counts/`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching folder counts:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
   //update image verification
-  updateImageVerification(imageId: number, isVerified: boolean, notes?: string): Observable<ApiResponse<MangoImage>> {
+  updateImageVerification(imageId: number, isVerified: boolean, notes?: string, before?: Partial<MangoImage>): Observable<ApiResponse<MangoImage>> {
     const updateData = {
       is_verified: isVerified,
       notes: notes || ''
@@ -344,6 +462,17 @@ export class MangoDiseaseService {
 
     return this.http.put<ApiResponse<MangoImage>>(`${this.apiUrl}/classified-images/${imageId}/`, updateData)
       .pipe(
+        tap(res => {
+          if (res?.success) {
+            this.auditLog.record({
+              action: 'image_verification_updated',
+              target_type: 'image',
+              target_id: imageId,
+              before,
+              after: updateData
+            });
+          }
+        }),
         catchError(error => {
           throw error;
         })
@@ -351,9 +480,19 @@ export class MangoDiseaseService {
   }
 
   //delete
-  deleteImage(imageId: number): Observable<ApiResponse<any>> {
+  deleteImage(imageId: number, before?: Partial<MangoImage>): Observable<ApiResponse<any>> {
     return this.http.delete<ApiResponse<any>>(`${this.apiUrl}/classified-images/${imageId}/`)
       .pipe(
+        tap(res => {
+          if (res?.success) {
+            this.auditLog.record({
+              action: 'image_deleted',
+              target_type: 'image',
+              target_id: imageId,
+              before
+            });
+          }
+        }),
         catchError(error => {
           throw error;
         })
@@ -371,7 +510,7 @@ export class MangoDiseaseService {
   }
 
   //update multiple images at once
-  bulkUpdateImages(imageIds: number[], updates: Partial<MangoImage>): Observable<ApiResponse<any>> {
+  bulkUpdateImages(imageIds: number[], updates: Partial<MangoImage>, before?: any): Observable<ApiResponse<any>> {
     const bulkData = {
       image_ids: imageIds,
       updates: updates
@@ -379,6 +518,17 @@ export class MangoDiseaseService {
 
     return this.http.post<any>(`${this.apiUrl}/classified-images/bulk-update/`, bulkData)
       .pipe(
+        tap(res => {
+          if (res?.success) {
+            this.auditLog.record({
+              action: 'images_bulk_updated',
+              target_type: 'images',
+              target_id: imageIds,
+              before,
+              after: updates
+            });
+          }
+        }),
         catchError(error => {
           throw error;
         })
@@ -387,6 +537,30 @@ export class MangoDiseaseService {
 
 
 
+  //where an image's file can be fetched, whatever form the stored path takes
+  getImageUrl(image: MangoImage): string {
+    const originalUrl = image.image_url || image.image;
+
+    if (!originalUrl) {
+      return `${this.apiUrl}/media/mango_images/${image.original_filename}`;
+    }
+    if (originalUrl.startsWith('http')) {
+      return originalUrl;
+    }
+
+    let filePath = originalUrl;
+    if (originalUrl.startsWith('/media/')) {
+      filePath = originalUrl.substring(7);
+    } else if (originalUrl.startsWith('media/')) {
+      filePath = originalUrl.substring(6);
+    } else if (originalUrl.includes('mango_images/')) {
+      filePath = originalUrl.substring(originalUrl.indexOf('mango_images/'));
+    } else if (originalUrl.startsWith('/')) {
+      filePath = originalUrl.substring(1);
+    }
+    return `${this.apiUrl}/media/${filePath}`;
+  }
+
   //image info
   getImageDetails(imageId: number): Observable<ApiResponse<MangoImage>> {
     return this.http.get<ApiResponse<MangoImage>>(`${this.apiUrl}/classified-images/${imageId}/`)
@@ -735,12 +909,18 @@ export class MangoDiseaseService {
     );
   } 
 
-  updateModelSettings(payload: UpdateModelPayload): Observable<ApiResponse<any>> {
+  updateModelSettings(payload: UpdateModelPayload, before?: UpdateModelPayload): Observable<ApiResponse<any>> {
     const token = localStorage.getItem('access_token');
     return this.http.post<ApiResponse<any>>(
       `${this.apiUrl}/model-settings/update/`,
       payload,
       { headers: { Authorization: `Bearer ${token}` } }
+    ).pipe(
+      tap(res => {
+        if (res?.success) {
+          this.auditLog.record({ action: 'model_settings_updated', target_type: 'model_settings', target_id: 'active_models', before, after: payload });
+        }
+      })
     );
   }
 
@@ -758,17 +938,57 @@ export class MangoDiseaseService {
     config?: RetrainConfig,
   ): Observable<ApiResponse<any>> {
     const token = localStorage.getItem('access_token');
+    const body = { model_type: modelType, model_kind: modelKind, ...config };
     return this.http.post<ApiResponse<any>>(
       `${this.apiUrl}/retrain/`,
-      { model_type: modelType, model_kind: modelKind, ...config },
+      body,
       { headers: { Authorization: `Bearer ${token}` } }
+    ).pipe(
+      tap(res => {
+        if (res?.success) {
+          this.auditLog.record({ action: 'retrain_started', target_type: 'retrain', target_id: modelType, after: body });
+        }
+      })
     );
   }
 
-  getRetrainStatus(): Observable<ApiResponse<RetrainStatus>> {
+  //with a model type, that lane's current or most recent job
+  getRetrainStatus(modelType?: 'leaf' | 'fruit'): Observable<ApiResponse<RetrainStatus>> {
     const token = localStorage.getItem('access_token');
     return this.http.get<ApiResponse<RetrainStatus>>(
-      `${this.apiUrl}/retrain/status/`,
+      `${this.apiUrl}/retrain/status/${modelType ? `?model_type=${modelType}` : ''}`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  }
+
+  //stops the running job in that model type's lane; the server marks it 'cancelled' and moves on to whatever is queued next
+  cancelRetrain(modelType: 'leaf' | 'fruit'): Observable<ApiResponse<any>> {
+    const token = localStorage.getItem('access_token');
+    return this.http.post<ApiResponse<any>>(
+      `${this.apiUrl}/retrain/cancel/`,
+      { model_type: modelType },
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  }
+
+  getRetrainJobs(params?: { model_type?: 'leaf' | 'fruit'; page?: number; page_size?: number }): Observable<ApiResponse<{ results: RetrainJob[]; count: number }>> {
+    const token = localStorage.getItem('access_token');
+    let httpParams = new HttpParams();
+    if (params?.model_type) httpParams = httpParams.set('model_type', params.model_type);
+    if (params?.page) httpParams = httpParams.set('page', params.page.toString());
+    if (params?.page_size) httpParams = httpParams.set('page_size', params.page_size.toString());
+
+    return this.http.get<ApiResponse<{ results: RetrainJob[]; count: number }>>(
+      `${this.apiUrl}/retrain/jobs/`,
+      { params: httpParams, headers: { Authorization: `Bearer ${token}` } }
+    );
+  }
+
+  //single job including its per-epoch history
+  getRetrainJob(jobId: number): Observable<ApiResponse<RetrainJob>> {
+    const token = localStorage.getItem('access_token');
+    return this.http.get<ApiResponse<RetrainJob>>(
+      `${this.apiUrl}/retrain/jobs/${jobId}/`,
       { headers: { Authorization: `Bearer ${token}` } }
     );
   }
@@ -782,10 +1002,19 @@ export class MangoDiseaseService {
     );
   }
 
-  getSymptomExtractionStatus(): Observable<ApiResponse<SymptomExtractionStatus>> {
+  cancelSymptomExtraction(modelType: 'leaf' | 'fruit'): Observable<ApiResponse<any>> {
+    const token = localStorage.getItem('access_token');
+    return this.http.post<ApiResponse<any>>(
+      `${this.apiUrl}/retrain/extract-symptoms/cancel/`,
+      { model_type: modelType },
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  }
+
+  getSymptomExtractionStatus(modelType?: 'leaf' | 'fruit'): Observable<ApiResponse<SymptomExtractionStatus>> {
     const token = localStorage.getItem('access_token');
     return this.http.get<ApiResponse<SymptomExtractionStatus>>(
-      `${this.apiUrl}/retrain/extract-symptoms/status/`,
+      `${this.apiUrl}/retrain/extract-symptoms/status/${modelType ? `?model_type=${modelType}` : ''}`,
       { headers: { Authorization: `Bearer ${token}` } }
     );
   }
@@ -807,10 +1036,19 @@ export class MangoDiseaseService {
     );
   }
 
-  getPreprocessingStatus(): Observable<ApiResponse<PreprocessingStatus>> {
+  cancelPreprocessing(modelType: 'leaf' | 'fruit'): Observable<ApiResponse<any>> {
+    const token = localStorage.getItem('access_token');
+    return this.http.post<ApiResponse<any>>(
+      `${this.apiUrl}/retrain/preprocess/cancel/`,
+      { model_type: modelType },
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  }
+
+  getPreprocessingStatus(modelType?: 'leaf' | 'fruit'): Observable<ApiResponse<PreprocessingStatus>> {
     const token = localStorage.getItem('access_token');
     return this.http.get<ApiResponse<PreprocessingStatus>>(
-      `${this.apiUrl}/retrain/preprocess/status/`,
+      `${this.apiUrl}/retrain/preprocess/status/${modelType ? `?model_type=${modelType}` : ''}`,
       { headers: { Authorization: `Bearer ${token}` } }
     );
   }
@@ -0,0 +1,144 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { CalibrationBucket, ModelQualityService } from './model-quality.service';
+
+describe('ModelQualityService', () => {
+  let service: ModelQualityService;
+
+  const bucket = (score: number, correct: number, incorrect: number, unlabelled = 0): CalibrationBucket =>
+    ({ bucket: score, correct, incorrect, unlabelled });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(ModelQualityService);
+  });
+
+  describe('buildMatrix', () => {
+    //"Scab" is only ever predicted, and missing from the label list
+    const matrix = () => service.buildMatrix({
+      model_type: 'leaf',
+      labels: ['Anthracnose', 'Healthy'],
+      cells: [
+        { actual: 'Anthracnose', predicted: 'Anthracnose', count: 3 },
+        { actual: 'Anthracnose', predicted: 'Healthy', count: 1 },
+        { actual: 'Healthy', predicted: 'Healthy', count: 2 },
+        { actual: 'Healthy', predicted: 'Scab', count: 2 },
+      ],
+    });
+
+    it('should lay the cells out with actual classes as rows', () => {
+      const result = matrix();
+
+      expect(result.labels).toEqual(['Anthracnose', 'Healthy', 'Scab']);
+      expect(result.counts).toEqual([[3, 1, 0], [0, 2, 2], [0, 0, 0]]);
+      expect(result.total).toBe(8);
+      expect(result.correct).toBe(5);
+      expect(result.accuracy).toBeCloseTo(5 / 8);
+    });
+
+    it('should compute per-class and averaged metrics', () => {
+      const result = matrix();
+      const cases: [string, number, number, number, number, number][] = [
+        //label, support, predicted, precision, recall, f1
+        ['Anthracnose', 4, 3, 1, 0.75, 6 / 7],
+        ['Healthy', 4, 3, 2 / 3, 0.5, 4 / 7],
+        ['Scab', 0, 2, 0, 0, 0],
+      ];
+
+      cases.forEach(([label, support, predicted, precision, recall, f1], i) => {
+        const metrics = result.perClass[i];
+        expect(metrics.label).toBe(label);
+        expect(metrics.support).withContext(label).toBe(support);
+        expect(metrics.predictedCount).withContext(label).toBe(predicted);
+        expect(metrics.precision).withContext(label).toBeCloseTo(precision);
+        expect(metrics.recall).withContext(label).toBeCloseTo(recall);
+        expect(metrics.f1).withContext(label).toBeCloseTo(f1);
+      });
+      expect(result.macroF1).toBeCloseTo(10 / 21);
+      expect(result.weightedF1).toBeCloseTo(5 / 7);
+    });
+
+    it('should report zeros for an empty matrix', () => {
+      const result = service.buildMatrix({ model_type: 'fruit', labels: ['Healthy'], cells: [] });
+
+      expect(result.counts).toEqual([[0]]);
+      expect([result.accuracy, result.macroF1, result.weightedF1]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('buildReliability', () => {
+    it('should bin labelled buckets and weigh the calibration gap by count', () => {
+      const reliability = service.buildReliability([
+        bucket(5, 1, 1),
+        bucket(50, 0, 0, 4),
+        bucket(95, 3, 1),
+        //a 100% score belongs in the top bin
+        bucket(100, 2, 0, 5),
+      ]);
+
+      const cases: [number, number, number, number][] = [
+        //bin, count, accuracy, mean confidence
+        [0, 2, 0.5, 0.055],
+        [5, 0, 0, 0],
+        [9, 6, 5 / 6, (4 * 0.955 + 2 * 1.005) / 6],
+      ];
+      cases.forEach(([i, count, accuracy, meanConfidence]) => {
+        const bin = reliability.bins[i];
+        expect(bin.count).withContext(`bin ${i}`).toBe(count);
+        expect(bin.accuracy).withContext(`bin ${i}`).toBeCloseTo(accuracy);
+        expect(bin.meanConfidence).withContext(`bin ${i}`).toBeCloseTo(meanConfidence);
+      });
+      expect(reliability.bins.length).toBe(10);
+      expect(reliability.ece).toBeCloseTo(0.215);
+    });
+
+    it('should report no calibration error without labelled images', () => {
+      expect(service.buildReliability([bucket(80, 0, 0, 3)]).ece).toBe(0);
+    });
+  });
+
+  describe('thresholds', () => {
+    const buckets = [bucket(40, 2, 3, 1), bucket(70, 4, 1, 2), bucket(90, 5, 0, 3)];
+
+    it('should split images at the cutoff', () => {
+      const cases: [number, number, number, number, number, number, number][] = [
+        //threshold, accepted, to review, accepted labelled, accepted incorrect, error rate, reviewed correct
+        [0, 21, 0, 15, 4, 4 / 15, 0],
+        [70, 15, 6, 10, 1, 0.1, 2],
+        [91, 0, 21, 0, 0, 0, 11],
+      ];
+
+      cases.forEach(([threshold, accepted, review, labelled, incorrect, errorRate, reviewedCorrect]) => {
+        const summary = service.summarizeThreshold(buckets, threshold);
+        expect([summary.total, summary.autoAccepted, summary.sentToReview]).withContext(`${threshold}`).toEqual([21, accepted, review]);
+        expect([summary.acceptedLabelled, summary.acceptedIncorrect]).withContext(`${threshold}`).toEqual([labelled, incorrect]);
+        expect(summary.errorRate).withContext(`${threshold}`).toBeCloseTo(errorRate);
+        expect(summary.reviewedCorrect).withContext(`${threshold}`).toBe(reviewedCorrect);
+      });
+    });
+
+    it('should find the lowest cutoff within the error budget', () => {
+      const cases: [number, number | null][] = [
+        [0.3, 0],
+        [0.1, 41],
+        [0.05, 71],
+        [0, 71],
+        [-1, null],
+      ];
+      cases.forEach(([maxErrorRate, threshold]) =>
+        expect(service.findThreshold(buckets, maxErrorRate)?.threshold ?? null).withContext(`${maxErrorRate}`).toBe(threshold)
+      );
+    });
+
+    it('should find no cutoff without labelled images', () => {
+      expect(service.findThreshold([bucket(90, 0, 0, 8)], 0.5)).toBeNull();
+    });
+  });
+});
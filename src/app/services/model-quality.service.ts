@@ -0,0 +1,287 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, ImagePagination, MangoImage } from './mango-disease.service';
+
+export type ModelType = 'leaf' | 'fruit';
+
+//where the "actual" class comes from - user confirmations, admin corrections, or both (admin wins)
+export type GroundTruthSource = 'all' | 'user' | 'admin';
+
+export interface ConfusionMatrixFilters {
+  model_type: ModelType;
+  source?: GroundTruthSource;
+  date_from?: string;
+  date_to?: string;
+}
+
+//one predicted/actual pair counted on the server
+export interface ConfusionCell {
+  predicted: string;
+  actual: string;
+  count: number;
+}
+
+export interface ConfusionMatrixData {
+  model_type: ModelType;
+  labels: string[];
+  cells: ConfusionCell[];
+}
+
+export interface ClassMetrics {
+  label: string;
+  support: number;        //images whose actual class is this label
+  predictedCount: number; //images the model put in this label
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ConfusionMatrix {
+  labels: string[];
+  //rows are actual classes, columns are predicted classes
+  counts: number[][];
+  total: number;
+  correct: number;
+  accuracy: number;
+  macroF1: number;
+  weightedF1: number;
+  perClass: ClassMetrics[];
+}
+
+export interface ConfusionCellImagesFilters extends ConfusionMatrixFilters {
+  predicted: string;
+  actual: string;
+  page?: number;
+  page_size?: number;
+}
+
+//top-1 confidence, or the gap between the top-1 and top-2 predictions
+export type CalibrationScore = 'confidence' | 'margin';
+
+export interface CalibrationFilters extends ConfusionMatrixFilters {
+  score?: CalibrationScore;
+}
+
+//images whose score falls in [bucket, bucket + 1) percent
+export interface CalibrationBucket {
+  bucket: number;
+  correct: number;
+  incorrect: number;
+  unlabelled: number;
+}
+
+export interface CalibrationData {
+  model_type: ModelType;
+  score: CalibrationScore;
+  buckets: CalibrationBucket[];
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  correct: number;
+  accuracy: number;
+  meanConfidence: number;
+}
+
+export interface Reliability {
+  bins: ReliabilityBin[];
+  //expected calibration error - weighted gap between accuracy and confidence
+  ece: number;
+}
+
+export interface ThresholdSummary {
+  threshold: number;
+  total: number;
+  autoAccepted: number;
+  sentToReview: number;
+  //labelled images above the cutoff, and how many of those the model got wrong
+  acceptedLabelled: number;
+  acceptedIncorrect: number;
+  errorRate: number;
+  //correct predictions below the cutoff that would still go to a reviewer
+  reviewedCorrect: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ModelQualityService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  getConfusionMatrix(filters: ConfusionMatrixFilters): Observable<ApiResponse<ConfusionMatrixData>> {
+    return this.http.get<ApiResponse<ConfusionMatrixData>>(
+      `${this.apiUrl}/model-quality/confusion-matrix/`,
+      { params: this.toParams(filters) }
+    ).pipe(
+      catchError(error => {
+        console.error('Error fetching confusion matrix:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  //images behind a single matrix cell
+  getCellImages(filters: ConfusionCellImagesFilters): Observable<ApiResponse<{ images: MangoImage[]; pagination: ImagePagination }>> {
+    return this.http.get<ApiResponse<{ images: MangoImage[]; pagination: ImagePagination }>>(
+      `${this.apiUrl}/model-quality/confusion-matrix/images/`,
+      { params: this.toParams(filters) }
+    ).pipe(
+      catchError(error => {
+        console.error('Error fetching confusion matrix images:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /** Turn the server's cell list into a square matrix with per-class precision, recall and F1. */
+  buildMatrix(data: ConfusionMatrixData): ConfusionMatrix {
+    //labels can show up in cells without being in the label list (e.g. a class removed from the vocabulary)
+    const labels = [...data.labels];
+    data.cells.forEach(cell => {
+      if (!labels.includes(cell.actual)) labels.push(cell.actual);
+      if (!labels.includes(cell.predicted)) labels.push(cell.predicted);
+    });
+
+    const index = new Map(labels.map((label, i) => [label, i]));
+    const counts = labels.map(() => labels.map(() => 0));
+    data.cells.forEach(cell => {
+      counts[index.get(cell.actual)!][index.get(cell.predicted)!] += cell.count;
+    });
+
+    let total = 0;
+    let correct = 0;
+    const perClass: ClassMetrics[] = labels.map((label, i) => {
+      const support = counts[i].reduce((sum, n) => sum + n, 0);
+      const predictedCount = counts.reduce((sum, row) => sum + row[i], 0);
+      const truePositives = counts[i][i];
+      const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+      const recall = support > 0 ? truePositives / support : 0;
+      const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+      total += support;
+      correct += truePositives;
+      return { label, support, predictedCount, truePositives, precision, recall, f1 };
+    });
+
+    //macro average only over classes that actually occur
+    const present = perClass.filter(c => c.support > 0 || c.predictedCount > 0);
+    const macroF1 = present.length > 0 ? present.reduce((sum, c) => sum + c.f1, 0) / present.length : 0;
+    const weightedF1 = total > 0 ? perClass.reduce((sum, c) => sum + c.f1 * c.support, 0) / total : 0;
+
+    return {
+      labels,
+      counts,
+      total,
+      correct,
+      accuracy: total > 0 ? correct / total : 0,
+      macroF1,
+      weightedF1,
+      perClass,
+    };
+  }
+
+  getCalibration(filters: CalibrationFilters): Observable<ApiResponse<CalibrationData>> {
+    return this.http.get<ApiResponse<CalibrationData>>(
+      `${this.apiUrl}/model-quality/calibration/`,
+      { params: this.toParams(filters) }
+    ).pipe(
+      catchError(error => {
+        console.error('Error fetching calibration data:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /** Group the 1% buckets into wider bins for the reliability diagram. */
+  buildReliability(buckets: CalibrationBucket[], binCount = 10): Reliability {
+    const width = 100 / binCount;
+    const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+      lower: i * width,
+      upper: (i + 1) * width,
+      count: 0,
+      correct: 0,
+      accuracy: 0,
+      meanConfidence: 0,
+    }));
+
+    buckets.forEach(bucket => {
+      const labelled = bucket.correct + bucket.incorrect;
+      if (labelled === 0) return;
+      const bin = bins[Math.min(binCount - 1, Math.floor(bucket.bucket / width))];
+      bin.count += labelled;
+      bin.correct += bucket.correct;
+      //bucket midpoint stands in for the individual scores
+      bin.meanConfidence += labelled * (bucket.bucket + 0.5) / 100;
+    });
+
+    let total = 0;
+    let weightedGap = 0;
+    bins.forEach(bin => {
+      if (bin.count === 0) return;
+      bin.accuracy = bin.correct / bin.count;
+      bin.meanConfidence = bin.meanConfidence / bin.count;
+      total += bin.count;
+      weightedGap += bin.count * Math.abs(bin.accuracy - bin.meanConfidence);
+    });
+
+    return { bins, ece: total > 0 ? weightedGap / total : 0 };
+  }
+
+  /** What happens if everything at or above `threshold` percent is auto-verified. */
+  summarizeThreshold(buckets: CalibrationBucket[], threshold: number): ThresholdSummary {
+    const summary: ThresholdSummary = {
+      threshold,
+      total: 0,
+      autoAccepted: 0,
+      sentToReview: 0,
+      acceptedLabelled: 0,
+      acceptedIncorrect: 0,
+      errorRate: 0,
+      reviewedCorrect: 0,
+    };
+
+    buckets.forEach(bucket => {
+      const count = bucket.correct + bucket.incorrect + bucket.unlabelled;
+      summary.total += count;
+      if (bucket.bucket >= threshold) {
+        summary.autoAccepted += count;
+        summary.acceptedLabelled += bucket.correct + bucket.incorrect;
+        summary.acceptedIncorrect += bucket.incorrect;
+      } else {
+        summary.sentToReview += count;
+        summary.reviewedCorrect += bucket.correct;
+      }
+    });
+
+    summary.errorRate = summary.acceptedLabelled > 0 ? summary.acceptedIncorrect / summary.acceptedLabelled : 0;
+    return summary;
+  }
+
+  /** Lowest cutoff whose auto-accepted labelled images stay within `maxErrorRate`. */
+  findThreshold(buckets: CalibrationBucket[], maxErrorRate: number): ThresholdSummary | null {
+    for (let threshold = 0; threshold <= 100; threshold++) {
+      const summary = this.summarizeThreshold(buckets, threshold);
+      if (summary.acceptedLabelled > 0 && summary.errorRate <= maxErrorRate) {
+        return summary;
+      }
+    }
+    return null;
+  }
+
+  private toParams(filters: object): HttpParams {
+    let params = new HttpParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value !== '') {
+        params = params.set(key, String(value));
+      }
+    });
+    return params;
+  }
+}
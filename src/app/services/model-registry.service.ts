@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, RetrainConfig } from './mango-disease.service';
+
+export type ModelKind = 'mobilenetv2' | 'hybrid_cnn';
+
+export interface ModelClassCounts {
+  [cls: string]: { total: number; train: number; val: number };
+}
+
+export interface ModelVersion {
+  id: number;
+  filename: string;
+  model_type: 'leaf' | 'fruit';
+  model_kind: ModelKind | null;
+  config: RetrainConfig | null;
+  class_counts: ModelClassCounts | null;
+  accuracy: number | null;
+  trained_at: string | null;
+  trained_by: string | null;
+  registered_at: string;
+}
+
+/**
+ * Trained model versions. The server registers each version itself when a retrain job finishes,
+ * taking the config, dataset counts and accuracy from the job, so this side only reads the registry.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ModelRegistryService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  getVersions(modelType?: 'leaf' | 'fruit'): Observable<ApiResponse<ModelVersion[]>> {
+    let params = new HttpParams();
+    if (modelType) {
+      params = params.set('model_type', modelType);
+    }
+    return this.http.get<ApiResponse<ModelVersion[]>>(`${this.apiUrl}/model-registry/`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching model registry:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+}
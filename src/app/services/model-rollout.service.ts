@@ -0,0 +1,160 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, tap, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse } from './mango-disease.service';
+import { AuditLogService } from './audit-log.service';
+
+export interface ModelRollout {
+  model_type: 'leaf' | 'fruit';
+  active_model: string;
+  //null when no canary is running; the active model then serves all traffic
+  candidate_model: string | null;
+  candidate_percent: number;
+  started_at: string | null;
+  started_by: string | null;
+}
+
+//predictions served by one model file since the rollout started, grouped by MangoImage.model_path
+export interface RolloutModelStats {
+  model_path: string;
+  role: 'active' | 'candidate';
+  predictions: number;
+  //ten buckets of ten confidence points each, 0-9% first
+  confidence_buckets: number[];
+  mean_confidence: number | null;
+  confirmed_correct: number;
+  confirmed_incorrect: number;
+}
+
+export interface RolloutMetrics {
+  model_type: 'leaf' | 'fruit';
+  since: string | null;
+  models: RolloutModelStats[];
+}
+
+export interface ConfirmationRate {
+  rate: number | null;
+  n: number;
+  //95% Wilson interval, so small samples show how little they say
+  low: number | null;
+  high: number | null;
+}
+
+export interface RolloutComparison {
+  difference: number | null;
+  significant: boolean;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ModelRolloutService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient, private auditLog: AuditLogService) {}
+
+  getRollouts(): Observable<ApiResponse<ModelRollout[]>> {
+    return this.http.get<ApiResponse<ModelRollout[]>>(`${this.apiUrl}/model-rollout/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching model rollouts:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /** Send `percent` of new predictions for this model type to the candidate file. */
+  startRollout(modelType: 'leaf' | 'fruit', candidate: string, percent: number, before?: ModelRollout): Observable<ApiResponse<ModelRollout>> {
+    const after = { candidate_model: candidate, candidate_percent: percent };
+    return this.http.post<ApiResponse<ModelRollout>>(`${this.apiUrl}/model-rollout/`, { model_type: modelType, ...after })
+      .pipe(
+        tap(res => this.audit(res, modelType, before, after)),
+        catchError(error => {
+          console.error('Error starting model rollout:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  setPercent(modelType: 'leaf' | 'fruit', percent: number, before?: ModelRollout): Observable<ApiResponse<ModelRollout>> {
+    return this.http.patch<ApiResponse<ModelRollout>>(`${this.apiUrl}/model-rollout/${modelType}/`, { candidate_percent: percent })
+      .pipe(
+        tap(res => this.audit(res, modelType, before, { candidate_percent: percent })),
+        catchError(error => {
+          console.error('Error updating rollout percentage:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //candidate becomes the active model for all traffic
+  promote(modelType: 'leaf' | 'fruit', before?: ModelRollout): Observable<ApiResponse<ModelRollout>> {
+    return this.http.post<ApiResponse<ModelRollout>>(`${this.apiUrl}/model-rollout/${modelType}/promote/`, {})
+      .pipe(
+        tap(res => this.audit(res, modelType, before, { active_model: before?.candidate_model, candidate_model: null })),
+        catchError(error => {
+          console.error('Error promoting candidate model:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //candidate is dropped and the active model takes all traffic again
+  rollback(modelType: 'leaf' | 'fruit', before?: ModelRollout): Observable<ApiResponse<ModelRollout>> {
+    return this.http.post<ApiResponse<ModelRollout>>(`${this.apiUrl}/model-rollout/${modelType}/rollback/`, {})
+      .pipe(
+        tap(res => this.audit(res, modelType, before, { candidate_model: null, candidate_percent: 0 })),
+        catchError(error => {
+          console.error('Error rolling back candidate model:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  getMetrics(modelType: 'leaf' | 'fruit', since?: string): Observable<ApiResponse<RolloutMetrics>> {
+    let params = new HttpParams();
+    if (since) {
+      params = params.set('since', since);
+    }
+    return this.http.get<ApiResponse<RolloutMetrics>>(`${this.apiUrl}/model-rollout/${modelType}/metrics/`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching rollout metrics:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // ── metrics ────────────────────────────────────────────────────────────────
+
+  /** Share of user-confirmed predictions that users marked correct. */
+  confirmationRate(stats: RolloutModelStats): ConfirmationRate {
+    const n = stats.confirmed_correct + stats.confirmed_incorrect;
+    if (n === 0) return { rate: null, n, low: null, high: null };
+
+    const p = stats.confirmed_correct / n;
+    const z = 1.96;
+    const denom = 1 + z * z / n;
+    const centre = (p + z * z / (2 * n)) / denom;
+    const margin = (z * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n))) / denom;
+    return { rate: p, n, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+  }
+
+  /** Candidate minus active confirmation rate, with a two-proportion z-test at 95%. */
+  compare(active: RolloutModelStats, candidate: RolloutModelStats): RolloutComparison {
+    const a = this.confirmationRate(active);
+    const b = this.confirmationRate(candidate);
+    if (a.rate === null || b.rate === null) return { difference: null, significant: false };
+
+    const pooled = (active.confirmed_correct + candidate.confirmed_correct) / (a.n + b.n);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.n + 1 / b.n));
+    const difference = b.rate - a.rate;
+    return { difference, significant: se > 0 && Math.abs(difference / se) > 1.96 };
+  }
+
+  private audit(res: ApiResponse<ModelRollout>, modelType: 'leaf' | 'fruit', before: ModelRollout | undefined, after: any): void {
+    if (!res.success) return;
+    this.auditLog.record({ action: 'model_rollout_updated', target_type: 'model_rollout', target_id: modelType, before, after });
+  }
+}
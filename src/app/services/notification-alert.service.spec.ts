@@ -0,0 +1,168 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { NotificationAlertService } from './notification-alert.service';
+import { NotificationData, NotificationService } from './notification.service';
+import { NotificationRule, NotificationRuleService } from './notification-rule.service';
+
+//stands in for the browser's BroadcastChannel so tests can deliver other tabs' claims
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: any }) => void) | null = null;
+  posted: any[] = [];
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(message: any): void {
+    this.posted.push(message);
+  }
+
+  close(): void {}
+}
+
+describe('NotificationAlertService', () => {
+  let service: NotificationAlertService;
+  let incoming: Subject<NotificationData>;
+  let ruleServiceSpy: jasmine.SpyObj<NotificationRuleService>;
+  let chime: jasmine.Spy;
+  let realBroadcastChannel: typeof BroadcastChannel;
+
+  const PREFS_KEY = 'notification_alert_prefs';
+
+  const notification = (id: string, matchedRuleIds: number[] = []): NotificationData => ({
+    id,
+    userId: '1',
+    userName: 'Juan',
+    userEmail: 'juan@example.com',
+    imageId: id,
+    imageName: `${id}.jpg`,
+    timestamp: '2026-10-15T08:00:00Z',
+    diseaseClassification: 'Anthracnose',
+    diseaseType: 'leaf',
+    detectionType: 'leaf',
+    confidence: 0.9,
+    isRead: false,
+    matchedRuleIds,
+  });
+
+  const rule = (id: number, soundAlert: boolean) =>
+    ({ id, name: `Rule ${id}`, kind: 'disease_detected', desktop_alert: false, sound_alert: soundAlert } as NotificationRule);
+
+  beforeEach(() => {
+    localStorage.removeItem(PREFS_KEY);
+    realBroadcastChannel = window.BroadcastChannel;
+    FakeBroadcastChannel.instances = [];
+    (window as any).BroadcastChannel = FakeBroadcastChannel;
+    incoming = new Subject<NotificationData>();
+    ruleServiceSpy = jasmine.createSpyObj('NotificationRuleService', ['getRules']);
+    ruleServiceSpy.getRules.and.returnValue(of({ success: true, data: [rule(1, true), rule(2, false)] }));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: NotificationService, useValue: { incoming$: incoming.asObservable() } },
+        { provide: NotificationRuleService, useValue: ruleServiceSpy },
+        { provide: Router, useValue: jasmine.createSpyObj('Router', ['navigate']) },
+      ]
+    });
+
+    service = TestBed.inject(NotificationAlertService);
+    chime = spyOn<any>(service, 'playChime');
+  });
+
+  afterEach(() => {
+    (window as any).BroadcastChannel = realBroadcastChannel;
+    localStorage.removeItem(PREFS_KEY);
+  });
+
+  it('should pick up preferences changed in another tab', () => {
+    let enabled: boolean | undefined;
+    service.prefs$.subscribe(prefs => enabled = prefs.enabled);
+
+    //the other tab writes storage; this tab only hears the event
+    localStorage.setItem(PREFS_KEY, JSON.stringify({ enabled: true }));
+    window.dispatchEvent(new StorageEvent('storage', { key: PREFS_KEY }));
+
+    expect(enabled).toBeTrue();
+  });
+
+  it('should sound only for notifications matching a rule that asks for it', fakeAsync(() => {
+    service.updatePrefs({ enabled: true });
+    service.start();
+
+    incoming.next(notification('1', [2]));
+    tick(250);
+    expect(chime).not.toHaveBeenCalled();
+
+    incoming.next(notification('2', [1, 2]));
+    tick(250);
+    expect(chime).toHaveBeenCalledTimes(1);
+
+    service.stop();
+  }));
+
+  it('should use the unmatched settings when no rule matched, and stay quiet while disabled', fakeAsync(() => {
+    service.updatePrefs({ unmatchedSound: true });
+    service.start();
+
+    incoming.next(notification('1'));
+    tick(250);
+    expect(chime).not.toHaveBeenCalled();
+
+    service.updatePrefs({ enabled: true });
+    incoming.next(notification('2'));
+    tick(250);
+    expect(chime).toHaveBeenCalledTimes(1);
+    expect(ruleServiceSpy.getRules).not.toHaveBeenCalled();
+
+    service.stop();
+  }));
+
+  describe('claiming across tabs', () => {
+    //a claim as another tab would broadcast it
+    const claimFrom = (tabId: string, notificationId: string) =>
+      FakeBroadcastChannel.instances[0].onmessage!({ data: { type: 'claim', notificationId, tabId } });
+
+    beforeEach(() => {
+      (service as any).tabId = 'm';
+      service.updatePrefs({ enabled: true, unmatchedSound: true });
+      service.start();
+    });
+
+    afterEach(() => {
+      service.stop();
+    });
+
+    it('should stay quiet when another tab claimed the notification before it arrived here', fakeAsync(() => {
+      claimFrom('z', '1');
+
+      incoming.next(notification('1'));
+      tick(250);
+
+      expect(chime).not.toHaveBeenCalled();
+      expect(FakeBroadcastChannel.instances[0].posted).toEqual([]);
+    }));
+
+    it('should leave the alert to a tab with a lower id claiming within the window', fakeAsync(() => {
+      incoming.next(notification('1'));
+      tick(100);
+      expect(FakeBroadcastChannel.instances[0].posted).toEqual([{ type: 'claim', notificationId: '1', tabId: 'm' }]);
+
+      claimFrom('a', '1');
+      tick(150);
+
+      expect(chime).not.toHaveBeenCalled();
+    }));
+
+    it('should alert when its own id is the lowest that claimed within the window', fakeAsync(() => {
+      incoming.next(notification('1'));
+      tick(100);
+
+      claimFrom('z', '1');
+      tick(150);
+
+      expect(chime).toHaveBeenCalledTimes(1);
+    }));
+  });
+});
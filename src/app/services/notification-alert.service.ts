@@ -0,0 +1,297 @@
+import { Injectable, Inject, NgZone, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Subscription, firstValueFrom } from 'rxjs';
+import { NotificationData, NotificationService } from './notification.service';
+import { NotificationRule, NotificationRuleService } from './notification-rule.service';
+
+//per browser, not per account - alerts are about this device
+export interface NotificationAlertPrefs {
+  enabled: boolean;
+  //for notifications none of the admin's rules matched (everything, while they have no rules)
+  unmatchedDesktop: boolean;
+  unmatchedSound: boolean;
+}
+
+export type AlertPermission = NotificationPermission | 'unsupported';
+
+const PREFS_KEY = 'notification_alert_prefs';
+const CHANNEL_NAME = 'notification_alerts';
+//how long tabs collect claims before the lowest tab id raises the alert
+const CLAIM_WINDOW_MS = 250;
+//polling tabs can see a notification up to a poll interval late, so claims are remembered well past that
+const CLAIM_MEMORY_MS = 10 * 60 * 1000;
+const RULES_MAX_AGE_MS = 60 * 1000;
+
+interface AlertClaim {
+  type: 'claim';
+  notificationId: string;
+  tabId: string;
+}
+
+/**
+ * Desktop notifications and sound for newly arrived notifications. Every open tab receives the
+ * same notification, so tabs claim it over a BroadcastChannel: tabs that claim within the same
+ * window settle on the lowest tab id, and a tab that hears a claim before its own copy arrives stays quiet.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationAlertService {
+  private prefsSubject = new BehaviorSubject<NotificationAlertPrefs>(this.defaultPrefs());
+  public prefs$ = this.prefsSubject.asObservable();
+
+  private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private channel: BroadcastChannel | null = null;
+  //notification id -> first claim time + every tab that claimed it
+  private claims = new Map<string, { firstAt: number; tabIds: Set<string> }>();
+
+  private incomingSub?: Subscription;
+  private rules: NotificationRule[] = [];
+  private rulesLoadedAt = 0;
+  private audioContext: AudioContext | null = null;
+
+  constructor(
+    private notificationService: NotificationService,
+    private ruleService: NotificationRuleService,
+    private router: Router,
+    private zone: NgZone,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {
+    if (isPlatformBrowser(this.platformId)) {
+      this.prefsSubject.next(this.loadPrefs());
+      //fires in every other open tab, so switching alerts off anywhere silences them all
+      window.addEventListener('storage', (event: StorageEvent) => {
+        if (event.key === PREFS_KEY) {
+          this.zone.run(() => this.prefsSubject.next(this.loadPrefs()));
+        }
+      });
+    }
+  }
+
+  //call once the user is logged in
+  start(): void {
+    if (!isPlatformBrowser(this.platformId) || this.incomingSub) {
+      return;
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<AlertClaim>) => {
+        if (event.data?.type === 'claim') {
+          this.recordClaim(event.data.notificationId, event.data.tabId);
+        }
+      };
+    }
+
+    this.incomingSub = this.notificationService.incoming$.subscribe(notification => this.onIncoming(notification));
+  }
+
+  stop(): void {
+    this.incomingSub?.unsubscribe();
+    this.incomingSub = undefined;
+    this.channel?.close();
+    this.channel = null;
+    this.claims.clear();
+    this.rulesLoadedAt = 0;
+  }
+
+  // ── preferences ────────────────────────────────────────────────────────────
+
+  get permission(): AlertPermission {
+    if (!isPlatformBrowser(this.platformId) || typeof Notification === 'undefined') {
+      return 'unsupported';
+    }
+    return Notification.permission;
+  }
+
+  //turning alerts on asks the browser for permission; sound still works if that is refused
+  async setEnabled(enabled: boolean): Promise<AlertPermission> {
+    if (enabled && this.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    if (enabled) {
+      //created during the click so the browser allows it to play later
+      this.unlockAudio();
+    }
+    this.updatePrefs({ enabled });
+    return this.permission;
+  }
+
+  updatePrefs(changes: Partial<NotificationAlertPrefs>): void {
+    const prefs = { ...this.prefsSubject.value, ...changes };
+    this.prefsSubject.next(prefs);
+    localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  }
+
+  //so the settings card can demo the chime
+  playTestSound(): void {
+    this.unlockAudio();
+    this.playChime();
+  }
+
+  //rule flags changed on the rules page
+  invalidateRules(): void {
+    this.rulesLoadedAt = 0;
+  }
+
+  // ── alerting ───────────────────────────────────────────────────────────────
+
+  private async onIncoming(notification: NotificationData): Promise<void> {
+    const prefs = this.prefsSubject.value;
+    if (!prefs.enabled) {
+      return;
+    }
+
+    const { desktop, sound } = await this.alertKinds(notification, prefs);
+    if (!desktop && !sound) {
+      return;
+    }
+
+    if (!(await this.claim(notification.id))) {
+      return;
+    }
+
+    if (desktop && this.permission === 'granted') {
+      this.showDesktop(notification);
+    }
+    if (sound) {
+      this.playChime();
+    }
+  }
+
+  //matched rules decide; with no matches the device-wide unmatched settings apply
+  private async alertKinds(notification: NotificationData, prefs: NotificationAlertPrefs): Promise<{ desktop: boolean; sound: boolean }> {
+    if (notification.matchedRuleIds.length === 0) {
+      return { desktop: prefs.unmatchedDesktop, sound: prefs.unmatchedSound };
+    }
+
+    const rules = await this.currentRules();
+    const matched = rules.filter(rule => notification.matchedRuleIds.includes(rule.id));
+    return {
+      desktop: matched.some(rule => rule.desktop_alert),
+      sound: matched.some(rule => rule.sound_alert),
+    };
+  }
+
+  private async currentRules(): Promise<NotificationRule[]> {
+    if (Date.now() - this.rulesLoadedAt > RULES_MAX_AGE_MS) {
+      try {
+        const res = await firstValueFrom(this.ruleService.getRules());
+        this.rules = res.data ?? [];
+        this.rulesLoadedAt = Date.now();
+      } catch {
+        //keep the last known rules
+      }
+    }
+    return this.rules;
+  }
+
+  //true when this tab should raise the alert
+  private async claim(notificationId: string): Promise<boolean> {
+    this.pruneClaims();
+
+    if (this.claims.has(notificationId)) {
+      //another tab got it first and is deciding (or already decided) without us
+      return false;
+    }
+
+    this.recordClaim(notificationId, this.tabId);
+    if (!this.channel) {
+      return true;
+    }
+
+    const claim: AlertClaim = { type: 'claim', notificationId, tabId: this.tabId };
+    this.channel.postMessage(claim);
+    await new Promise(resolve => setTimeout(resolve, CLAIM_WINDOW_MS));
+
+    const tabIds = Array.from(this.claims.get(notificationId)?.tabIds ?? []);
+    return tabIds.sort()[0] === this.tabId;
+  }
+
+  private recordClaim(notificationId: string, tabId: string): void {
+    const entry = this.claims.get(notificationId);
+    if (entry) {
+      entry.tabIds.add(tabId);
+    } else {
+      this.claims.set(notificationId, { firstAt: Date.now(), tabIds: new Set([tabId]) });
+    }
+  }
+
+  private pruneClaims(): void {
+    const cutoff = Date.now() - CLAIM_MEMORY_MS;
+    this.claims.forEach((entry, id) => {
+      if (entry.firstAt < cutoff) {
+        this.claims.delete(id);
+      }
+    });
+  }
+
+  private showDesktop(notification: NotificationData): void {
+    const confidence = notification.confidence > 1 ? notification.confidence : notification.confidence * 100;
+    const ruleNames = this.rules
+      .filter(rule => notification.matchedRuleIds.includes(rule.id))
+      .map(rule => rule.name);
+
+    const desktop = new Notification(`${notification.diseaseClassification || notification.diseaseType} detected`, {
+      body: `${notification.userName} uploaded ${notification.imageName || 'an image'} · ${confidence.toFixed(1)}% confidence`
+        + (ruleNames.length ? `\nRule: ${ruleNames.join(', ')}` : ''),
+      tag: `notification-${notification.id}`,
+      icon: '/favicon.ico',
+    });
+
+    desktop.onclick = () => {
+      window.focus();
+      desktop.close();
+      this.zone.run(() => {
+        this.notificationService.markAsRead(notification.id);
+        this.router.navigate(['/admin/image-detail', notification.imageId]);
+      });
+    };
+  }
+
+  private unlockAudio(): void {
+    if (typeof AudioContext === 'undefined') {
+      return;
+    }
+    this.audioContext ??= new AudioContext();
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => {});
+    }
+  }
+
+  //two short tones; no audio asset needed
+  private playChime(): void {
+    this.unlockAudio();
+    const ctx = this.audioContext;
+    if (!ctx) {
+      return;
+    }
+
+    [880, 1320].forEach((frequency, i) => {
+      const start = ctx.currentTime + i * 0.15;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.14);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.15);
+    });
+  }
+
+  private defaultPrefs(): NotificationAlertPrefs {
+    return { enabled: false, unmatchedDesktop: false, unmatchedSound: false };
+  }
+
+  private loadPrefs(): NotificationAlertPrefs {
+    try {
+      return { ...this.defaultPrefs(), ...JSON.parse(localStorage.getItem(PREFS_KEY) || '{}') };
+    } catch {
+      return this.defaultPrefs();
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { NotificationRule, NotificationRuleService } from './notification-rule.service';
+
+describe('NotificationRuleService', () => {
+  let service: NotificationRuleService;
+
+  const rule = (changes: Partial<NotificationRule>): NotificationRule => ({
+    id: 1,
+    name: 'Rule',
+    kind: 'disease_detected',
+    enabled: true,
+    disease_classification: null,
+    plant_part: null,
+    confidence_below: null,
+    province: null,
+    max_uploads_per_hour: null,
+    desktop_alert: false,
+    sound_alert: false,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...changes,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(NotificationRuleService);
+  });
+
+  it('should describe disease rules, with the plant part when set', () => {
+    expect(service.describe(rule({ disease_classification: 'Anthracnose', plant_part: 'leaf' })))
+      .toBe('Anthracnose (leaf) detected');
+    expect(service.describe(rule({}))).toBe('Any disease detected');
+  });
+
+  it('should describe confidence and upload burst rules', () => {
+    expect(service.describe(rule({ kind: 'low_confidence', confidence_below: 60, plant_part: 'fruit' })))
+      .toBe('Confidence below 60% (fruit)');
+    expect(service.describe(rule({ kind: 'upload_burst', max_uploads_per_hour: 50 })))
+      .toBe('A user uploads more than 50 images in an hour');
+  });
+
+  it('should fall back to any disease and any province for new disease rules', () => {
+    expect(service.describe(rule({ kind: 'new_disease_in_province', disease_classification: 'Sooty Mold', province: 'Guimaras' })))
+      .toBe('Sooty Mold first reported in Guimaras');
+    expect(service.describe(rule({ kind: 'new_disease_in_province' })))
+      .toBe('A disease first reported in any province');
+  });
+});
@@ -0,0 +1,106 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse } from './mango-disease.service';
+
+export type NotificationRuleKind =
+  | 'disease_detected'         //a given disease is predicted
+  | 'low_confidence'           //prediction confidence under a threshold
+  | 'new_disease_in_province'  //first report of a disease in a province
+  | 'upload_burst';            //one user sends more than N images in an hour
+
+export interface NotificationRule {
+  id: number;
+  name: string;
+  kind: NotificationRuleKind;
+  enabled: boolean;
+  //condition fields, only the ones for `kind` are set
+  disease_classification: string | null; //disease_detected; null on new_disease_in_province = any disease
+  plant_part: 'leaf' | 'fruit' | null;   //null = both
+  confidence_below: number | null;       //percent, low_confidence
+  province: string | null;               //new_disease_in_province; null = any province
+  max_uploads_per_hour: number | null;   //upload_burst
+  //how a match is announced on devices where alerts are switched on
+  desktop_alert: boolean;
+  sound_alert: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationRuleInput = Omit<NotificationRule, 'id' | 'created_at' | 'updated_at'>;
+
+export const NOTIFICATION_RULE_KINDS: { kind: NotificationRuleKind; label: string }[] = [
+  { kind: 'disease_detected',        label: 'Disease detected' },
+  { kind: 'low_confidence',          label: 'Low confidence' },
+  { kind: 'new_disease_in_province', label: 'New disease in a province' },
+  { kind: 'upload_burst',            label: 'Upload burst from one user' },
+];
+
+/**
+ * The signed-in admin's own notification subscriptions. Rules are evaluated server-side;
+ * each notification comes back with the ids of the rules it matched.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationRuleService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  getRules(): Observable<ApiResponse<NotificationRule[]>> {
+    return this.http.get<ApiResponse<NotificationRule[]>>(`${this.apiUrl}/notifications/rules/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching notification rules:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  createRule(rule: NotificationRuleInput): Observable<ApiResponse<NotificationRule>> {
+    return this.http.post<ApiResponse<NotificationRule>>(`${this.apiUrl}/notifications/rules/`, rule)
+      .pipe(
+        catchError(error => {
+          console.error('Error creating notification rule:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  updateRule(id: number, rule: Partial<NotificationRuleInput>): Observable<ApiResponse<NotificationRule>> {
+    return this.http.patch<ApiResponse<NotificationRule>>(`${this.apiUrl}/notifications/rules/${id}/`, rule)
+      .pipe(
+        catchError(error => {
+          console.error('Error updating notification rule:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  deleteRule(id: number): Observable<ApiResponse<any>> {
+    return this.http.delete<ApiResponse<any>>(`${this.apiUrl}/notifications/rules/${id}/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error deleting notification rule:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //one-line summary of the condition, for lists and group headers
+  describe(rule: NotificationRule): string {
+    const part = rule.plant_part ? ` (${rule.plant_part})` : '';
+    switch (rule.kind) {
+      case 'disease_detected':
+        return `${rule.disease_classification || 'Any disease'}${part} detected`;
+      case 'low_confidence':
+        return `Confidence below ${rule.confidence_below ?? 0}%${part}`;
+      case 'new_disease_in_province':
+        return `${rule.disease_classification || 'A disease'}${part} first reported in ${rule.province || 'any province'}`;
+      case 'upload_burst':
+        return `A user uploads more than ${rule.max_uploads_per_hour ?? 0} images in an hour`;
+    }
+  }
+}
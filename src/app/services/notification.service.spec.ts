@@ -0,0 +1,210 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
+import { LiveTransport, NotificationData, NotificationService } from './notification.service';
+import { AuthService } from './auth.service';
+
+//stands in for the browser's EventSource so tests can open and fail the stream
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(): void {}
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let httpMock: HttpTestingController;
+  let authServiceSpy: jasmine.SpyObj<AuthService>;
+  let realEventSource: typeof EventSource;
+
+  const item = (id: number, minute: number, extra: any = {}) => ({
+    id,
+    user_id: 1,
+    user_name: 'Juan',
+    user_email: 'juan@example.com',
+    image_id: id,
+    image_name: `${id}.jpg`,
+    timestamp: `2026-10-15T08:${String(minute).padStart(2, '0')}:00Z`,
+    disease_classification: 'Anthracnose',
+    disease_type: 'leaf',
+    confidence: 0.9,
+    is_read: false,
+    ...extra,
+  });
+
+  const fullLoad = (): TestRequest => httpMock.expectOne(r => r.params.get('page_size') === '100');
+  const poll = (): TestRequest => httpMock.expectOne(r => r.url.includes('/notifications/') && !r.params.has('page_size'));
+
+  beforeEach(() => {
+    authServiceSpy = jasmine.createSpyObj('AuthService', ['getToken']);
+    realEventSource = window.EventSource;
+    FakeEventSource.instances = [];
+    (window as any).EventSource = FakeEventSource;
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: authServiceSpy },
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(NotificationService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    (window as any).EventSource = realEventSource;
+    httpMock.verify();
+  });
+
+  //timers only run inside fakeAsync, and must be gone by the end of it
+  const liveTest = (body: () => void) => fakeAsync(() => {
+    service.startLiveUpdates();
+    body();
+    service.stopLiveUpdates();
+  });
+
+  describe('merging', () => {
+    let latest: NotificationData[];
+    let incoming: NotificationData[];
+
+    beforeEach(() => {
+      //no token, so no push stream: polling only
+      authServiceSpy.getToken.and.returnValue(null);
+      latest = [];
+      incoming = [];
+      service.notifications$.subscribe(list => latest = list);
+      service.incoming$.subscribe(n => incoming.push(n));
+    });
+
+    it('should not announce the backlog merged in before the first full load', liveTest(() => {
+      poll().flush([item(1, 0)]);
+      fullLoad().flush({ notifications: [item(1, 0), item(2, 1)] });
+
+      expect(latest.map(n => n.id)).toEqual(['2', '1']);
+      expect(incoming).toEqual([]);
+    }));
+
+    it('should upsert polled items by id and announce only new ones', liveTest(() => {
+      poll().flush([]);
+      fullLoad().flush({ notifications: [item(1, 0), item(2, 1)] });
+      const untouched = latest.find(n => n.id === '1');
+
+      tick(30000);
+      const req = httpMock.expectOne(r => r.url.includes('since='));
+      req.flush([item(2, 1, { is_read: true }), item(3, 2)]);
+
+      expect(latest.map(n => n.id)).toEqual(['3', '2', '1']);
+      expect(latest.find(n => n.id === '2')!.isRead).toBeTrue();
+      expect(latest.find(n => n.id === '1')).toBe(untouched);
+      expect(incoming.map(n => n.id)).toEqual(['3']);
+    }));
+
+    it('should leave hidden notifications out of merges', liveTest(() => {
+      poll().flush([]);
+      fullLoad().flush({ notifications: [item(1, 0)] });
+      service.hideNotifications(['1']);
+
+      tick(30000);
+      //nothing left to take a since from, so this is a plain poll
+      poll().flush([item(1, 0, { is_read: true })]);
+
+      expect(latest).toEqual([]);
+    }));
+  });
+
+  describe('push reconnect', () => {
+    let transport: LiveTransport;
+
+    beforeEach(() => {
+      authServiceSpy.getToken.and.returnValue('token');
+      //lowest jitter, so each delay is exactly half the backoff ceiling
+      spyOn(Math, 'random').and.returnValue(0);
+      service.transport$.subscribe(t => transport = t);
+    });
+
+    const lastSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+    const ticket = (): TestRequest => httpMock.expectOne(r => r.url.endsWith('/notifications/stream/ticket/'));
+
+    it('should open the stream with a ticket, never the access token', liveTest(() => {
+      fullLoad().flush({ notifications: [] });
+      const req = ticket();
+      expect(req.request.method).toBe('POST');
+      req.flush({ ticket: 'abc' });
+
+      expect(lastSource().url).toContain('ticket=abc');
+      expect(lastSource().url).not.toContain('token');
+    }));
+
+    it('should back off when a ticket cannot be had', liveTest(() => {
+      fullLoad().flush({ notifications: [] });
+      ticket().flush({}, { status: 503, statusText: 'Service Unavailable' });
+      expect(FakeEventSource.instances.length).toBe(0);
+
+      tick(500);
+      ticket().flush({ ticket: 'abc' });
+      expect(FakeEventSource.instances.length).toBe(1);
+    }));
+
+    it('should back off exponentially between reconnects', liveTest(() => {
+      fullLoad().flush({ notifications: [] });
+      ticket().flush({ ticket: 't1' });
+      expect(transport).toBe('connecting');
+
+      lastSource().onerror!();
+      expect(FakeEventSource.instances[0].closed).toBeTrue();
+      tick(499);
+      expect(FakeEventSource.instances.length).toBe(1);
+      tick(1);
+      ticket().flush({ ticket: 't2' });
+      expect(FakeEventSource.instances.length).toBe(2);
+
+      lastSource().onerror!();
+      tick(999);
+      expect(FakeEventSource.instances.length).toBe(2);
+      tick(1);
+      ticket().flush({ ticket: 't3' });
+      expect(FakeEventSource.instances.length).toBe(3);
+    }));
+
+    it('should poll after repeated failures and stop once push reconnects', liveTest(() => {
+      fullLoad().flush({ notifications: [] });
+      ticket().flush({ ticket: 't1' });
+      lastSource().onerror!();
+      tick(500);
+      ticket().flush({ ticket: 't2' });
+      lastSource().onerror!();
+      tick(1000);
+      ticket().flush({ ticket: 't3' });
+      lastSource().onerror!();
+
+      expect(transport).toBe('polling');
+      poll().flush([]);
+
+      tick(2000);
+      ticket().flush({ ticket: 't4' });
+      expect(FakeEventSource.instances.length).toBe(4);
+      lastSource().onopen!();
+
+      expect(transport).toBe('push');
+      expect(service.isCurrentlyPolling()).toBeFalse();
+      //catch-up load on open
+      fullLoad().flush({ notifications: [] });
+
+      tick(30000);
+      httpMock.expectNone(r => !r.params.has('page_size'));
+    }));
+  });
+});
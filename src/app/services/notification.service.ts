@@ -1,7 +1,9 @@
-import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { HttpClient } from '@angular/common/http';
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable, Subject, Subscription, catchError, map, tap, throwError } from 'rxjs';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
 
 export interface NotificationData {
   id: string;
@@ -17,6 +19,27 @@ export interface NotificationData {
   confidence: number;
   isRead: boolean;
   imageUrl?: string;
+  matchedRuleIds: number[]; //this admin's notification rules that fired, empty when none did
+}
+
+//push = server-sent events, polling = fallback while push is down
+export type LiveTransport = 'off' | 'connecting' | 'push' | 'polling';
+
+export interface NotificationHistoryFilters {
+  search?: string;            //user name/email, image name or disease
+  is_read?: boolean | null;
+  detection_type?: 'leaf' | 'fruit' | '';
+  confidence_min?: number | null; //percent
+  confidence_max?: number | null;
+  date_from?: string;         //ISO timestamps
+  date_to?: string;
+  page?: number;
+  page_size?: number;
+}
+
+export interface NotificationHistoryPage {
+  results: NotificationData[];
+  count: number;
 }
 
 @Injectable({
@@ -26,44 +49,63 @@ export class NotificationService {
   private apiUrl = environment.apiUrl; //backend url
   private notificationsSubject = new BehaviorSubject<NotificationData[]>([]);
   private unreadCountSubject = new BehaviorSubject<number>(0);
+  private transportSubject = new BehaviorSubject<LiveTransport>('off');
+  private incomingSubject = new Subject<NotificationData>();
   private pollingInterval: any;
   private isPolling = false;
   private pollingIntervalMs = 30000; //30 sec
+  //ids waiting on an undo window - kept out of the list until deleted or restored
+  private hiddenIds = new Set<string>();
+  //until the first full load, everything merged in is backlog rather than new
+  private hasLoaded = false;
+  //only the newest notifications stay in memory; the history page pages through the rest
+  private readonly RECENT_LIMIT = 100;
+  //unread notifications older than the in-memory window, as reported by the server
+  private unreadElsewhere = 0;
+
+  //push stream + reconnect state
+  private liveRequested = false;
+  private eventSource: EventSource | null = null;
+  private ticketSub: Subscription | null = null;
+  private reconnectTimer: any = null;
+  private reconnectAttempts = 0;
+  private readonly RECONNECT_BASE_MS = 1000;
+  private readonly RECONNECT_MAX_MS = 30000;
+  //failed connects in a row before polling takes over (push keeps retrying behind it)
+  private readonly PUSH_FAILURES_BEFORE_POLLING = 3;
 
   public notifications$ = this.notificationsSubject.asObservable();
   public unreadCount$ = this.unreadCountSubject.asObservable();
+  public transport$ = this.transportSubject.asObservable();
+  //notifications that arrived after the first load (push or poll), one at a time
+  public incoming$: Observable<NotificationData> = this.incomingSubject.asObservable();
 
-  constructor(private http: HttpClient) {
-    //start empty - load when user clicks refresh
-  }
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {}
 
-  loadNotifications(createNew: boolean = false): void {
-    const url = createNew 
-      ? `${this.apiUrl}/notifications/?create_new=true`
-      : `${this.apiUrl}/notifications/`;
-      
-    this.http.get<any>(url).subscribe({
+  //full load - the server list is authoritative, unchanged items keep their object
+  loadNotifications(): void {
+    const params = new HttpParams().set('page_size', String(this.RECENT_LIMIT));
+    this.http.get<any>(`${this.apiUrl}/notifications/`, { params }).subscribe({
       next: (response) => {
-        //handle array or paginated response
-        const data = response.notifications || response;
-        const notifications: NotificationData[] = data.map((item: any) => ({
-          id: item.id,
-          userId: item.user_id,
-          userName: item.user_name || 'Unknown User',
-          userEmail: (item.user_email || '').replace(/^@/, ''), //remove @ if there
-          imageId: item.image_id,
-          imageName: item.image_name,
-          timestamp: item.timestamp,
-          diseaseClassification: item.disease_classification,
-          diseaseType: item.disease_type,
-          detectionType: item.detection_type || (item.disease_type && item.disease_type.toLowerCase().includes('fruit') ? 'fruit' : 'leaf'), //figure out type
-          confidence: typeof item.confidence === 'string' ? parseFloat(item.confidence) : (item.confidence || 0), //handle string or number
-          isRead: item.is_read || false,
-          imageUrl: item.image_url
-        }));
-        
-        this.notificationsSubject.next(notifications);
-        this.updateUnreadCount(notifications);
+        const notifications = this.mapResponse(response);
+        const current = new Map(this.notificationsSubject.value.map(n => [n.id, n]));
+        const synced = this.newestFirst(notifications)
+          .slice(0, this.RECENT_LIMIT)
+          .filter(notification => !this.hiddenIds.has(notification.id))
+          .map(notification => {
+            const existing = current.get(notification.id);
+            return existing && this.isSame(existing, notification) ? existing : notification;
+          });
+        const unreadHere = synced.filter(n => !n.isRead).length;
+        this.unreadElsewhere = typeof response.unread_count === 'number'
+          ? Math.max(0, response.unread_count - unreadHere)
+          : 0;
+        this.hasLoaded = true;
+        this.emit(synced);
       },
       error: (error) => {
         console.error('Error loading notifications:', error);
@@ -73,20 +115,24 @@ export class NotificationService {
 
   //manual refresh - gets all notifications
   refreshNotifications(): void {
-    this.loadNotifications(false);  //load all without creating new
+    this.loadNotifications();
   }
 
   markAsRead(notificationId: string): void {
     this.http.patch(`${this.apiUrl}/notifications/${notificationId}/mark-read/`, {}).subscribe({
       next: () => {
         const currentNotifications = this.notificationsSubject.value;
+        if (!currentNotifications.some(notification => notification.id === notificationId)) {
+          //older than the in-memory window (e.g. from the history page), so only the server knows the new unread count
+          this.loadNotifications();
+          return;
+        }
         const updatedNotifications = currentNotifications.map(notification =>
           notification.id === notificationId
             ? { ...notification, isRead: true }
             : notification
         );
-        this.notificationsSubject.next(updatedNotifications);
-        this.updateUnreadCount(updatedNotifications);
+        this.emit(updatedNotifications);
       },
       error: (error) => {
         console.error('Error marking notification as read:', error);
@@ -102,8 +148,8 @@ export class NotificationService {
           ...notification,
           isRead: true
         }));
-        this.notificationsSubject.next(updatedNotifications);
-        this.updateUnreadCount(updatedNotifications);
+        this.unreadElsewhere = 0;
+        this.emit(updatedNotifications);
       },
       error: (error) => {
         console.error('Error marking all notifications as read:', error);
@@ -113,62 +159,284 @@ export class NotificationService {
 
   deleteNotification(notificationId: string): void {
     this.http.delete(`${this.apiUrl}/notifications/${notificationId}/`).subscribe({
-      next: () => {
-        const currentNotifications = this.notificationsSubject.value;
-        const updatedNotifications = currentNotifications.filter(
-          notification => notification.id !== notificationId
-        );
-        this.notificationsSubject.next(updatedNotifications);
-        this.updateUnreadCount(updatedNotifications);
-      },
+      next: () => this.removeLocally([notificationId]),
       error: (error) => {
         console.error('Error deleting notification:', error);
       }
     });
   }
 
-  deleteSelectedNotifications(notificationIds: string[]): void {
-    this.http.post(`${this.apiUrl}/notifications/delete-selected/`, { ids: notificationIds }).subscribe({
-      next: () => {
-        const currentNotifications = this.notificationsSubject.value;
-        const updatedNotifications = currentNotifications.filter(
-          notification => !notificationIds.includes(notification.id)
-        );
-        this.notificationsSubject.next(updatedNotifications);
-        this.updateUnreadCount(updatedNotifications);
+  deleteSelectedNotifications(notificationIds: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.http.post(`${this.apiUrl}/notifications/delete-selected/`, { ids: notificationIds }).subscribe({
+        next: () => {
+          notificationIds.forEach(id => this.hiddenIds.delete(id));
+          this.removeLocally(notificationIds);
+          resolve();
+        },
+        error: (error) => {
+          console.error('Error deleting selected notifications:', error);
+          this.unhideNotifications(notificationIds);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  //one request for any number of ids, including ones older than the in-memory window
+  markSelectedAsRead(notificationIds: string[]): Observable<{ updated: number }> {
+    return this.http.post<{ updated: number }>(`${this.apiUrl}/notifications/mark-read-selected/`, { ids: notificationIds })
+      .pipe(
+        tap(() => {
+          const currentNotifications = this.notificationsSubject.value;
+          const ids = new Set(notificationIds);
+          if (notificationIds.some(id => !currentNotifications.some(notification => notification.id === id))) {
+            //some were outside the window, so only the server knows the new unread count
+            this.loadNotifications();
+            return;
+          }
+          this.emit(currentNotifications.map(notification =>
+            ids.has(notification.id) ? { ...notification, isRead: true } : notification
+          ));
+        }),
+        catchError(error => {
+          console.error('Error marking selected notifications as read:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //take notifications out of the list without deleting them yet
+  hideNotifications(notificationIds: string[]): void {
+    notificationIds.forEach(id => this.hiddenIds.add(id));
+    const updatedNotifications = this.notificationsSubject.value.filter(
+      notification => !this.hiddenIds.has(notification.id)
+    );
+    this.emit(updatedNotifications);
+  }
+
+  unhideNotifications(notificationIds: string[]): void {
+    notificationIds.forEach(id => this.hiddenIds.delete(id));
+    this.loadNotifications();
+  }
+
+  getNotificationById(id: string): NotificationData | undefined {
+    return this.notificationsSubject.value.find(notification => notification.id === id);
+  }
+
+  // ── history ────────────────────────────────────────────────────────────────
+
+  getHistory(filters: NotificationHistoryFilters = {}): Observable<NotificationHistoryPage> {
+    const params = this.historyParams(filters)
+      .set('page', String(filters.page || 1))
+      .set('page_size', String(filters.page_size || 25));
+
+    return this.http.get<any>(`${this.apiUrl}/notifications/history/`, { params })
+      .pipe(
+        map(response => ({
+          results: (response.results || []).map((item: any) => this.mapNotification(item)),
+          count: response.count || 0
+        })),
+        catchError(error => {
+          console.error('Error fetching notification history:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  //applies to every notification matching the filters, not only the loaded page
+  markReadMatching(filters: NotificationHistoryFilters): Observable<{ updated: number }> {
+    return this.http.post<{ updated: number }>(`${this.apiUrl}/notifications/history/mark-read/`, this.historyBody(filters))
+      .pipe(
+        tap(() => this.loadNotifications()),
+        catchError(error => {
+          console.error('Error marking matching notifications as read:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  deleteMatching(filters: NotificationHistoryFilters): Observable<{ deleted: number }> {
+    return this.http.post<{ deleted: number }>(`${this.apiUrl}/notifications/history/delete/`, this.historyBody(filters))
+      .pipe(
+        tap(() => this.loadNotifications()),
+        catchError(error => {
+          console.error('Error deleting matching notifications:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  private historyParams(filters: NotificationHistoryFilters): HttpParams {
+    let params = new HttpParams();
+    Object.entries(this.historyBody(filters)).forEach(([key, value]) => {
+      params = params.set(key, String(value));
+    });
+    return params;
+  }
+
+  //the filter fields that are actually set; paging is left out
+  private historyBody(filters: NotificationHistoryFilters): { [key: string]: string | number | boolean } {
+    const body: { [key: string]: string | number | boolean } = {};
+    if (filters.search?.trim()) body['search'] = filters.search.trim();
+    if (filters.is_read != null) body['is_read'] = filters.is_read;
+    if (filters.detection_type) body['detection_type'] = filters.detection_type;
+    if (filters.confidence_min != null) body['confidence_min'] = filters.confidence_min;
+    if (filters.confidence_max != null) body['confidence_max'] = filters.confidence_max;
+    if (filters.date_from) body['date_from'] = filters.date_from;
+    if (filters.date_to) body['date_to'] = filters.date_to;
+    return body;
+  }
+
+  // ── live updates ───────────────────────────────────────────────────────────
+
+  //push when the server offers it, polling while it doesn't
+  startLiveUpdates(): void {
+    if (this.liveRequested) {
+      return;
+    }
+    this.liveRequested = true;
+    this.reconnectAttempts = 0;
+    this.loadNotifications();
+    this.connectPush();
+  }
+
+  stopLiveUpdates(): void {
+    this.liveRequested = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closePush();
+    this.stopPolling();
+    this.transportSubject.next('off');
+  }
+
+  isLive(): boolean {
+    return this.liveRequested;
+  }
+
+  isCurrentlyPolling(): boolean {
+    return this.isPolling;
+  }
+
+  setPollingInterval(intervalMs: number): void {
+    this.pollingIntervalMs = intervalMs;
+
+    //restart with new interval
+    if (this.isPolling) {
+      this.stopPolling();
+      this.startPolling();
+    }
+  }
+
+  private connectPush(): void {
+    this.reconnectTimer = null;
+    if (!this.liveRequested) {
+      return;
+    }
+    const token = this.authService.getToken();
+    if (!isPlatformBrowser(this.platformId) || typeof EventSource === 'undefined' || !token) {
+      //no push here at all - polling is the only option
+      this.startPolling();
+      return;
+    }
+
+    if (!this.isPolling) {
+      this.transportSubject.next('connecting');
+    }
+    //EventSource can't set headers, and a URL ends up in access logs, so the bearer token buys a
+    //single-use ticket that expires within seconds and only that goes in the query
+    this.ticketSub = this.http.post<{ ticket: string }>(`${this.apiUrl}/notifications/stream/ticket/`, {}).subscribe({
+      next: ({ ticket }) => {
+        this.ticketSub = null;
+        this.openStream(ticket);
       },
       error: (error) => {
-        console.error('Error deleting selected notifications:', error);
+        console.error('Error fetching notification stream ticket:', error);
+        this.ticketSub = null;
+        this.scheduleReconnect();
       }
     });
   }
 
-  private updateUnreadCount(notifications: NotificationData[]): void {
-    const unreadCount = notifications.filter(n => !n.isRead).length;
-    this.unreadCountSubject.next(unreadCount);
+  private openStream(ticket: string): void {
+    if (!this.liveRequested) {
+      return;
+    }
+    const source = new EventSource(`${this.apiUrl}/notifications/stream/?ticket=${encodeURIComponent(ticket)}`);
+    this.eventSource = source;
+
+    source.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.stopPolling();
+      this.transportSubject.next('push');
+      //catch up on anything sent while disconnected
+      this.loadNotifications();
+    };
+    source.addEventListener('notification', (event: MessageEvent) => {
+      const item = this.parseEvent(event);
+      if (item) {
+        this.mergeNotifications([this.mapNotification(item)]);
+      }
+    });
+    source.addEventListener('notification_deleted', (event: MessageEvent) => {
+      const item = this.parseEvent(event);
+      if (item?.id != null) {
+        this.removeLocally([String(item.id)]);
+      }
+    });
+    source.onerror = () => {
+      //the browser's own retry doesn't back off, and would reuse the spent ticket
+      source.close();
+      if (this.eventSource === source) {
+        this.eventSource = null;
+        this.scheduleReconnect();
+      }
+    };
   }
 
-  getNotificationById(id: string): NotificationData | undefined {
-    return this.notificationsSubject.value.find(notification => notification.id === id);
+  private scheduleReconnect(): void {
+    if (!this.liveRequested || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectAttempts++;
+    if (this.reconnectAttempts >= this.PUSH_FAILURES_BEFORE_POLLING) {
+      this.startPolling();
+    } else if (!this.isPolling) {
+      this.transportSubject.next('connecting');
+    }
+
+    //exponential backoff with jitter so clients don't reconnect in lockstep after a restart
+    const ceiling = Math.min(this.RECONNECT_MAX_MS, this.RECONNECT_BASE_MS * 2 ** (this.reconnectAttempts - 1));
+    const delay = ceiling / 2 + Math.random() * ceiling / 2;
+    this.reconnectTimer = setTimeout(() => this.connectPush(), delay);
+  }
+
+  private closePush(): void {
+    this.ticketSub?.unsubscribe();
+    this.ticketSub = null;
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
   }
 
-  //live polling
-  startPolling(): void {
+  private startPolling(): void {
     if (this.isPolling) {
       return; //already polling
     }
 
     this.isPolling = true;
-    //load notifs now
-    this.loadNotifications(false);
-    
-    //setup interval
+    this.transportSubject.next('polling');
+    this.pollForNew();
+
     this.pollingInterval = setInterval(() => {
-      this.loadNotifications(false);
+      this.pollForNew();
     }, this.pollingIntervalMs);
   }
 
-  stopPolling(): void {
+  private stopPolling(): void {
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval);
       this.pollingInterval = null;
@@ -176,54 +444,127 @@ export class NotificationService {
     this.isPolling = false;
   }
 
-  isCurrentlyPolling(): boolean {
-    return this.isPolling;
+  //only ask for what came in after the newest item we hold
+  private pollForNew(): void {
+    const since = this.latestTimestamp();
+    const url = since
+      ? `${this.apiUrl}/notifications/?since=${encodeURIComponent(since)}`
+      : `${this.apiUrl}/notifications/`;
+
+    this.http.get<any>(url).subscribe({
+      next: (response) => this.mergeNotifications(this.mapResponse(response)),
+      error: (error) => {
+        console.error('Error polling notifications:', error);
+      }
+    });
   }
 
-  setPollingInterval(intervalMs: number): void {
-    this.pollingIntervalMs = intervalMs;
-    
-    //restart with new interval
-    if (this.isPolling) {
-      this.stopPolling();
-      this.startPolling();
+  // ── list helpers ───────────────────────────────────────────────────────────
+
+  //upsert by id; anything not seen before is also announced on incoming$
+  private mergeNotifications(incoming: NotificationData[]): void {
+    const visible = incoming.filter(notification => !this.hiddenIds.has(notification.id));
+    if (!visible.length) {
+      return;
+    }
+
+    const merged = [...this.notificationsSubject.value];
+    const indexById = new Map(merged.map((n, i) => [n.id, i]));
+    const added: NotificationData[] = [];
+    visible.forEach(notification => {
+      const index = indexById.get(notification.id);
+      if (index === undefined) {
+        indexById.set(notification.id, merged.length);
+        merged.push(notification);
+        added.push(notification);
+      } else if (!this.isSame(merged[index], notification)) {
+        merged[index] = notification;
+      }
+    });
+
+    //keep the in-memory window bounded; unread ones pushed out still count
+    const sorted = this.newestFirst(merged);
+    const dropped = sorted.slice(this.RECENT_LIMIT);
+    this.unreadElsewhere += dropped.filter(n => !n.isRead).length;
+
+    this.emit(sorted.slice(0, this.RECENT_LIMIT));
+    if (this.hasLoaded) {
+      added.forEach(notification => this.incomingSubject.next(notification));
     }
   }
 
-  //check for new notifs
-  private checkForNewNotifications(): void {
-    const currentNotifications = this.notificationsSubject.value;
-    const currentIds = new Set(currentNotifications.map(n => n.id));
-    
-    this.http.get<any>(`${this.apiUrl}/notifications/`).subscribe({
-      next: (response) => {
-        const data = response.notifications || response;
-        const notifications: NotificationData[] = data.map((item: any) => ({
-          id: item.id,
-          userId: item.user_id,
-          userName: item.user_name || 'Unknown User',
-          userEmail: (item.user_email || '').replace(/^@/, ''),
-          imageId: item.image_id,
-          imageName: item.image_name,
-          timestamp: item.timestamp,
-          diseaseClassification: item.disease_classification,
-          diseaseType: item.disease_type,
-          detectionType: item.detection_type || (item.disease_type && item.disease_type.toLowerCase().includes('fruit') ? 'fruit' : 'leaf'),
-          confidence: typeof item.confidence === 'string' ? parseFloat(item.confidence) : (item.confidence || 0),
-          isRead: item.is_read || false,
-          imageUrl: item.image_url
-        }));
-        
-        //find new ones
-        const newNotifications = notifications.filter(n => !currentIds.has(n.id));
-        
-        
-        this.notificationsSubject.next(notifications);
-        this.updateUnreadCount(notifications);
-      },
-      error: (error) => {
-        console.error('Error checking for new notifications:', error);
+  private removeLocally(notificationIds: string[]): void {
+    const ids = new Set(notificationIds);
+    const updatedNotifications = this.notificationsSubject.value.filter(
+      notification => !ids.has(notification.id)
+    );
+    this.emit(updatedNotifications);
+  }
+
+  private emit(notifications: NotificationData[]): void {
+    this.notificationsSubject.next(notifications);
+    this.updateUnreadCount(notifications);
+  }
+
+  private updateUnreadCount(notifications: NotificationData[]): void {
+    const unreadCount = notifications.filter(n => !n.isRead).length + this.unreadElsewhere;
+    this.unreadCountSubject.next(unreadCount);
+  }
+
+  private newestFirst(notifications: NotificationData[]): NotificationData[] {
+    return [...notifications].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+
+  private latestTimestamp(): string | null {
+    let latest: string | null = null;
+    let latestMs = -Infinity;
+    this.notificationsSubject.value.forEach(notification => {
+      const ms = new Date(notification.timestamp).getTime();
+      if (ms > latestMs) {
+        latestMs = ms;
+        latest = notification.timestamp;
       }
     });
+    return latest;
+  }
+
+  private isSame(a: NotificationData, b: NotificationData): boolean {
+    return (Object.keys(b) as (keyof NotificationData)[]).every(key =>
+      key === 'matchedRuleIds' ? a.matchedRuleIds.join() === b.matchedRuleIds.join() : a[key] === b[key]
+    );
   }
-}
\ No newline at end of file
+
+  private parseEvent(event: MessageEvent): any {
+    try {
+      return JSON.parse(event.data);
+    } catch {
+      console.error('Error parsing notification event:', event.data);
+      return null;
+    }
+  }
+
+  //handle array or paginated response
+  private mapResponse(response: any): NotificationData[] {
+    const data = response.notifications || response.results || response;
+    return data.map((item: any) => this.mapNotification(item));
+  }
+
+  private mapNotification(item: any): NotificationData {
+    return {
+      id: String(item.id),
+      userId: item.user_id,
+      userName: item.user_name || 'Unknown User',
+      userEmail: (item.user_email || '').replace(/^@/, ''), //remove @ if there
+      imageId: item.image_id,
+      imageName: item.image_name,
+      timestamp: item.timestamp,
+      diseaseClassification: item.disease_classification,
+      diseaseType: item.disease_type,
+      detectionType: item.detection_type || (item.disease_type && item.disease_type.toLowerCase().includes('fruit') ? 'fruit' : 'leaf'), //figure out type
+      confidence: typeof item.confidence === 'string' ? parseFloat(item.confidence) : (item.confidence || 0), //handle string or number
+      isRead: item.is_read || false,
+      imageUrl: item.image_url,
+      matchedRuleIds: (item.matched_rules || []).map((rule: any) => Number(rule?.id ?? rule))
+    };
+  }
+}
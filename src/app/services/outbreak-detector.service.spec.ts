@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { OutbreakDetectorService } from './outbreak-detector.service';
+import { DiseaseLocation } from './mango-disease.service';
+
+describe('OutbreakDetectorService', () => {
+  let service: OutbreakDetectorService;
+  let httpMock: HttpTestingController;
+
+  const asOf = new Date('2026-10-15T12:00:00Z');
+  const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  let nextId = 1;
+  const at = (latitude: number, longitude: number, days: number, disease = 'Anthracnose'): DiseaseLocation => ({
+    id: nextId++,
+    disease,
+    latitude,
+    longitude,
+    address: `${latitude}, ${longitude}`,
+    confidence: 0.9,
+    uploaded_at: daysAgo(days),
+  });
+
+  //n detections within a few hundred metres of a point, spread over the given days
+  const around = (latitude: number, longitude: number, n: number, days: number[], disease?: string) =>
+    Array.from({ length: n }, (_, i) => at(latitude + i * 0.001, longitude, days[i % days.length], disease));
+
+  beforeEach(() => {
+    nextId = 1;
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(OutbreakDetectorService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should flag a cluster in an area with no history', () => {
+    const recent = around(14.6, 121.0, 5, [1, 2, 3]);
+
+    const clusters = service.detect(recent, asOf);
+
+    expect(clusters.length).toBe(1);
+    expect(clusters[0].disease).toBe('Anthracnose');
+    expect(clusters[0].observed).toBe(5);
+    expect(clusters[0].expected).toBe(0);
+    expect(clusters[0].locationIds.sort((a, b) => a - b)).toEqual(recent.map(l => l.id));
+  });
+
+  it('should not flag an area running at its usual rate', () => {
+    //40 cases over the 8-week baseline is 5 a week, the same as this week
+    const history = around(14.6, 121.0, 40, [10, 20, 30, 40, 50, 60]);
+    const recent = around(14.6, 121.0, 5, [1, 2, 3]);
+
+    expect(service.detect([...history, ...recent], asOf)).toEqual([]);
+  });
+
+  it('should ignore healthy scans, too few cases and detections outside the window', () => {
+    const locations = [
+      ...around(14.6, 121.0, 6, [1, 2], 'Healthy'),
+      ...around(15.1, 121.0, 2, [1]),
+      ...around(15.6, 121.0, 6, [90]),
+    ];
+
+    expect(service.detect(locations, asOf)).toEqual([]);
+  });
+
+  it('should keep separate places and diseases in separate zones, each detection in one zone', () => {
+    const locations = [
+      ...around(14.6, 121.0, 5, [1, 2]),
+      ...around(15.1, 121.0, 4, [1, 2]),        //~55 km north
+      ...around(14.6, 121.0, 3, [1], 'Powdery Mildew'),
+    ];
+
+    const clusters = service.detect(locations, asOf);
+    const ids = clusters.flatMap(c => c.locationIds);
+
+    expect(clusters.length).toBe(3);
+    expect(clusters.map(c => c.observed)).toEqual([5, 4, 3]);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should report zones with their detection ids, and not resend an unchanged report', () => {
+    const clusters = service.detect(around(14.6, 121.0, 3, [1]), asOf);
+
+    service.reportOutbreaks(clusters)!.subscribe();
+    const req = httpMock.expectOne(r => r.url.endsWith('/notifications/outbreaks/'));
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body.outbreaks[0].location_ids).toEqual([1, 2, 3]);
+    req.flush({ success: true, data: { created: 1, updated: 0 } });
+
+    expect(service.reportOutbreaks(clusters)).toBeNull();
+    expect(service.reportOutbreaks([])).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, DiseaseLocation } from './mango-disease.service';
+
+export interface OutbreakSettings {
+  radiusKm: number;
+  windowDays: number;    //the recent period being tested
+  baselineDays: number;  //history before the window that sets the expected rate
+  minCases: number;      //never flag fewer detections than this
+  zThreshold: number;    //how far above the baseline, in Poisson standard deviations
+}
+
+export interface OutbreakCluster {
+  key: string;           //identifies the zone within one detection run, for highlighting on the map
+  disease: string;
+  latitude: number;      //centroid of the detections in the zone
+  longitude: number;
+  radiusKm: number;
+  observed: number;
+  expected: number;      //baseline rate scaled to the window length
+  zScore: number;
+  locationIds: number[];
+  firstSeen: string;
+  lastSeen: string;
+  address: string;       //from the detection nearest the centre
+}
+
+export const DEFAULT_OUTBREAK_SETTINGS: OutbreakSettings = {
+  radiusKm: 10,
+  windowDays: 7,
+  baselineDays: 56,
+  minCases: 3,
+  zThreshold: 2,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Flags places where a disease is being detected more often than usual: for each recent detection,
+ * the same disease within `radiusKm` over the last `windowDays` is compared with that area's own rate
+ * over the preceding `baselineDays`. Overlapping hits collapse into one zone, strongest first.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OutbreakDetectorService {
+  private apiUrl = environment.apiUrl;
+  //the last payload sent, so re-running detection on unchanged data doesn't post again
+  private lastReport: string | null = null;
+
+  constructor(private http: HttpClient) {}
+
+  detect(locations: DiseaseLocation[], asOf: Date, settings: OutbreakSettings = DEFAULT_OUTBREAK_SETTINGS): OutbreakCluster[] {
+    const windowEnd = asOf.getTime();
+    const windowStart = windowEnd - settings.windowDays * DAY_MS;
+    const baselineStart = windowStart - settings.baselineDays * DAY_MS;
+    const windowsInBaseline = settings.baselineDays / settings.windowDays;
+
+    //healthy scans and undated points can't be part of an outbreak
+    const byDisease = new Map<string, { loc: DiseaseLocation; time: number }[]>();
+    locations.forEach(loc => {
+      if (!loc.uploaded_at || loc.disease.toLowerCase().includes('healthy')) return;
+      const time = new Date(loc.uploaded_at).getTime();
+      if (time < baselineStart || time > windowEnd) return;
+      if (!byDisease.has(loc.disease)) byDisease.set(loc.disease, []);
+      byDisease.get(loc.disease)!.push({ loc, time });
+    });
+
+    const clusters: OutbreakCluster[] = [];
+    byDisease.forEach((points, disease) => {
+      const recent = points.filter(p => p.time >= windowStart);
+      const history = points.filter(p => p.time < windowStart);
+      if (recent.length < settings.minCases) return;
+
+      //score a zone around every recent detection
+      const candidates = recent.map(center => {
+        const members = recent.filter(p => this.distanceKm(center.loc, p.loc) <= settings.radiusKm);
+        const baseline = history.filter(p => this.distanceKm(center.loc, p.loc) <= settings.radiusKm).length;
+        const expected = baseline / windowsInBaseline;
+        //floor of 1 so a brand new area isn't flagged off a single extra case
+        const zScore = (members.length - expected) / Math.sqrt(Math.max(expected, 1));
+        return { members, expected, zScore };
+      }).filter(c => c.members.length >= settings.minCases && c.zScore >= settings.zThreshold);
+
+      //strongest first; a detection belongs to one zone only
+      candidates.sort((a, b) => b.zScore - a.zScore || b.members.length - a.members.length);
+      const claimed = new Set<number>();
+      candidates.forEach(candidate => {
+        const members = candidate.members.filter(p => !claimed.has(p.loc.id));
+        if (members.length < settings.minCases) return;
+        members.forEach(p => claimed.add(p.loc.id));
+        clusters.push(this.toCluster(disease, members, candidate.expected, settings));
+      });
+    });
+
+    return clusters.sort((a, b) => b.zScore - a.zScore);
+  }
+
+  /**
+   * Tell the backend so it can notify admins. The server owns deduplication: a zone of the same disease
+   * that overlaps an open outbreak or shares detections with it updates that outbreak instead of raising a new one,
+   * so every admin with reporting on can send the same zones. Detect them with DEFAULT_OUTBREAK_SETTINGS over all
+   * detections so they are the same. Returns null when there is nothing new to send.
+   */
+  reportOutbreaks(clusters: OutbreakCluster[]): Observable<ApiResponse<{ created: number; updated: number }>> | null {
+    if (!clusters.length) return null;
+
+    const body = clusters.map(c => ({
+      disease: c.disease,
+      latitude: c.latitude,
+      longitude: c.longitude,
+      radius_km: c.radiusKm,
+      observed: c.observed,
+      expected: Number(c.expected.toFixed(2)),
+      z_score: Number(c.zScore.toFixed(2)),
+      first_seen: c.firstSeen,
+      last_seen: c.lastSeen,
+      address: c.address,
+      location_ids: [...c.locationIds].sort((a, b) => a - b),
+    }));
+    const payload = JSON.stringify(body);
+    if (payload === this.lastReport) return null;
+    this.lastReport = payload;
+
+    return this.http.post<ApiResponse<{ created: number; updated: number }>>(`${this.apiUrl}/notifications/outbreaks/`, { outbreaks: body })
+      .pipe(
+        catchError(error => {
+          console.error('Error reporting outbreaks:', error);
+          //let a later detection run try again
+          this.lastReport = null;
+          return throwError(() => error);
+        })
+      );
+  }
+
+  distanceKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(b.latitude - a.latitude);
+    const dLon = toRad(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  private toCluster(
+    disease: string,
+    members: { loc: DiseaseLocation; time: number }[],
+    expected: number,
+    settings: OutbreakSettings,
+  ): OutbreakCluster {
+    const latitude = members.reduce((sum, p) => sum + p.loc.latitude, 0) / members.length;
+    const longitude = members.reduce((sum, p) => sum + p.loc.longitude, 0) / members.length;
+    const centre = { latitude, longitude };
+
+    const distances = members.map(p => this.distanceKm(centre, p.loc));
+    //hug the members, but keep a visible minimum for tight clusters
+    const radiusKm = Math.max(1, Math.min(settings.radiusKm, Math.max(...distances)));
+    const nearest = members[distances.indexOf(Math.min(...distances))].loc;
+    const times = members.map(p => p.time);
+
+    return {
+      key: `${disease}|${Math.min(...members.map(p => p.loc.id))}`,
+      disease,
+      latitude,
+      longitude,
+      radiusKm,
+      observed: members.length,
+      expected,
+      zScore: (members.length - expected) / Math.sqrt(Math.max(expected, 1)),
+      locationIds: members.map(p => p.loc.id),
+      firstSeen: new Date(Math.min(...times)).toISOString(),
+      lastSeen: new Date(Math.max(...times)).toISOString(),
+      address: nearest.address || '',
+    };
+  }
+}
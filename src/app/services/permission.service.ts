@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import { AuthService, UserRole } from './auth.service';
+
+export type Permission =
+  | 'verify_images'
+  | 'delete_images'
+  | 'edit_training_data'
+  | 'manage_vocabulary'
+  | 'manage_models'
+  | 'retrain_models'
+  | 'manage_users'
+  | 'view_audit_log';
+
+//what each role is allowed to do - higher roles include everything below them
+const ROLE_PERMISSIONS: { [role in UserRole]: Permission[] } = {
+  viewer: [],
+  reviewer: ['verify_images', 'edit_training_data'],
+  trainer: [
+    'verify_images', 'edit_training_data', 'delete_images',
+    'manage_vocabulary', 'manage_models', 'retrain_models'
+  ],
+  superuser: [
+    'verify_images', 'edit_training_data', 'delete_images',
+    'manage_vocabulary', 'manage_models', 'retrain_models', 'manage_users',
+    'view_audit_log'
+  ]
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PermissionService {
+  public role$: Observable<UserRole>;
+
+  constructor(private authService: AuthService) {
+    this.role$ = this.authService.currentUser$.pipe(
+      map(user => this.resolveRole(user))
+    );
+  }
+
+  getRole(): UserRole {
+    return this.resolveRole(this.authService.getCurrentUser());
+  }
+
+  can(permission: Permission): boolean {
+    return ROLE_PERMISSIONS[this.getRole()].includes(permission);
+  }
+
+  getPermissions(role: UserRole): Permission[] {
+    return ROLE_PERMISSIONS[role];
+  }
+
+  //use backend role if sent, otherwise fall back to django flags
+  private resolveRole(user: any): UserRole {
+    if (!user) {
+      return 'viewer';
+    }
+
+    if (user.role && user.role in ROLE_PERMISSIONS) {
+      return user.role as UserRole;
+    }
+
+    if (user.is_superuser) {
+      return 'superuser';
+    }
+
+    if (user.is_staff) {
+      return 'reviewer';
+    }
+
+    return 'viewer';
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, RetrainConfig } from './mango-disease.service';
+import { ModelKind } from './model-registry.service';
+
+export interface RetrainPreset {
+  id: number;
+  name: string;
+  model_kind: ModelKind;
+  config: RetrainConfig;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RetrainPresetInput {
+  name: string;
+  model_kind: ModelKind;
+  config: RetrainConfig;
+}
+
+/** Named training configs, shared between admins and scoped to one architecture each. */
+@Injectable({
+  providedIn: 'root'
+})
+export class RetrainPresetService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  getPresets(modelKind?: ModelKind): Observable<ApiResponse<RetrainPreset[]>> {
+    let params = new HttpParams();
+    if (modelKind) {
+      params = params.set('model_kind', modelKind);
+    }
+    return this.http.get<ApiResponse<RetrainPreset[]>>(`${this.apiUrl}/retrain/presets/`, { params })
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching retrain presets:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  createPreset(preset: RetrainPresetInput): Observable<ApiResponse<RetrainPreset>> {
+    return this.http.post<ApiResponse<RetrainPreset>>(`${this.apiUrl}/retrain/presets/`, preset)
+      .pipe(
+        catchError(error => {
+          console.error('Error creating retrain preset:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  updatePreset(id: number, preset: RetrainPresetInput): Observable<ApiResponse<RetrainPreset>> {
+    return this.http.put<ApiResponse<RetrainPreset>>(`${this.apiUrl}/retrain/presets/${id}/`, preset)
+      .pipe(
+        catchError(error => {
+          console.error('Error updating retrain preset:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  deletePreset(id: number): Observable<ApiResponse<any>> {
+    return this.http.delete<ApiResponse<any>>(`${this.apiUrl}/retrain/presets/${id}/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error deleting retrain preset:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { RetrainSweepService } from './retrain-sweep.service';
+import { DEFAULT_RETRAIN_CONFIGS, RetrainConfig } from './mango-disease.service';
+import { JobStatus, QueuedJob } from './job-queue.service';
+
+describe('RetrainSweepService', () => {
+  let service: RetrainSweepService;
+
+  const base: RetrainConfig = { ...DEFAULT_RETRAIN_CONFIGS.mobilenetv2 };
+
+  const job = (id: number, status: JobStatus, accuracy: number | null, config: RetrainConfig | null = base): QueuedJob => ({
+    id,
+    kind: 'retrain',
+    model_type: 'leaf',
+    model_kind: 'mobilenetv2',
+    config,
+    status,
+    chain_id: `chain-${id}`,
+    sweep_id: 'sweep-1',
+    position: id,
+    created_by: 'admin',
+    created_at: '2026-10-15T08:00:00Z',
+    started_at: null,
+    finished_at: null,
+    error: null,
+    result: status === 'done' ? { accuracy, output_filename: `run-${id}.keras` } : null,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(RetrainSweepService);
+  });
+
+  it('should parse lists and ranges', () => {
+    const cases: [string, number[]][] = [
+      ['0.001, 0.0005', [0.001, 0.0005]],
+      [' 16,32,16 ', [16, 32]],
+      ['8:32:8', [8, 16, 24, 32]],
+      ['0.1:0.3:0.1', [0.1, 0.2, 0.3]],
+    ];
+    cases.forEach(([text, values]) => expect(service.parseValues(text)).withContext(text).toEqual(values));
+  });
+
+  it('should reject text with empty, non-numeric or impossible parts', () => {
+    ['', '   ', '0.001, 0.0005,', '0.001,,0.01', 'abc', '8::8', '32:8:8', '8:32:0', '8:32'].forEach(text =>
+      expect(service.parseValues(text)).withContext(text).toBeNull()
+    );
+  });
+
+  it('should expand every combination on top of the base config', () => {
+    const configs = service.expand(base, [
+      { param: 'learning_rate', values: [0.001, 0.0001] },
+      { param: 'batch_size', values: [16, 32, 64] },
+    ]);
+
+    expect(configs.length).toBe(6);
+    expect(configs.map(c => [c.learning_rate, c.batch_size])).toEqual([
+      [0.001, 16], [0.001, 32], [0.001, 64], [0.0001, 16], [0.0001, 32], [0.0001, 64],
+    ]);
+    expect(configs.every(c => c.epochs === base.epochs)).toBeTrue();
+    expect(service.expand(base, [])).toEqual([base]);
+  });
+
+  it('should rank finished runs by accuracy and list the rest unranked in queue order', () => {
+    const runs = service.rank([
+      job(1, 'done', 0.81),
+      job(2, 'running', null),
+      job(3, 'done', 0.93),
+      job(4, 'error', null),
+      job(5, 'done', null),
+      job(6, 'done', 0.88, null),
+    ]);
+
+    expect(runs.map(run => [run.job.id, run.rank])).toEqual([
+      [3, 1], [1, 2], [2, null], [4, null], [5, null],
+    ]);
+  });
+});
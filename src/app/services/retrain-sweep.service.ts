@@ -0,0 +1,127 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiResponse, RetrainConfig } from './mango-disease.service';
+import { ModelKind } from './model-registry.service';
+import { QueuedJob } from './job-queue.service';
+
+export type SweepParam = keyof RetrainConfig;
+
+export interface SweepAxis {
+  param: SweepParam;
+  values: number[];
+}
+
+export interface SweepSchedule {
+  sweep_id: string;
+  jobs: QueuedJob[];
+}
+
+//one run of a sweep, ranked once its accuracy is known
+export interface SweepRun {
+  job: QueuedJob;
+  config: RetrainConfig;
+  rank: number | null;
+}
+
+//each run trains a full model, so keep sweeps small enough to finish overnight
+export const MAX_SWEEP_RUNS = 24;
+
+/**
+ * Hyperparameter sweeps on top of the job queue: every combination becomes its
+ * own queued retrain, so one failed run doesn't cancel the rest.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RetrainSweepService {
+  private apiUrl = environment.apiUrl;
+
+  constructor(private http: HttpClient) {}
+
+  scheduleSweep(modelType: 'leaf' | 'fruit', modelKind: ModelKind, configs: RetrainConfig[]): Observable<ApiResponse<SweepSchedule>> {
+    return this.http.post<ApiResponse<SweepSchedule>>(`${this.apiUrl}/jobs/queue/sweep/`, {
+      model_type: modelType,
+      model_kind: modelKind,
+      configs,
+    }).pipe(
+      catchError(error => {
+        console.error('Error scheduling sweep:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  //all runs of a sweep, finished ones included (the queue itself only keeps recent jobs)
+  getSweep(sweepId: string): Observable<ApiResponse<QueuedJob[]>> {
+    return this.http.get<ApiResponse<QueuedJob[]>>(`${this.apiUrl}/jobs/queue/sweep/${sweepId}/`)
+      .pipe(
+        catchError(error => {
+          console.error('Error fetching sweep:', error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Parse "0.001, 0.0005" as a list or "8:32:8" as min:max:step.
+   * Returns null when the text can't be read, including an empty part like "0.001,,0.01"
+   * (Number('') is 0, which would slip a zero into the sweep).
+   */
+  parseValues(text: string): number[] | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    const toNumbers = (separator: string) => {
+      const parts = trimmed.split(separator).map(part => part.trim());
+      return parts.some(part => !part) ? null : parts.map(Number);
+    };
+
+    if (trimmed.includes(':')) {
+      const bounds = toNumbers(':');
+      if (!bounds || bounds.length !== 3) return null;
+      const [min, max, step] = bounds;
+      if ([min, max, step].some(n => !Number.isFinite(n)) || step <= 0 || max < min) return null;
+      const values: number[] = [];
+      //round to dodge float drift like 0.30000000000000004
+      for (let i = 0; min + i * step <= max + step / 1e6 && values.length <= MAX_SWEEP_RUNS; i++) {
+        values.push(Number((min + i * step).toPrecision(12)));
+      }
+      return values;
+    }
+
+    const values = toNumbers(',');
+    if (!values || values.some(n => !Number.isFinite(n))) return null;
+    return Array.from(new Set(values));
+  }
+
+  /** Every combination of the axes, applied on top of the base config. */
+  expand(base: RetrainConfig, axes: SweepAxis[]): RetrainConfig[] {
+    return axes.reduce<RetrainConfig[]>(
+      (configs, axis) => configs.flatMap(config => axis.values.map(value => ({ ...config, [axis.param]: value }))),
+      [{ ...base }],
+    );
+  }
+
+  /**
+   * Finished runs ordered by accuracy, best first; unfinished and failed runs follow unranked.
+   * Jobs without a config are left out, as there is nothing to compare or reuse.
+   */
+  rank(jobs: QueuedJob[]): SweepRun[] {
+    const runs = jobs.flatMap(job => job.config ? [{ job, config: job.config }] : []);
+    const accuracy = (run: { job: QueuedJob }) => run.job.result?.accuracy ?? null;
+
+    const scored = runs
+      .filter(run => run.job.status === 'done' && accuracy(run) !== null)
+      .sort((a, b) => (accuracy(b) ?? 0) - (accuracy(a) ?? 0));
+    const rest = runs
+      .filter(run => !scored.includes(run))
+      .sort((a, b) => a.job.position - b.job.position);
+
+    return [
+      ...scored.map((run, i) => ({ ...run, rank: i + 1 })),
+      ...rest.map(run => ({ ...run, rank: null })),
+    ];
+  }
+}
@@ -1,7 +1,8 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Observable, tap } from 'rxjs';
 import { environment } from '../../environments/environment';
+import { AuditLogService } from './audit-log.service';
 import {
    TrainingApiResponse,
    TrainingDataDetail,
@@ -16,7 +17,7 @@ import {
  export class TrainingDataService {
    private readonly api = environment.apiUrl;
 
-   constructor(private http: HttpClient) {}
+   constructor(private http: HttpClient, private auditLog: AuditLogService) {}
 
    /** GET /api/training-data/<pk>/ */
    getTrainingDetail(id: number): Observable<TrainingApiResponse<TrainingDataDetail>> {
@@ -28,11 +29,18 @@ import {
    /** PATCH /api/training-data/<pk>/ */
    patchTrainingDetail(
      id: number,
-     payload: TrainingDataPatchRequest
+     payload: TrainingDataPatchRequest,
+     before?: TrainingDataPatchRequest
    ): Observable<TrainingDataPatchResponse> {
      return this.http.patch<TrainingDataPatchResponse>(
        `${this.api}/training-data/${id}/`,
        payload
+     ).pipe(
+       tap(res => {
+         if (res.success) {
+           this.auditLog.record({ action: 'training_detail_updated', target_type: 'image', target_id: id, before, after: payload });
+         }
+       })
      );
    }
 
@@ -58,7 +66,8 @@ import {
      success: boolean;
      message: string;
      created: number;
-     errors: { filename: string; error: string }[];
+     //index: position of the file among the uploaded images
+     errors: { index?: number; filename: string; error: string }[];
    }> {
      return this.http.post<any>(`${this.api}/training-data/bulk-import/`, formData);
    }
@@ -0,0 +1,164 @@
+import { Injectable, Inject, NgZone, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { NavigationStart, Router } from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+export interface UndoableAction {
+  message: string;
+  //the real api call - deferred until the grace period ends unless compensate is given
+  execute: () => Promise<void>;
+  //reverses an already executed call; when set, execute runs immediately instead of waiting
+  compensate?: () => Promise<void>;
+  graceMs?: number;
+  //page callbacks - dropped once the user navigates away from the page that queued the action
+  onExecuted?: () => void;
+  onUndone?: () => void;
+  onFailed?: (error: any) => void;
+}
+
+export interface UndoToast {
+  id: number;
+  message: string;
+  startedAt: number;
+  expiresAt: number;
+}
+
+interface PendingAction {
+  action: UndoableAction;
+  timer: any;
+  executed: boolean;
+  detached: boolean;
+}
+
+const DEFAULT_GRACE_MS = 6000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class UndoService {
+  private nextId = 1;
+  private pending = new Map<number, PendingAction>();
+
+  private toastsSubject = new BehaviorSubject<UndoToast[]>([]);
+  public toasts$ = this.toastsSubject.asObservable();
+
+  //failures that happen after the page that queued the action is gone
+  private errorSubject = new BehaviorSubject<string | null>(null);
+  public error$ = this.errorSubject.asObservable();
+
+  constructor(
+    private router: Router,
+    private zone: NgZone,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {
+    //leaving the page commits whatever is still pending
+    this.router.events.pipe(
+      filter(event => event instanceof NavigationStart)
+    ).subscribe(() => this.flushAll());
+
+    if (isPlatformBrowser(this.platformId)) {
+      //deferred calls haven't been sent yet, so warn before the tab closes
+      window.addEventListener('beforeunload', (event) => {
+        if (this.hasDeferredPending()) {
+          event.preventDefault();
+          event.returnValue = '';
+        }
+      });
+    }
+  }
+
+  /** Queue an undoable action and show its toast. */
+  async schedule(action: UndoableAction): Promise<void> {
+    const id = this.nextId++;
+    const entry: PendingAction = { action, timer: null, executed: false, detached: false };
+
+    //compensating actions happen now, undo reverses them
+    if (action.compensate) {
+      try {
+        await action.execute();
+        entry.executed = true;
+        action.onExecuted?.();
+      } catch (error) {
+        action.onFailed?.(error);
+        return;
+      }
+    }
+
+    const graceMs = action.graceMs ?? DEFAULT_GRACE_MS;
+    entry.timer = setTimeout(() => this.finalize(id), graceMs);
+    this.pending.set(id, entry);
+    this.addToast({ id, message: action.message, startedAt: Date.now(), expiresAt: Date.now() + graceMs });
+  }
+
+  async undo(id: number): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    this.removeToast(id);
+
+    try {
+      if (entry.executed && entry.action.compensate) {
+        await entry.action.compensate();
+      }
+      if (!entry.detached) entry.action.onUndone?.();
+    } catch (error) {
+      console.error('Undo failed:', error);
+      this.reportError(entry, `Could not undo "${entry.action.message}".`, error);
+    }
+  }
+
+  dismissError(): void {
+    this.errorSubject.next(null);
+  }
+
+  //run the deferred call once the grace period is over
+  private async finalize(id: number): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    this.pending.delete(id);
+    this.removeToast(id);
+
+    if (entry.executed) return;
+
+    try {
+      await entry.action.execute();
+      entry.executed = true;
+      if (!entry.detached) entry.action.onExecuted?.();
+    } catch (error) {
+      console.error('Deferred action failed:', error);
+      this.reportError(entry, `"${entry.action.message}" failed.`, error);
+    }
+  }
+
+  private flushAll(): void {
+    Array.from(this.pending.entries()).forEach(([id, entry]) => {
+      clearTimeout(entry.timer);
+      entry.detached = true;
+      this.finalize(id);
+    });
+  }
+
+  private reportError(entry: PendingAction, message: string, error: any): void {
+    if (!entry.detached && entry.action.onFailed) {
+      entry.action.onFailed(error);
+    } else {
+      this.zone.run(() => this.errorSubject.next(message));
+    }
+  }
+
+  private hasDeferredPending(): boolean {
+    return Array.from(this.pending.values()).some(entry => !entry.executed);
+  }
+
+  private addToast(toast: UndoToast): void {
+    this.toastsSubject.next([...this.toastsSubject.value, toast]);
+  }
+
+  private removeToast(id: number): void {
+    this.toastsSubject.next(this.toastsSubject.value.filter(toast => toast.id !== id));
+  }
+}
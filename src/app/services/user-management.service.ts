@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, of, catchError, map } from 'rxjs';
+import { Observable, of, catchError, map, tap } from 'rxjs';
 import { environment } from '../../environments/environment';
 import { MangoImage } from './mango-disease.service';
+import { AuditLogService } from './audit-log.service';
 
 export interface User {
   id: number;
@@ -64,7 +65,7 @@ export interface UserStats {
 export class UserManagementService {
   private apiUrl = environment.apiUrl;
 
-  constructor(private http: HttpClient) { }
+  constructor(private http: HttpClient, private auditLog: AuditLogService) { }
 
   //get users with their stats
   getUsers(params?: {
@@ -411,8 +412,20 @@ export class UserManagementService {
 
   //enable/disable user
   updateUserStatus(userId: number, isActive: boolean): Observable<any> {
-    return this.http.put(`${this.apiUrl}/users/${userId}/`, { is_active: isActive })
+    return this.http.put<any>(`${this.apiUrl}/users/${userId}/`, { is_active: isActive })
       .pipe(
+        tap(res => {
+          //plain object on success; only an explicit failure is skipped
+          if (res?.success !== false) {
+            this.auditLog.record({
+              action: 'user_status_updated',
+              target_type: 'user',
+              target_id: userId,
+              before: { is_active: !isActive },
+              after: { is_active: isActive }
+            });
+          }
+        }),
         catchError(error => {
           console.error('Error updating user status:', error);
           throw error;
@@ -1,4 +1,6 @@
 export const environment = {
   production: true,
-  apiUrl: 'http://127.0.0.1:8000/api'
+  apiUrl: 'http://127.0.0.1:8000/api',
+  sessionIdleTimeoutMs: 15 * 60 * 1000, //log out after 15 min without activity
+  sessionWarningMs: 60 * 1000 //show countdown for the last minute
 };
\ No newline at end of file